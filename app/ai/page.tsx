@@ -55,12 +55,17 @@ import {
   Bot,
   Info,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, getFocusedSeconds } from "@/lib/utils";
 import { useAIChat } from "@/hooks/useAIChat";
 import { useFocus, type FocusSession } from "@/hooks/useFocus";
 import { useConfig } from "@/hooks/useConfig";
 import { useRewards } from "@/hooks/useRewards";
-import { usePomo } from "@/hooks/PomoContext";
+import {
+  getPhaseDuration,
+  usePomo,
+  type PomodoroPhase,
+  type PomodoroSettings,
+} from "@/hooks/PomoContext";
 import {
   AI_MODELS,
   PROVIDER_LABELS,
@@ -77,14 +82,14 @@ import { toast } from "sonner";
 interface TimerContextData {
   mode: string;
   isRunning: boolean;
-  phase: string;
+  phase: PomodoroPhase;
   elapsedSeconds: number;
-  pomodoroSettings: { focusDuration: number; breakDuration: number };
+  pomodoroSettings: PomodoroSettings;
   currentTag: string;
 }
 
 function sessionHours(s: FocusSession): number {
-  return (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / (1000 * 60 * 60);
+  return getFocusedSeconds(s) / (60 * 60);
 }
 
 function sumHoursInPeriod(sessions: FocusSession[], days: number): number {
@@ -130,13 +135,11 @@ function buildFocusContext(
   });
 
   // Timer state
-  const timerMode = timer.mode === "pomodoro" ? "Pomodoro" : "Standard";
+  const timerMode = timer.mode === "pomodoro" ? "Pomodoro" : timer.mode === "flowtime" ? "Flowtime" : "Standard";
   const timerStatus = timer.isRunning ? "Running" : "Paused/Stopped";
   let timerDetail = "";
   if (timer.mode === "pomodoro") {
-    const totalSecs = (timer.phase === "focus"
-      ? timer.pomodoroSettings.focusDuration
-      : timer.pomodoroSettings.breakDuration) * 60;
+    const totalSecs = getPhaseDuration(timer.pomodoroSettings, timer.phase);
     const remaining = Math.max(0, totalSecs - timer.elapsedSeconds);
     const rm = Math.floor(remaining / 60);
     const rs = remaining % 60;
@@ -0,0 +1,448 @@
+/**
+ * Plan Templates Dialog - Day and Week Templates and Copying a Week
+ *
+ * Applies a saved template to a range of dates, saves the timeblocks of a
+ * day or week as a template, and copies last week's plan to the week in
+ * view. Before anything is added it shows how many blocks overlap existing
+ * timeblocks and lets the user choose how to resolve that.
+ *
+ * @fileoverview Timeblock template and copy-week dialog
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useMemo, useState, type JSX } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { FaTrash } from "react-icons/fa6";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useTimeblocks } from "@/hooks/useTimeblocks";
+import { useTimeblockTemplates } from "@/hooks/useTimeblockTemplates";
+import { WEEKDAY_LABELS } from "@/lib/timeblockRecurrence";
+import {
+  CONFLICT_STRATEGIES,
+  TEMPLATE_KINDS,
+  findPlanConflicts,
+  planTemplate,
+  planWeekCopy,
+  startOfPlanWeek,
+  templateBlocksFrom,
+  type ConflictStrategy,
+  type PlannedBlock,
+  type TemplateKind,
+} from "@/lib/timeblockTemplates";
+import { cn } from "@/lib/utils";
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  skip: "Skip them",
+  replace: "Replace existing",
+  keep: "Keep both",
+};
+
+/** Days in the order they are shown, Monday first like the Calendar */
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const DATE_INPUT_FORMAT = "YYYY-MM-DD";
+
+function Pill({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}): JSX.Element {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "px-2.5 py-0.5 rounded-full text-xs font-medium border transition-colors",
+        active
+          ? "bg-primary text-primary-foreground border-primary"
+          : "text-muted-foreground border-border hover:text-foreground"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Block count, overlaps and the choice of what to do with them
+ */
+function PlanSummary({
+  planned,
+  strategy,
+  onStrategyChange,
+}: {
+  planned: PlannedBlock[];
+  strategy: ConflictStrategy;
+  onStrategyChange: (strategy: ConflictStrategy) => void;
+}): JSX.Element {
+  const { timeblocks } = useTimeblocks();
+  const overlapping = useMemo(
+    () => findPlanConflicts(planned, timeblocks).filter((r) => r.conflicts.length).length,
+    [planned, timeblocks]
+  );
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="text-sm">
+        {planned.length} block{planned.length !== 1 ? "s" : ""} to add
+        {overlapping > 0 && (
+          <span className="text-muted-foreground">
+            {" "}
+            · {overlapping} overlap{overlapping === 1 ? "s" : ""} existing blocks
+          </span>
+        )}
+      </p>
+      {overlapping > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Overlaps:</span>
+          {CONFLICT_STRATEGIES.map((s) => (
+            <Pill key={s} active={strategy === s} onClick={() => onStrategyChange(s)}>
+              {STRATEGY_LABELS[s]}
+            </Pill>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Plan Templates Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ * @param date - Date in view in the Calendar
+ * @param range - Period shown in the Calendar, used as the initial range
+ */
+export default function PlanTemplatesDialog({
+  open,
+  onOpenChange,
+  date,
+  range,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  date: Date;
+  range: { start: Date; end: Date };
+}): JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        {open && <PlanTemplatesForm date={date} range={range} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PlanTemplatesForm({
+  date,
+  range,
+  onDone,
+}: {
+  date: Date;
+  range: { start: Date; end: Date };
+  onDone: () => void;
+}): JSX.Element {
+  const { templates } = useTimeblockTemplates();
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Plan templates</DialogTitle>
+        <DialogDescription>Reuse a planned day or week instead of dragging out every block.</DialogDescription>
+      </DialogHeader>
+
+      <Tabs defaultValue={templates.length ? "apply" : "save"}>
+        <TabsList className="w-full">
+          <TabsTrigger value="apply">Apply</TabsTrigger>
+          <TabsTrigger value="save">Save</TabsTrigger>
+          <TabsTrigger value="copy">Copy last week</TabsTrigger>
+        </TabsList>
+        <TabsContent value="apply">
+          <ApplyTemplateTab range={range} onDone={onDone} />
+        </TabsContent>
+        <TabsContent value="save">
+          <SaveTemplateTab date={date} />
+        </TabsContent>
+        <TabsContent value="copy">
+          <CopyWeekTab date={date} onDone={onDone} />
+        </TabsContent>
+      </Tabs>
+    </>
+  );
+}
+
+function ApplyTemplateTab({
+  range,
+  onDone,
+}: {
+  range: { start: Date; end: Date };
+  onDone: () => void;
+}): JSX.Element {
+  const { templates } = useTimeblockTemplates();
+  const { applyPlan } = useTimeblocks();
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? "");
+  const [from, setFrom] = useState(dayjs(range.start).format(DATE_INPUT_FORMAT));
+  const [to, setTo] = useState(dayjs(range.end).format(DATE_INPUT_FORMAT));
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip");
+
+  const template = templates.find((t) => t.id === templateId);
+  const validRange = from !== "" && to !== "" && !dayjs(to).isBefore(dayjs(from));
+
+  const planned = useMemo(
+    () => (template && validRange ? planTemplate(template, dayjs(from).toDate(), dayjs(to).toDate(), weekdays) : []),
+    [template, validRange, from, to, weekdays]
+  );
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays((days) => (days.includes(day) ? days.filter((d) => d !== day) : [...days, day]));
+
+  const handleApply = async () => {
+    try {
+      const { added, skipped, replaced } = await applyPlan(planned, strategy);
+      toast.success(
+        [
+          `Added ${added} block${added !== 1 ? "s" : ""}`,
+          skipped && `skipped ${skipped}`,
+          replaced && `replaced ${replaced}`,
+        ]
+          .filter(Boolean)
+          .join(", ") + "."
+      );
+      onDone();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not apply the template.");
+    }
+  };
+
+  if (!templates.length) {
+    return (
+      <p className="text-sm text-muted-foreground py-6 text-center">
+        No templates yet. Plan a day or week, then save it as a template.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 pt-2">
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <Select value={templateId} onValueChange={setTemplateId}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Choose a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.name} · {t.kind === "day" ? "Day" : "Week"}, {t.blocks.length} block
+                {t.blocks.length !== 1 ? "s" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Dates</Label>
+        <div className="flex items-center gap-2">
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+          <span className="text-muted-foreground text-sm">to</span>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+        </div>
+      </div>
+
+      {template?.kind === "day" && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex flex-wrap gap-1">
+            {DAY_ORDER.map((day) => (
+              <Pill key={day} active={weekdays.includes(day)} onClick={() => toggleWeekday(day)}>
+                {WEEKDAY_LABELS[day]}
+              </Pill>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <PlanSummary planned={planned} strategy={strategy} onStrategyChange={setStrategy} />
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} disabled={!planned.length}>
+          Apply
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function SaveTemplateTab({ date }: { date: Date }): JSX.Element {
+  const { templates, saveTemplate, removeTemplate } = useTimeblockTemplates();
+  const { timeblocks } = useTimeblocks();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<TemplateKind>("day");
+  const [source, setSource] = useState(dayjs(date).format(DATE_INPUT_FORMAT));
+
+  const blocks = useMemo(
+    () => (source ? templateBlocksFrom(kind, timeblocks, dayjs(source).toDate()) : []),
+    [kind, timeblocks, source]
+  );
+  const sourceLabel =
+    kind === "day"
+      ? dayjs(source).format("ddd D MMM")
+      : `the week of ${dayjs(startOfPlanWeek(dayjs(source).toDate())).format("D MMM")}`;
+  const replaces = templates.some((t) => t.kind === kind && t.name === name.trim());
+
+  const handleSave = () => {
+    const template = saveTemplate(name.trim(), kind, blocks);
+    toast.success(`Saved "${template.name}".`);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-4 pt-2">
+      <div className="space-y-2">
+        <Label htmlFor="template-name">Name</Label>
+        <Input
+          id="template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={kind === "day" ? "Maker day" : "Sprint week"}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Template of a</Label>
+          <div className="flex gap-1">
+            {TEMPLATE_KINDS.map((k) => (
+              <Pill key={k} active={kind === k} onClick={() => setKind(k)}>
+                {k === "day" ? "Day" : "Week"}
+              </Pill>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-source">{kind === "day" ? "Day" : "A day in the week"}</Label>
+          <Input
+            id="template-source"
+            type="date"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {blocks.length
+          ? `${blocks.length} block${blocks.length !== 1 ? "s" : ""} planned on ${sourceLabel}.`
+          : `Nothing is planned on ${sourceLabel}.`}
+      </p>
+
+      <DialogFooter>
+        <Button onClick={handleSave} disabled={!name.trim() || !blocks.length}>
+          {replaces ? "Replace template" : "Save template"}
+        </Button>
+      </DialogFooter>
+
+      {templates.length > 0 && (
+        <div className="border-t pt-3 space-y-1">
+          {templates.map((t) => (
+            <div key={t.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{t.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {t.kind === "day" ? "Day" : "Week"} · {t.blocks.length} block{t.blocks.length !== 1 ? "s" : ""}
+              </span>
+              <button
+                onClick={() => removeTemplate(t.id)}
+                aria-label={`Delete ${t.name}`}
+                className="text-muted-foreground hover:text-destructive transition-colors"
+              >
+                <FaTrash className="size-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CopyWeekTab({ date, onDone }: { date: Date; onDone: () => void }): JSX.Element {
+  const { timeblocks, applyPlan } = useTimeblocks();
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip");
+
+  const { source, target } = useMemo(() => {
+    const target = startOfPlanWeek(date);
+    return { source: dayjs(target).subtract(1, "week").toDate(), target };
+  }, [date]);
+  const planned = useMemo(() => planWeekCopy(timeblocks, source, target), [timeblocks, source, target]);
+
+  const handleCopy = async () => {
+    try {
+      const { added, skipped, replaced } = await applyPlan(planned, strategy);
+      toast.success(
+        [
+          `Copied ${added} block${added !== 1 ? "s" : ""}`,
+          skipped && `skipped ${skipped}`,
+          replaced && `replaced ${replaced}`,
+        ]
+          .filter(Boolean)
+          .join(", ") + "."
+      );
+      onDone();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not copy the week.");
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-2">
+      <p className="text-sm">
+        Copies the blocks planned in the week of {dayjs(source).format("D MMM")} to the week of{" "}
+        {dayjs(target).format("D MMM")}, at the same times. Repeating blocks already continue on their own.
+      </p>
+
+      <PlanSummary planned={planned} strategy={strategy} onStrategyChange={setStrategy} />
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleCopy} disabled={!planned.length}>
+          Copy
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
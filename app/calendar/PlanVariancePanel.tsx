@@ -0,0 +1,174 @@
+/**
+ * Plan Variance Panel - Planned vs Focused Time in the Calendar Sidebar
+ *
+ * Shows the report from `computePlanVariance` for the day or week in view:
+ * totals, focus inside and outside planned blocks, each tag's focused time
+ * against its plan, skipped blocks, and planned vs focused hours over the
+ * last weeks.
+ *
+ * @fileoverview Planned-vs-actual sidebar report
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import type { JSX } from "react";
+import { format } from "date-fns";
+import type { SavedTag } from "@/hooks/useTag";
+import type { PlanVariance, WeekVariance } from "@/lib/planVariance";
+import { cn, getTagColor } from "@/lib/utils";
+
+/** Skipped blocks listed before the rest are summarised */
+const MAX_SKIPPED_SHOWN = 4;
+
+/** Seconds as e.g. "2h 05m" or "40m" */
+function formatHours(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (!hours) return `${minutes}m`;
+  return `${hours}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.min(100, (part / whole) * 100) : 0;
+}
+
+/**
+ * Plan Variance Panel
+ *
+ * @param variance - Report for the period in view
+ * @param trend - Weekly totals, oldest first
+ * @param savedTags - For tag colours
+ */
+export default function PlanVariancePanel({
+  variance,
+  trend,
+  savedTags,
+}: {
+  variance: PlanVariance;
+  trend: WeekVariance[];
+  savedTags: SavedTag[];
+}): JSX.Element {
+  const { plannedSeconds, actualSeconds, insideSeconds, outsideSeconds, tags, skipped } = variance;
+  const difference = actualSeconds - plannedSeconds;
+  const trendMax = Math.max(1, ...trend.map((w) => Math.max(w.plannedSeconds, w.actualSeconds)));
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <p className="text-muted-foreground">Planned</p>
+          <p className="font-mono font-semibold">{formatHours(plannedSeconds)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Focused</p>
+          <p className="font-mono font-semibold">
+            {formatHours(actualSeconds)}
+            {plannedSeconds > 0 && (
+              <span
+                className={cn(
+                  "ml-1 font-normal",
+                  difference >= 0 ? "text-emerald-500" : "text-muted-foreground"
+                )}
+              >
+                {difference >= 0 ? "+" : "−"}
+                {formatHours(Math.abs(difference))}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Inside vs outside planned blocks */}
+      {actualSeconds > 0 && (
+        <div>
+          <div className="flex h-1.5 rounded-full overflow-hidden bg-muted">
+            <div className="bg-primary" style={{ width: `${percent(insideSeconds, actualSeconds)}%` }} />
+          </div>
+          <div className="flex justify-between text-[0.65rem] text-muted-foreground mt-1">
+            <span>{formatHours(insideSeconds)} on plan</span>
+            <span>{formatHours(outsideSeconds)} off plan</span>
+          </div>
+        </div>
+      )}
+
+      {/* Per tag */}
+      {tags.length > 0 && (
+        <div className="flex flex-col gap-1.5">
+          {tags.map((t) => {
+            const [color] = getTagColor(savedTags, t.tag);
+            return (
+              <div key={t.tag} className="text-xs">
+                <div className="flex items-center gap-1.5">
+                  <span className="size-2 rounded-full shrink-0" style={{ background: color }} />
+                  <span className="truncate flex-1" title={t.tag}>
+                    {t.tag}
+                  </span>
+                  <span className="font-mono text-muted-foreground shrink-0">
+                    {formatHours(t.actualSeconds)}
+                    {t.plannedSeconds > 0 && ` / ${formatHours(t.plannedSeconds)}`}
+                  </span>
+                </div>
+                {t.plannedSeconds > 0 && (
+                  <div className="h-1 rounded-full mt-1 ml-3.5 bg-muted">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${percent(t.actualSeconds, t.plannedSeconds)}%`, background: color }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Skipped blocks */}
+      {skipped.length > 0 && (
+        <div className="text-xs">
+          <p className="text-muted-foreground mb-1">
+            {skipped.length} skipped block{skipped.length !== 1 ? "s" : ""}
+          </p>
+          {skipped.slice(0, MAX_SKIPPED_SHOWN).map((b) => (
+            <p key={`${b.tag}-${b.start.getTime()}`} className="truncate text-muted-foreground/80">
+              <span className="font-mono">{format(b.start, "EEE h:mm a")}</span> {b.title || b.tag}
+            </p>
+          ))}
+          {skipped.length > MAX_SKIPPED_SHOWN && (
+            <p className="text-muted-foreground/60">+{skipped.length - MAX_SKIPPED_SHOWN} more</p>
+          )}
+        </div>
+      )}
+
+      {/* Weekly trend */}
+      {trend.some((w) => w.plannedSeconds > 0 || w.actualSeconds > 0) && (
+        <div>
+          <p className="text-[0.65rem] text-muted-foreground mb-1">Planned vs focused, by week</p>
+          <div className="flex items-end gap-1 h-12">
+            {trend.map((w) => (
+              <div
+                key={w.weekStart.getTime()}
+                className="flex-1 flex items-end justify-center gap-px h-full"
+                title={`Week of ${format(w.weekStart, "MMM d")}: ${formatHours(w.actualSeconds)} focused, ${formatHours(w.plannedSeconds)} planned, ${Math.round(percent(w.insideSeconds, w.plannedSeconds))}% of plan done`}
+              >
+                <div
+                  className="w-1.5 rounded-sm border border-dashed border-primary/60"
+                  style={{ height: `${percent(w.plannedSeconds, trendMax)}%` }}
+                />
+                <div
+                  className="w-1.5 rounded-sm bg-primary"
+                  style={{ height: `${percent(w.actualSeconds, trendMax)}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[0.6rem] text-muted-foreground/70 mt-0.5">
+            <span>{format(trend[0].weekStart, "MMM d")}</span>
+            <span>{format(trend[trend.length - 1].weekStart, "MMM d")}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * Plan Week Dialog - Auto-Schedule Open Issues Into the Week
+ *
+ * Sets the working hours and block sizes the auto scheduler plans with, lists
+ * the open issues it would plan in the week in view and how much of them
+ * fits, and hands the proposal to the Calendar to preview.
+ *
+ * @fileoverview "Plan my week" dialog
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useEffect, useMemo, type JSX } from "react";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAutoSchedule } from "@/hooks/useAutoSchedule";
+import { useExternalCalendars } from "@/hooks/useExternalCalendars";
+import { useProjects } from "@/hooks/useProjects";
+import { useTag } from "@/hooks/useTag";
+import { useTimeblocks } from "@/hooks/useTimeblocks";
+import {
+  MIN_SCHEDULED_BLOCK_MINUTES,
+  remainingEffortMinutes,
+  scheduleIssues,
+  type SchedulableIssue,
+} from "@/lib/autoSchedule";
+import { expandExternalEvents } from "@/lib/icsImport";
+import { expandTimeblocks, WEEKDAY_LABELS } from "@/lib/timeblockRecurrence";
+import { templateSourceRange } from "@/lib/timeblockTemplates";
+import { cn } from "@/lib/utils";
+
+/** Days in the order they are shown, Monday first like the Calendar */
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/** Select value for tagging blocks with their project's title */
+const PROJECT_TAG = "__project__";
+
+/** "HH:mm" for minutes after midnight */
+function toTimeInput(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/** Minutes after midnight for "HH:mm" */
+function fromTimeInput(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return [h && `${h}h`, m && `${m}m`].filter(Boolean).join(" ") || "0m";
+}
+
+/**
+ * Plan Week Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ * @param date - A day in the week to plan
+ * @param onPreview - Called once the proposal is ready to preview
+ */
+export default function PlanWeekDialog({
+  open,
+  onOpenChange,
+  date,
+  onPreview,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  date: Date;
+  onPreview: () => void;
+}): JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        {open && (
+          <PlanWeekForm
+            date={date}
+            onCancel={() => onOpenChange(false)}
+            onPreview={() => {
+              onOpenChange(false);
+              onPreview();
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PlanWeekForm({
+  date,
+  onCancel,
+  onPreview,
+}: {
+  date: Date;
+  onCancel: () => void;
+  onPreview: () => void;
+}): JSX.Element {
+  const { settings, loadAutoScheduleSettings, updateAutoScheduleSettings, setProposal } = useAutoSchedule();
+  const { projects, milestones, issues, loadProjects, getTrackedSecondsForIssue } = useProjects();
+  const { timeblocks } = useTimeblocks();
+  const { calendars } = useExternalCalendars();
+  const { savedTags } = useTag();
+
+  useEffect(() => {
+    loadAutoScheduleSettings();
+    loadProjects();
+  }, [loadAutoScheduleSettings, loadProjects]);
+
+  const week = useMemo(() => templateSourceRange("week", date), [date]);
+
+  const schedulable = useMemo<SchedulableIssue[]>(() => {
+    const now = new Date();
+    const upcoming = expandTimeblocks(timeblocks, now, week.end).filter((o) => o.timeblock.issueId !== undefined);
+
+    return issues.flatMap((issue) => {
+      if (issue.status === "Done" || (!issue.dueDate && !settings.includeUndated)) return [];
+      const milestone = milestones.find((m) => m.id === issue.milestoneId);
+      const project = milestone && projects.find((p) => p.id === milestone.projectId);
+      if (!milestone || milestone.status === "Closed" || milestone.status === "Paid") return [];
+      if (!project || project.status === "Closed") return [];
+
+      const plannedMinutes = upcoming
+        .filter((o) => o.timeblock.issueId === issue.id)
+        .reduce((sum, o) => sum + (o.end.getTime() - Math.max(o.start.getTime(), now.getTime())) / 60000, 0);
+
+      return [
+        {
+          id: issue.id!,
+          projectId: project.id!,
+          milestoneId: milestone.id!,
+          title: issue.title,
+          label: issue.label,
+          dueDate: issue.dueDate,
+          estimateMinutes: issue.estimateMinutes,
+          trackedSeconds: getTrackedSecondsForIssue(issue.id!),
+          plannedMinutes: Math.round(plannedMinutes),
+          tag: settings.tag || project.title,
+        },
+      ];
+    });
+  }, [issues, milestones, projects, timeblocks, week, settings.includeUndated, settings.tag, getTrackedSecondsForIssue]);
+
+  const schedule = useMemo(() => {
+    const busy = [
+      ...expandTimeblocks(timeblocks, week.start, week.end),
+      ...calendars
+        .flatMap((c) => expandExternalEvents(c.events, week.start, week.end))
+        .filter((o) => o.busy && !o.allDay),
+    ];
+    const lastDay = dayjs(week.end).subtract(1, "day").toDate();
+    return scheduleIssues(schedulable, busy, week.start, lastDay, settings);
+  }, [schedulable, timeblocks, calendars, week, settings]);
+
+  const toPlan = schedulable.filter((i) => remainingEffortMinutes(i, settings.defaultEstimateMinutes) > 0);
+  const plannedMinutes = schedule.blocks.reduce(
+    (sum, b) => sum + (b.endTime.getTime() - b.startTime.getTime()) / 60000,
+    0
+  );
+  const lateCount = new Set(schedule.blocks.filter((b) => b.late).map((b) => b.issueId)).size;
+  const validHours = settings.workEndMinute > settings.workStartMinute;
+
+  const toggleDay = (day: number) =>
+    updateAutoScheduleSettings({
+      workDays: settings.workDays.includes(day)
+        ? settings.workDays.filter((d) => d !== day)
+        : [...settings.workDays, day],
+    });
+
+  const minutesInput = (value: string, min: number) => Math.max(min, Math.floor(Number(value) || 0));
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Plan my week</DialogTitle>
+        <DialogDescription>
+          Proposes blocks for open issues in the week of {dayjs(week.start).format("D MMM")}, by due date and
+          label, around what is already planned.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Working hours</Label>
+          <div className="flex flex-wrap gap-1">
+            {DAY_ORDER.map((day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={cn(
+                  "px-2.5 py-0.5 rounded-full text-xs font-medium border transition-colors",
+                  settings.workDays.includes(day)
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "text-muted-foreground border-border hover:text-foreground"
+                )}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={toTimeInput(settings.workStartMinute)}
+              onChange={(e) => updateAutoScheduleSettings({ workStartMinute: fromTimeInput(e.target.value) })}
+              aria-label="Start of the working day"
+            />
+            <span className="text-muted-foreground text-sm">to</span>
+            <Input
+              type="time"
+              value={toTimeInput(settings.workEndMinute)}
+              onChange={(e) => updateAutoScheduleSettings({ workEndMinute: fromTimeInput(e.target.value) })}
+              aria-label="End of the working day"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="plan-max-block">Longest block (min)</Label>
+            <Input
+              id="plan-max-block"
+              type="number"
+              min={MIN_SCHEDULED_BLOCK_MINUTES}
+              step={MIN_SCHEDULED_BLOCK_MINUTES}
+              value={settings.maxBlockMinutes}
+              onChange={(e) =>
+                updateAutoScheduleSettings({
+                  maxBlockMinutes: minutesInput(e.target.value, MIN_SCHEDULED_BLOCK_MINUTES),
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-break">Break (min)</Label>
+            <Input
+              id="plan-break"
+              type="number"
+              min={0}
+              step={5}
+              value={settings.breakMinutes}
+              onChange={(e) => updateAutoScheduleSettings({ breakMinutes: minutesInput(e.target.value, 0) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-default-estimate">No estimate (min)</Label>
+            <Input
+              id="plan-default-estimate"
+              type="number"
+              min={MIN_SCHEDULED_BLOCK_MINUTES}
+              step={MIN_SCHEDULED_BLOCK_MINUTES}
+              value={settings.defaultEstimateMinutes}
+              onChange={(e) =>
+                updateAutoScheduleSettings({
+                  defaultEstimateMinutes: minutesInput(e.target.value, MIN_SCHEDULED_BLOCK_MINUTES),
+                })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 flex-1 min-w-40">
+            <Label>Tag</Label>
+            <Select
+              value={settings.tag || PROJECT_TAG}
+              onValueChange={(value) => updateAutoScheduleSettings({ tag: value === PROJECT_TAG ? "" : value })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROJECT_TAG}>Project name</SelectItem>
+                {savedTags.map((t) => (
+                  <SelectItem key={t.t} value={t.t}>
+                    {t.t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2 cursor-pointer">
+            <Switch
+              checked={settings.includeUndated}
+              onCheckedChange={(includeUndated) => updateAutoScheduleSettings({ includeUndated })}
+            />
+            Issues without a due date
+          </label>
+        </div>
+
+        <div className="space-y-1 rounded-md border p-3 text-sm">
+          {!validHours ? (
+            <p className="text-muted-foreground">The working day must end after it starts.</p>
+          ) : !toPlan.length ? (
+            <p className="text-muted-foreground">No open issues need planning.</p>
+          ) : (
+            <>
+              <p>
+                {schedule.blocks.length} block{schedule.blocks.length !== 1 ? "s" : ""} ·{" "}
+                {formatMinutes(Math.round(plannedMinutes))} for {toPlan.length} issue
+                {toPlan.length !== 1 ? "s" : ""}
+              </p>
+              {lateCount > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  {lateCount} issue{lateCount !== 1 ? "s" : ""} can only be planned after the due date.
+                </p>
+              )}
+              {schedule.unscheduled.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Doesn&apos;t fit this week:
+                  <ul className="mt-1 space-y-0.5">
+                    {schedule.unscheduled.map(({ issue, minutes }) => (
+                      <li key={issue.id} className="flex justify-between gap-2">
+                        <span className="truncate">{issue.title}</span>
+                        <span className="font-mono shrink-0">{formatMinutes(minutes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          disabled={!validHours || !schedule.blocks.length}
+          onClick={() => {
+            setProposal(schedule);
+            onPreview();
+          }}
+        >
+          Preview on calendar
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
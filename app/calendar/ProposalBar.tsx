@@ -0,0 +1,79 @@
+/**
+ * Proposal Bar - Accept or Discard an Auto-Scheduled Week
+ *
+ * Shown above the Calendar while a "Plan my week" proposal is previewed.
+ * Summarizes the proposed blocks and saves them as timeblocks when accepted.
+ *
+ * @fileoverview Auto schedule proposal summary and actions
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import type { JSX } from "react";
+import { toast } from "sonner";
+import { FaWandMagicSparkles } from "react-icons/fa6";
+import { Button } from "@/components/ui/button";
+import { useAutoSchedule } from "@/hooks/useAutoSchedule";
+import { useTimeblocks } from "@/hooks/useTimeblocks";
+
+/**
+ * Proposal Bar
+ *
+ * Renders nothing when there is no proposal.
+ */
+export default function ProposalBar(): JSX.Element | null {
+  const { proposal, setProposal } = useAutoSchedule();
+  const { applyPlan } = useTimeblocks();
+
+  if (!proposal) return null;
+
+  const { blocks, unscheduled } = proposal;
+  const issueCount = new Set(blocks.map((b) => b.issueId)).size;
+  const lateCount = new Set(blocks.filter((b) => b.late).map((b) => b.issueId)).size;
+
+  const handleAccept = async () => {
+    try {
+      // The user may have dragged blocks anywhere, so keep overlaps as placed
+      const { added } = await applyPlan(
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        blocks.map(({ key, dueEnd, late, ...block }) => block),
+        "keep"
+      );
+      setProposal(null);
+      toast.success(`Planned ${added} block${added !== 1 ? "s" : ""}.`);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save the proposed blocks.");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg border border-dashed border-primary/60 bg-primary/5 px-4 py-2.5 mb-4">
+      <FaWandMagicSparkles className="size-3.5 text-primary shrink-0" />
+      <div className="flex-1 min-w-48 text-sm">
+        <p>
+          Proposed {blocks.length} block{blocks.length !== 1 ? "s" : ""} for {issueCount} issue
+          {issueCount !== 1 ? "s" : ""}
+          {lateCount > 0 && (
+            <span className="text-amber-600 dark:text-amber-400"> · {lateCount} past due</span>
+          )}
+          {unscheduled.length > 0 && (
+            <span className="text-muted-foreground"> · {unscheduled.length} didn&apos;t fit</span>
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Drag or resize blocks to adjust them; click one to leave it out.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setProposal(null)}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={handleAccept} disabled={!blocks.length}>
+          Accept
+        </Button>
+      </div>
+    </div>
+  );
+}
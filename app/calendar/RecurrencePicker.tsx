@@ -0,0 +1,171 @@
+/**
+ * Recurrence Picker - Repeat Rule for a Timeblock
+ *
+ * Compact controls for the Calendar's timeblock popups: how often a block
+ * repeats, on which days for weekly blocks, and when the series ends.
+ *
+ * @fileoverview Timeblock recurrence controls
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import type { JSX } from "react";
+import dayjs from "dayjs";
+import { Input } from "@/components/ui/input";
+import type { TimeblockRecurrence } from "@/lib/db";
+import { TIMEBLOCK_FREQUENCIES, WEEKDAY_LABELS } from "@/lib/timeblockRecurrence";
+import { cn } from "@/lib/utils";
+
+const FREQUENCY_LABELS: Record<(typeof TIMEBLOCK_FREQUENCIES)[number], string> = {
+  daily: "Daily",
+  weekdays: "Weekdays",
+  weekly: "Weekly",
+};
+
+/** Days in the order they are shown, Monday first like the Calendar */
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type EndKind = "never" | "until" | "count";
+
+function Pill({
+  active,
+  onClick,
+  children,
+  className,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+  className?: string;
+}): JSX.Element {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "px-2 py-0.5 rounded-full text-xs font-medium border transition-colors",
+        active
+          ? "bg-primary text-primary-foreground border-primary"
+          : "text-muted-foreground border-border hover:text-foreground",
+        className
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Recurrence Picker
+ *
+ * @param value - Current rule, or undefined for a block that doesn't repeat
+ * @param onChange - Called with the new rule
+ * @param start - Start of the (first) occurrence, for default days and end date
+ */
+export default function RecurrencePicker({
+  value,
+  onChange,
+  start,
+}: {
+  value: TimeblockRecurrence | undefined;
+  onChange: (value: TimeblockRecurrence | undefined) => void;
+  start: Date;
+}): JSX.Element {
+  const endKind: EndKind = value?.count !== undefined ? "count" : value?.until ? "until" : "never";
+
+  const setEnd = (kind: EndKind) => {
+    if (!value) return;
+    const rule = { freq: value.freq, ...(value.days && { days: value.days }) };
+    if (kind === "never") onChange(rule);
+    if (kind === "until") onChange({ ...rule, until: dayjs(start).add(1, "month").startOf("day").toDate() });
+    if (kind === "count") onChange({ ...rule, count: 10 });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!value) return;
+    const days = value.days ?? [start.getDay()];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    if (next.length) onChange({ ...value, days: next.sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex flex-wrap gap-1">
+        <Pill active={!value} onClick={() => onChange(undefined)}>
+          Once
+        </Pill>
+        {TIMEBLOCK_FREQUENCIES.map((freq) => (
+          <Pill
+            key={freq}
+            active={value?.freq === freq}
+            onClick={() =>
+              onChange({
+                freq,
+                ...(freq === "weekly" && { days: value?.days ?? [start.getDay()] }),
+                ...(value?.until && { until: value.until }),
+                ...(value?.count !== undefined && { count: value.count }),
+              })
+            }
+          >
+            {FREQUENCY_LABELS[freq]}
+          </Pill>
+        ))}
+      </div>
+
+      {value?.freq === "weekly" && (
+        <div className="flex gap-0.5">
+          {DAY_ORDER.map((day) => (
+            <Pill
+              key={day}
+              active={(value.days ?? [start.getDay()]).includes(day)}
+              onClick={() => toggleDay(day)}
+              className="px-0 w-7 text-center"
+            >
+              {WEEKDAY_LABELS[day].slice(0, 2)}
+            </Pill>
+          ))}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-0.5">Ends</span>
+          <Pill active={endKind === "never"} onClick={() => setEnd("never")}>
+            Never
+          </Pill>
+          <Pill active={endKind === "until"} onClick={() => setEnd("until")}>
+            On
+          </Pill>
+          <Pill active={endKind === "count"} onClick={() => setEnd("count")}>
+            After
+          </Pill>
+        </div>
+      )}
+
+      {value?.until && (
+        <Input
+          type="date"
+          value={dayjs(value.until).format("YYYY-MM-DD")}
+          min={dayjs(start).format("YYYY-MM-DD")}
+          onChange={(e) => e.target.value && onChange({ ...value, until: dayjs(e.target.value).toDate() })}
+          aria-label="Last day"
+          className="h-7 text-xs bg-background"
+        />
+      )}
+      {value?.count !== undefined && (
+        <div className="flex items-center gap-1.5">
+          <Input
+            type="number"
+            min={1}
+            value={value.count}
+            onChange={(e) => onChange({ ...value, count: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+            aria-label="Number of times"
+            className="h-7 text-xs bg-background w-16"
+          />
+          <span className="text-xs text-muted-foreground">times</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Reminder Settings - Timeblock Reminders in the Calendar Sidebar
+ *
+ * Turns reminders before planned blocks on or off, sets how many minutes
+ * ahead they come, and asks for permission to show browser notifications.
+ *
+ * @fileoverview Timeblock reminder settings
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useEffect, useState, type JSX } from "react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { MAX_REMINDER_LEAD_MINUTES, useTimeblockReminders } from "@/hooks/useTimeblockReminders";
+
+/**
+ * Reminder Settings
+ */
+export default function ReminderSettings(): JSX.Element {
+  const { settings, updateReminderSettings } = useTimeblockReminders();
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">("default");
+
+  useEffect(() => {
+    setPermission(typeof Notification === "undefined" ? "unsupported" : Notification.permission);
+  }, []);
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center justify-between gap-2 text-sm px-1 cursor-pointer">
+        Reminders
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => {
+            updateReminderSettings({ enabled });
+            if (enabled && permission === "default") requestPermission();
+          }}
+        />
+      </label>
+      {settings.enabled && (
+        <>
+          <div className="flex items-center gap-1.5 px-1">
+            <Input
+              type="number"
+              min={0}
+              max={MAX_REMINDER_LEAD_MINUTES}
+              value={settings.leadMinutes}
+              onChange={(e) =>
+                updateReminderSettings({
+                  leadMinutes: Math.min(
+                    MAX_REMINDER_LEAD_MINUTES,
+                    Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  ),
+                })
+              }
+              aria-label="Minutes before"
+              className="h-7 w-14 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">min before</span>
+          </div>
+          <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground px-1 cursor-pointer">
+            Sound
+            <Switch
+              checked={settings.sound}
+              onCheckedChange={(sound) => updateReminderSettings({ sound })}
+            />
+          </label>
+          {permission === "default" && (
+            <button
+              onClick={requestPermission}
+              className="text-xs text-left text-primary hover:underline px-1"
+            >
+              Allow desktop notifications
+            </button>
+          )}
+          {permission === "denied" && (
+            <p className="text-xs text-muted-foreground/70 px-1 leading-snug">
+              Desktop notifications are blocked; reminders show in the app only.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Timeblock Start Controls - Start the Timer From a Timeblock
+ *
+ * Shown in the Calendar's timeblock popup: the timer mode the block starts
+ * in, and a button that starts the timer on the block right away.
+ *
+ * @fileoverview Timeblock timer mode and start button
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import type { JSX } from "react";
+import { FaPlay } from "react-icons/fa6";
+import { Button } from "@/components/ui/button";
+import { useStartTimeblock } from "@/components/TimeblockReminders";
+import type { TimerMode } from "@/hooks/PomoContext";
+import type { TimeBlock } from "@/hooks/useTimeblocks";
+import { cn } from "@/lib/utils";
+
+const MODE_OPTIONS: { mode: TimerMode | undefined; label: string }[] = [
+  { mode: undefined, label: "Current" },
+  { mode: "standard", label: "Standard" },
+  { mode: "pomodoro", label: "Pomodoro" },
+  { mode: "flowtime", label: "Flowtime" },
+];
+
+/**
+ * Timeblock Start Controls
+ *
+ * @param timeblock - Block (or series) to start
+ * @param onModeChange - Called with the new preferred mode
+ * @param onStarted - Called after the timer was started
+ */
+export default function TimeblockStartControls({
+  timeblock,
+  onModeChange,
+  onStarted,
+}: {
+  timeblock: TimeBlock;
+  onModeChange: (mode: TimerMode | undefined) => void;
+  onStarted: () => void;
+}): JSX.Element {
+  const startTimeblock = useStartTimeblock();
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-0.5">Timer</span>
+        {MODE_OPTIONS.map(({ mode, label }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => onModeChange(mode)}
+            className={cn(
+              "px-2 py-0.5 rounded-full text-xs font-medium border transition-colors",
+              timeblock.mode === mode
+                ? "bg-primary text-primary-foreground border-primary"
+                : "text-muted-foreground border-border hover:text-foreground"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <Button
+        size="sm"
+        className="h-7 text-xs gap-1.5"
+        onClick={() => {
+          startTimeblock(timeblock);
+          onStarted();
+        }}
+      >
+        <FaPlay className="size-2.5" />
+        Start
+      </Button>
+    </div>
+  );
+}
@@ -42,15 +42,24 @@ import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
 import { useFocus, FocusSession } from "@/hooks/useFocus";
 import { useTag } from "@/hooks/useTag";
 import { useTimeblocks } from "@/hooks/useTimeblocks";
+import { useAutoSchedule } from "@/hooks/useAutoSchedule";
+import { useExternalCalendars } from "@/hooks/useExternalCalendars";
 import {
   cn,
   durationFromSeconds,
   formatTimeNew,
   getTagColor,
   reduceSessions,
+  stringToHexColor,
 } from "@/lib/utils";
+import { mergeFocusSessions } from "@/lib/calendarEvents";
+import { expandExternalEvents, IcsImportError } from "@/lib/icsImport";
+import type { TimeblockRecurrence } from "@/lib/db";
+import { describeRecurrence, expandTimeblocks, type RecurrenceScope } from "@/lib/timeblockRecurrence";
+import { computePlanVariance, weeklyPlanVariance } from "@/lib/planVariance";
 import { useTheme } from "next-themes";
 import { Toaster } from "@/components/ui/sonner";
+import { toast } from "sonner";
 import { EditFocusSessionDialog } from "@/components/EditFocusSessionDialog";
 import {
   Popover,
@@ -59,7 +68,24 @@ import {
 } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useIsMobile } from "@/hooks/useIsMobile";
+import CsvExportMenu from "./CsvExportMenu";
+import IcsExportDialog from "./IcsExportDialog";
+import PlanVariancePanel from "./PlanVariancePanel";
+import RecurrencePicker from "./RecurrencePicker";
+import ReminderSettings from "./ReminderSettings";
+import PlanTemplatesDialog from "./PlanTemplatesDialog";
+import PlanWeekDialog from "./PlanWeekDialog";
+import ProposalBar from "./ProposalBar";
+import TimeblockStartControls from "./TimeblockStartControls";
 import {
   FaChevronLeft,
   FaChevronRight,
@@ -69,6 +95,11 @@ import {
   FaMagnifyingGlassMinus,
   FaMagnifyingGlass,
   FaMagnifyingGlassPlus,
+  FaRegCalendar,
+  FaFileImport,
+  FaRepeat,
+  FaRegCopy,
+  FaWandMagicSparkles,
 } from "react-icons/fa6";
 
 // ── localizer ─────────────────────────────────────────────────────────────────
@@ -84,15 +115,19 @@ const localizer = dateFnsLocalizer({
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const DnDCalendar = withDragAndDrop(Calendar as any);
 
-// Custom layout: timeblocks always full-width underneath, focus events use no-overlap
+// Custom layout: imported events and timeblocks always full-width underneath, focus events use no-overlap
 const timeblocksFirstLayout: DayLayoutFunction<CalendarEvent> = ({
   events,
   minimumStartDifference,
   slotMetrics,
   accessors,
 }) => {
-  const focusEvts = events.filter((e) => !e.isTimeblock);
-  const tbEvts = events.filter((e) => e.isTimeblock);
+  const focusEvts = events.filter((e) => !e.isTimeblock && !e.isExternal && !e.proposalKey);
+  const tbEvts = [
+    ...events.filter((e) => e.isExternal),
+    ...events.filter((e) => e.isTimeblock),
+    ...events.filter((e) => e.proposalKey),
+  ];
 
   type StyledEvent = { event: CalendarEvent; style: { top: number; height: number; width: number; xOffset: number } };
 
@@ -107,7 +142,7 @@ const timeblocksFirstLayout: DayLayoutFunction<CalendarEvent> = ({
       }) as StyledEvent[])
     : [];
 
-  // Full-width background positions for timeblocks
+  // Full-width background positions for imported events, then timeblocks and proposed blocks
   const tbStyled: StyledEvent[] = tbEvts.map((event) => {
     const { top, height } = (slotMetrics as { getRange: (s: Date, e: Date) => { top: number; height: number } }).getRange(
       (accessors as { start: (e: CalendarEvent) => Date }).start(event),
@@ -131,6 +166,13 @@ interface CalendarEvent {
   color: string;
   textColor: string;
   isTimeblock: boolean;
+  /** Read-only event from an imported calendar */
+  isExternal?: boolean;
+  allDay?: boolean;
+  /** Start of the occurrence, for timeblocks that repeat */
+  occurrenceStart?: Date;
+  /** Block proposed by "Plan my week", not saved yet */
+  proposalKey?: string;
 }
 
 type CalView = "day" | "week" | "month";
@@ -142,6 +184,9 @@ const ZOOM_CONFIG: Record<ZoomLevel, { height: number; step: number; timeslots:
   expanded: { height: 2600, step: 15, timeslots: 4 },
 };
 
+/** Weeks shown in the planned-vs-focused trend */
+const VARIANCE_TREND_WEEKS = 6;
+
 interface PendingSlot {
   start: Date;
   end: Date;
@@ -154,10 +199,19 @@ interface EditingTb {
   tag: string;
   startTime: Date;
   endTime: Date;
+  occurrenceStart?: Date;
   x: number;
   y: number;
 }
 
+/** A dragged or resized occurrence of a repeating timeblock, waiting for its scope */
+interface PendingOccurrenceChange {
+  id: number;
+  occurrenceStart: Date;
+  startTime: Date;
+  endTime: Date;
+}
+
 // ── helpers ───────────────────────────────────────────────────────────────────
 
 function getPeriodRange(date: Date, view: CalView) {
@@ -208,7 +262,15 @@ export default function CalendarPage(): JSX.Element {
   const { theme } = useTheme();
   const { focusSessions, loadFocusSessions, loadingFocusSessions } = useFocus();
   const { savedTags } = useTag();
-  const { timeblocks, loadTimeblocks, addTimeblock, editTimeblock, removeTimeblock } = useTimeblocks();
+  const {
+    timeblocks,
+    loadTimeblocks,
+    addTimeblock,
+    editTimeblock,
+    removeTimeblock,
+    editOccurrence,
+    removeOccurrence,
+  } = useTimeblocks();
   const isMobile = useIsMobile();
 
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -218,14 +280,26 @@ export default function CalendarPage(): JSX.Element {
   const [selectedSession, setSelectedSession] = useState<FocusSession | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [showTimeblocks, setShowTimeblocks] = useState(true);
+  const [isIcsExportOpen, setIsIcsExportOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isPlanWeekOpen, setIsPlanWeekOpen] = useState(false);
+  const { proposal, setProposal, moveProposedBlock, removeProposedBlock } = useAutoSchedule();
+  const [showExternal, setShowExternal] = useState(true);
+  const { calendars, loadCalendars, importCalendar, removeCalendar } = useExternalCalendars();
+  const icsInputRef = useRef<HTMLInputElement | null>(null);
 
   // Pending slot popup (create)
   const [pendingSlot, setPendingSlot] = useState<PendingSlot | null>(null);
   const [pendingTag, setPendingTag] = useState("");
+  const [pendingRecurrence, setPendingRecurrence] = useState<TimeblockRecurrence | undefined>();
 
   // Editing existing timeblock popup
   const [editingTb, setEditingTb] = useState<EditingTb | null>(null);
   const [editTbTag, setEditTbTag] = useState("");
+  const [editTbRecurrence, setEditTbRecurrence] = useState<TimeblockRecurrence | undefined>();
+
+  // Moved or resized occurrence of a repeating timeblock
+  const [pendingChange, setPendingChange] = useState<PendingOccurrenceChange | null>(null);
 
   // Track mouse position for popup placement
   const lastMousePos = useRef({ x: 0, y: 0 });
@@ -241,48 +315,25 @@ export default function CalendarPage(): JSX.Element {
   useEffect(() => {
     loadFocusSessions();
     loadTimeblocks();
-  }, [loadFocusSessions, loadTimeblocks]);
+    loadCalendars();
+  }, [loadFocusSessions, loadTimeblocks, loadCalendars]);
 
   // ── Focus event building (merged + split) ──────────────────────────────────
 
   const allFocusEvents = useMemo<CalendarEvent[]>(() => {
-    if (!focusSessions.length) return [];
-
-    const sorted = [...focusSessions].sort(
-      (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-    );
-
-    const GAP = 30 * 60 * 1000;
-    const merged: CalendarEvent[] = [];
-    let group = [sorted[0]];
-
-    const flush = (g: typeof group) => {
-      const tag = g[0].tag;
-      const [color, white] = getTagColor(savedTags, tag);
-      merged.push({
-        id: g[0].id!,
-        title: tag,
-        start: new Date(g[0].startTime),
-        end: new Date(g[g.length - 1].endTime),
-        tag,
+    const merged = mergeFocusSessions(focusSessions).map((block): CalendarEvent => {
+      const [color, white] = getTagColor(savedTags, block.tag);
+      return {
+        id: block.sessions[0].id!,
+        title: block.tag,
+        start: block.start,
+        end: block.end,
+        tag: block.tag,
         color,
         textColor: white ? "#ffffff" : "#000000",
         isTimeblock: false,
-      });
-    };
-
-    for (let i = 1; i < sorted.length; i++) {
-      const prev = group[group.length - 1];
-      const curr = sorted[i];
-      const gap = new Date(curr.startTime).getTime() - new Date(prev.endTime).getTime();
-      if (curr.tag === prev.tag && gap >= 0 && gap <= GAP) {
-        group.push(curr);
-      } else {
-        flush(group);
-        group = [curr];
-      }
-    }
-    flush(group);
+      };
+    });
 
     const split: CalendarEvent[] = [];
     for (const ev of merged) {
@@ -315,26 +366,95 @@ export default function CalendarPage(): JSX.Element {
 
   const timeblocksCalEvents = useMemo<CalendarEvent[]>(() => {
     if (!showTimeblocks || currentView === "month") return [];
-    return timeblocks.map((tb): CalendarEvent => {
+    const { start, end } = getPeriodRange(currentDate, currentView);
+    return expandTimeblocks(timeblocks, start, end).map(({ timeblock: tb, ...occurrence }): CalendarEvent => {
       const [solidColor, white] = getTagColor(savedTags, tb.tag);
       return {
         id: tb.id!,
         title: tb.tag || "Time Block",
-        start: new Date(tb.startTime),
-        end: new Date(tb.endTime),
+        start: occurrence.start,
+        end: occurrence.end,
         tag: tb.tag,
         color: solidColor,
         textColor: white ? "#ffffff" : "#000000",
         isTimeblock: true,
+        occurrenceStart: occurrence.recurring ? occurrence.start : undefined,
       };
     });
-  }, [timeblocks, savedTags, showTimeblocks, currentView]);
+  }, [timeblocks, savedTags, showTimeblocks, currentDate, currentView]);
+
+  // ── Proposed blocks ────────────────────────────────────────────────────────
+
+  const proposalCalEvents = useMemo<CalendarEvent[]>(() => {
+    if (!proposal || currentView === "month") return [];
+    return proposal.blocks.map((block): CalendarEvent => {
+      const [color] = getTagColor(savedTags, block.tag);
+      return {
+        id: block.issueId,
+        title: block.title ?? block.tag,
+        start: block.startTime,
+        end: block.endTime,
+        tag: block.tag,
+        color,
+        textColor: color,
+        isTimeblock: false,
+        proposalKey: block.key,
+      };
+    });
+  }, [proposal, savedTags, currentView]);
+
+  // ── Imported calendar events ───────────────────────────────────────────────
+
+  const externalOccurrences = useMemo(() => {
+    if (!showExternal || currentView === "month") return [];
+    const { start, end } = getPeriodRange(currentDate, currentView);
+    return calendars.flatMap((calendar) => {
+      const [color] = stringToHexColor(calendar.name);
+      return expandExternalEvents(calendar.events, start, end).map((occurrence) => ({
+        ...occurrence,
+        calendar: calendar.name,
+        color,
+      }));
+    });
+  }, [calendars, showExternal, currentDate, currentView]);
+
+  const externalCalEvents = useMemo<CalendarEvent[]>(
+    () =>
+      externalOccurrences.map((o, i): CalendarEvent => ({
+        id: -(i + 1),
+        title: o.location ? `${o.title} · ${o.location}` : o.title,
+        start: o.start,
+        end: o.end,
+        tag: o.calendar,
+        color: o.color,
+        textColor: o.color,
+        isTimeblock: false,
+        isExternal: true,
+        allDay: o.allDay,
+      })),
+    [externalOccurrences]
+  );
+
+  // Timed busy events that timeblocks may not overlap; all-day events don't block.
+  // Checked against every imported calendar, shown or not.
+  const findBusyConflict = useCallback(
+    (start: Date, end: Date) => {
+      for (const calendar of calendars) {
+        const conflict = expandExternalEvents(calendar.events, start, end).find(
+          (o) => o.busy && !o.allDay && o.start < end && o.end > start
+        );
+        if (conflict) return { ...conflict, calendar: calendar.name };
+      }
+      return undefined;
+    },
+    [calendars]
+  );
 
   // ── Combined events ────────────────────────────────────────────────────────
 
   const allCalEvents = useMemo(
-    () => [...focusEvents, ...timeblocksCalEvents],
-    [focusEvents, timeblocksCalEvents]
+    () => [...externalCalEvents, ...focusEvents, ...timeblocksCalEvents, ...proposalCalEvents],
+    [externalCalEvents, focusEvents, timeblocksCalEvents, proposalCalEvents]
   );
 
   // ── All unique tags from focus sessions ────────────────────────────────────
@@ -367,51 +487,97 @@ export default function CalendarPage(): JSX.Element {
     };
   }, [focusSessions, currentDate, currentView, hiddenTags]);
 
+  // ── Planned vs actual ──────────────────────────────────────────────────────
+
+  const planVariance = useMemo(() => {
+    if (currentView === "month") return null;
+    const { start, end } = getPeriodRange(currentDate, currentView);
+    return computePlanVariance(focusSessions, timeblocks, start, end, { hiddenTags });
+  }, [focusSessions, timeblocks, currentDate, currentView, hiddenTags]);
+
+  const varianceTrend = useMemo(
+    () =>
+      currentView === "month"
+        ? []
+        : weeklyPlanVariance(focusSessions, timeblocks, currentDate, VARIANCE_TREND_WEEKS, hiddenTags),
+    [focusSessions, timeblocks, currentDate, currentView, hiddenTags]
+  );
+
   // ── Popup position helper ──────────────────────────────────────────────────
 
   const clampPopupPos = useCallback((rawX: number, rawY: number) => ({
     x: Math.max(10, Math.min(rawX + 12, window.innerWidth - 275)),
-    y: Math.max(10, Math.min(rawY - 10, window.innerHeight - 310)),
+    y: Math.max(10, Math.min(rawY - 10, window.innerHeight - 480)),
   }), []);
 
   // ── DnD handlers ──────────────────────────────────────────────────────────
 
-  const handleEventDrop = useCallback(
-    ({ event, start, end }: EventInteractionArgs<CalendarEvent>) => {
-      if (!event.isTimeblock) return;
-      editTimeblock(event.id, {
-        startTime: new Date(start),
-        endTime: new Date(end),
-      });
+  const warnBusy = useCallback(
+    (start: Date, end: Date) => {
+      const conflict = findBusyConflict(start, end);
+      if (conflict) {
+        toast.error(`Overlaps "${conflict.title}" in ${conflict.calendar}.`);
+      }
+      return !!conflict;
     },
-    [editTimeblock]
+    [findBusyConflict]
   );
 
-  const handleEventResize = useCallback(
+  // Occurrences of repeating timeblocks ask whether the change is for them alone or all following
+  const moveTimeblock = useCallback(
     ({ event, start, end }: EventInteractionArgs<CalendarEvent>) => {
-      if (!event.isTimeblock) return;
+      if (!event.isTimeblock && !event.proposalKey) return;
+      if (warnBusy(new Date(start), new Date(end))) return;
+      if (event.proposalKey) {
+        moveProposedBlock(event.proposalKey, new Date(start), new Date(end));
+        return;
+      }
+      if (event.occurrenceStart) {
+        setPendingChange({
+          id: event.id,
+          occurrenceStart: event.occurrenceStart,
+          startTime: new Date(start),
+          endTime: new Date(end),
+        });
+        return;
+      }
       editTimeblock(event.id, {
         startTime: new Date(start),
         endTime: new Date(end),
       });
     },
-    [editTimeblock]
+    [editTimeblock, moveProposedBlock, warnBusy]
   );
 
+  const applyPendingChange = (scope: RecurrenceScope) => {
+    if (!pendingChange) return;
+    const { id, occurrenceStart, startTime, endTime } = pendingChange;
+    editOccurrence(id, occurrenceStart, { startTime, endTime }, scope);
+    setPendingChange(null);
+  };
+
   // ── Slot selection (drag-to-create) ───────────────────────────────────────
 
   const handleSelectSlot = useCallback(
     (slot: SlotInfo) => {
       if (currentView === "month") return;
       if (slot.action !== "select") return;
+      if (warnBusy(slot.start, slot.end)) return;
       const { x, y } = clampPopupPos(
         lastMousePos.current.x,
         lastMousePos.current.y
       );
       setPendingSlot({ start: slot.start, end: slot.end, x, y });
       setPendingTag("");
+      setPendingRecurrence(undefined);
     },
-    [currentView, clampPopupPos]
+    [currentView, clampPopupPos, warnBusy]
+  );
+
+  // Stop the selection from being dragged over busy imported events
+  const handleSelecting = useCallback(
+    ({ start, end }: { start: Date; end: Date }) => !findBusyConflict(start, end),
+    [findBusyConflict]
   );
 
   const handleCreateTimeblock = useCallback(
@@ -419,17 +585,33 @@ export default function CalendarPage(): JSX.Element {
       if (!pendingSlot) return;
       const tag = (tagOverride ?? pendingTag).trim();
       if (!tag) return;
-      addTimeblock(tag, pendingSlot.start, pendingSlot.end);
+      addTimeblock(tag, pendingSlot.start, pendingSlot.end, undefined, pendingRecurrence);
       setPendingSlot(null);
       setPendingTag("");
     },
-    [pendingSlot, pendingTag, addTimeblock]
+    [pendingSlot, pendingTag, pendingRecurrence, addTimeblock]
   );
 
   // ── Event click handler ───────────────────────────────────────────────────
 
   const handleSelectEvent = useCallback(
     (event: CalendarEvent) => {
+      if (event.isExternal) return;
+      if (event.proposalKey) {
+        const block = proposal?.blocks.find((b) => b.key === event.proposalKey);
+        if (!block) return;
+        removeProposedBlock(block.key);
+        toast(`Left "${event.title}" out of the plan`, {
+          action: {
+            label: "Undo",
+            onClick: () => {
+              const current = useAutoSchedule.getState().proposal;
+              if (current) setProposal({ ...current, blocks: [...current.blocks, block] });
+            },
+          },
+        });
+        return;
+      }
       if (event.isTimeblock) {
         const tb = timeblocks.find((t) => t.id === event.id);
         if (!tb) return;
@@ -440,12 +622,14 @@ export default function CalendarPage(): JSX.Element {
         setEditingTb({
           id: tb.id!,
           tag: tb.tag,
-          startTime: new Date(tb.startTime),
-          endTime: new Date(tb.endTime),
+          startTime: event.start,
+          endTime: event.end,
+          occurrenceStart: event.occurrenceStart,
           x,
           y,
         });
         setEditTbTag(tb.tag);
+        setEditTbRecurrence(tb.recurrence);
       } else {
         const session = focusSessions.find((s) => s.id === event.id);
         if (session) {
@@ -454,13 +638,45 @@ export default function CalendarPage(): JSX.Element {
         }
       }
     },
-    [timeblocks, focusSessions, clampPopupPos]
+    [timeblocks, focusSessions, clampPopupPos, proposal, removeProposedBlock, setProposal]
   );
 
+  const editingTbSeries = editingTb ? timeblocks.find((t) => t.id === editingTb.id) : undefined;
+
   // ── Event style ───────────────────────────────────────────────────────────
 
   const eventStyleGetter = useCallback(
     (event: CalendarEvent) => {
+      if (event.isExternal) {
+        return {
+          style: {
+            backgroundColor: colorWithAlpha(event.color, 0.1),
+            color: event.color,
+            borderRadius: "6px",
+            border: "none",
+            borderLeft: `3px solid ${event.color}`,
+            opacity: 1,
+            fontSize: "0.7rem",
+            cursor: "default",
+            zIndex: 0,
+          },
+        };
+      }
+      if (event.proposalKey) {
+        return {
+          style: {
+            backgroundColor: colorWithAlpha(event.color, 0.08),
+            color: event.color,
+            borderRadius: "6px",
+            border: `2px dotted ${event.color}`,
+            opacity: 0.9,
+            fontWeight: 600,
+            fontSize: "0.7rem",
+            fontStyle: "italic",
+            zIndex: 1,
+          },
+        };
+      }
       if (event.isTimeblock) {
         const solidColor = event.color;
         const bg = colorWithAlpha(solidColor, 0.18);
@@ -492,8 +708,8 @@ export default function CalendarPage(): JSX.Element {
     []
   );
 
-  const draggableAccessor = useCallback((e: CalendarEvent) => e.isTimeblock, []);
-  const resizableAccessor = useCallback((e: CalendarEvent) => e.isTimeblock, []);
+  const draggableAccessor = useCallback((e: CalendarEvent) => e.isTimeblock || !!e.proposalKey, []);
+  const resizableAccessor = useCallback((e: CalendarEvent) => e.isTimeblock || !!e.proposalKey, []);
 
   // ── Theme ─────────────────────────────────────────────────────────────────
 
@@ -519,6 +735,22 @@ export default function CalendarPage(): JSX.Element {
     });
   };
 
+  // ── Calendar import ───────────────────────────────────────────────────────
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const calendar = await importCalendar(file.name, await file.text());
+      setShowExternal(true);
+      toast.success(`Imported ${calendar.events.length} events from ${calendar.name}.`);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof IcsImportError ? err.message : "Could not read that calendar.");
+    }
+  };
+
   // ── Filter panel ──────────────────────────────────────────────────────────
 
   const FilterPanelContent = () => (
@@ -597,9 +829,85 @@ export default function CalendarPage(): JSX.Element {
               Drag empty area to plan time
             </p>
           )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full justify-start gap-2 mt-3"
+            onClick={() => setIsPlanWeekOpen(true)}
+          >
+            <FaWandMagicSparkles />
+            Plan my week
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full justify-start gap-2 mt-2"
+            onClick={() => setIsTemplatesOpen(true)}
+          >
+            <FaRegCopy />
+            Templates &amp; copy week
+          </Button>
+          <div className="mt-3">
+            <ReminderSettings />
+          </div>
         </div>
       )}
 
+      {/* Imported calendars */}
+      <div className="border-t pt-3">
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-2">
+          Imported
+        </p>
+        {currentView !== "month" && calendars.length > 0 && (
+          <button
+            onClick={() => setShowExternal((v) => !v)}
+            className="flex items-center gap-2 py-1.5 text-sm cursor-pointer rounded-md px-1 hover:bg-accent/50 transition-colors w-full text-left"
+          >
+            <span
+              className={cn(
+                "size-3.5 rounded-sm shrink-0 border border-l-4 transition-all",
+                showExternal ? "border-primary bg-primary/20" : "border-muted-foreground"
+              )}
+            />
+            <span className={cn("text-sm", showExternal ? "text-foreground" : "text-muted-foreground line-through")}>
+              Show imported
+            </span>
+          </button>
+        )}
+        {calendars.map((calendar) => (
+          <div key={calendar.id} className="flex items-center gap-2 py-1 pl-1 text-xs">
+            <span
+              className="size-2.5 rounded-full shrink-0"
+              style={{ background: stringToHexColor(calendar.name)[0] }}
+            />
+            <span className="truncate flex-1" title={calendar.name}>
+              {calendar.name}
+            </span>
+            <button
+              onClick={() => removeCalendar(calendar.id!)}
+              aria-label={`Remove ${calendar.name}`}
+              className="text-muted-foreground hover:text-destructive transition-colors"
+            >
+              <FaTrash className="size-2.5" />
+            </button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-start gap-2 mt-1 h-7 px-1 text-xs"
+          onClick={() => icsInputRef.current?.click()}
+        >
+          <FaFileImport className="size-3" />
+          Import .ics
+        </Button>
+        {showExternal && calendars.length > 0 && currentView !== "month" && (
+          <p className="text-xs text-muted-foreground/70 mt-2 pl-1 leading-snug">
+            Planned time can&apos;t overlap busy events
+          </p>
+        )}
+      </div>
+
       {/* Period stats */}
       <div className="border-t pt-4">
         <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-3">
@@ -615,6 +923,30 @@ export default function CalendarPage(): JSX.Element {
           <p className="text-xs text-muted-foreground">Avg: {periodStats.avg}</p>
         </div>
       </div>
+
+      {/* Planned vs actual */}
+      {planVariance && (
+        <div className="border-t pt-3">
+          <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-2">
+            Plan vs Actual
+          </p>
+          <PlanVariancePanel variance={planVariance} trend={varianceTrend} savedTags={savedTags} />
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="border-t pt-3 flex flex-col gap-2">
+        <CsvExportMenu filter={{ ...getPeriodRange(currentDate, currentView), hiddenTags }} />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full justify-start gap-2"
+          onClick={() => setIsIcsExportOpen(true)}
+        >
+          <FaRegCalendar />
+          Export calendar (.ics)
+        </Button>
+      </div>
     </div>
   );
 
@@ -711,6 +1043,8 @@ export default function CalendarPage(): JSX.Element {
         </div>
       </div>
 
+      <ProposalBar />
+
       {/* Body */}
       <div className="flex gap-0">
         {!isMobile && (
@@ -739,9 +1073,10 @@ export default function CalendarPage(): JSX.Element {
               date={currentDate}
               onNavigate={setCurrentDate}
               onSelectEvent={handleSelectEvent as (event: object) => void}
-              onEventDrop={handleEventDrop as (args: EventInteractionArgs<object>) => void}
-              onEventResize={handleEventResize as (args: EventInteractionArgs<object>) => void}
+              onEventDrop={moveTimeblock as (args: EventInteractionArgs<object>) => void}
+              onEventResize={moveTimeblock as (args: EventInteractionArgs<object>) => void}
               onSelectSlot={handleSelectSlot}
+              onSelecting={handleSelecting}
               selectable={currentView !== "month"}
               draggableAccessor={draggableAccessor as (event: object) => boolean}
               resizableAccessor={resizableAccessor as (event: object) => boolean}
@@ -752,8 +1087,12 @@ export default function CalendarPage(): JSX.Element {
               timeslots={ZOOM_CONFIG[zoomLevel].timeslots}
               tooltipAccessor={(event) => {
                 const ev = event as CalendarEvent;
-                const prefix = ev.isTimeblock ? "⏱ Planned: " : "";
-                return `${prefix}${ev.tag}\n${format(ev.start, "h:mm a")} – ${format(ev.end, "h:mm a")}`;
+                const label = ev.isExternal
+                  ? `📅 ${ev.tag}: ${ev.title}`
+                  : ev.proposalKey
+                    ? `Proposed: ${ev.title} (${ev.tag})`
+                    : `${ev.isTimeblock ? "⏱ Planned: " : ""}${ev.tag}`;
+                return `${label}\n${format(ev.start, "h:mm a")} – ${format(ev.end, "h:mm a")}`;
               }}
               getNow={() => new Date()}
               min={startOfDay(new Date())}
@@ -830,6 +1169,13 @@ export default function CalendarPage(): JSX.Element {
                 </Button>
               </div>
 
+              {/* Repeat */}
+              <RecurrencePicker
+                value={pendingRecurrence}
+                onChange={setPendingRecurrence}
+                start={pendingSlot.start}
+              />
+
               <button
                 onClick={() => setPendingSlot(null)}
                 className="text-xs text-muted-foreground hover:text-foreground transition-colors w-full text-center py-0.5"
@@ -871,9 +1217,24 @@ export default function CalendarPage(): JSX.Element {
               <p className="text-xs text-muted-foreground mt-0.5 font-mono">
                 {format(editingTb.startTime, "h:mm a")} → {format(editingTb.endTime, "h:mm a")}
               </p>
+              {editingTbSeries?.recurrence && (
+                <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-1">
+                  <FaRepeat className="size-2.5 shrink-0" />
+                  {describeRecurrence(editingTbSeries.recurrence, editingTbSeries.startTime)}
+                </p>
+              )}
             </div>
 
             <div className="p-3 flex flex-col gap-2.5">
+              {/* Start the timer on this block */}
+              {editingTbSeries && (
+                <TimeblockStartControls
+                  timeblock={editingTbSeries}
+                  onModeChange={(mode) => editTimeblock(editingTb.id, { mode })}
+                  onStarted={() => setEditingTb(null)}
+                />
+              )}
+
               {/* Re-assign to different tag */}
               {allTags.length > 0 && (
                 <div className="flex flex-wrap gap-1">
@@ -927,17 +1288,67 @@ export default function CalendarPage(): JSX.Element {
                 </Button>
               </div>
 
+              {/* Repeat rule; changes apply to the whole series */}
+              {editingTbSeries && (
+                <div className="flex flex-col gap-1.5 border-t border-border/60 pt-2.5">
+                  <RecurrencePicker
+                    value={editTbRecurrence}
+                    onChange={setEditTbRecurrence}
+                    start={new Date(editingTbSeries.startTime)}
+                  />
+                  {JSON.stringify(editTbRecurrence) !== JSON.stringify(editingTbSeries.recurrence) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={() => {
+                        editTimeblock(editingTb.id, {
+                          recurrence: editTbRecurrence,
+                          ...(!editTbRecurrence && { exceptions: undefined }),
+                        });
+                        setEditingTb(null);
+                      }}
+                    >
+                      {editingTbSeries.recurrence ? "Update series" : "Repeat"}
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Delete */}
-              <button
-                onClick={() => {
-                  removeTimeblock(editingTb.id);
-                  setEditingTb(null);
-                }}
-                className="flex items-center justify-center gap-1.5 text-xs text-destructive hover:text-destructive/80 transition-colors w-full py-0.5"
-              >
-                <FaTrash className="size-2.5" />
-                Delete block
-              </button>
+              {editingTb.occurrenceStart ? (
+                <div className="flex flex-col gap-1">
+                  {(
+                    [
+                      ["this", "Delete this one"],
+                      ["future", "Delete this and following"],
+                    ] as const
+                  ).map(([scope, label]) => (
+                    <button
+                      key={scope}
+                      onClick={() => {
+                        removeOccurrence(editingTb.id, editingTb.occurrenceStart!, scope);
+                        setEditingTb(null);
+                      }}
+                      className="flex items-center justify-center gap-1.5 text-xs text-destructive hover:text-destructive/80 transition-colors w-full py-0.5"
+                    >
+                      <FaTrash className="size-2.5" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    removeTimeblock(editingTb.id);
+                    setEditingTb(null);
+                  }}
+                  className="flex items-center justify-center gap-1.5 text-xs text-destructive hover:text-destructive/80 transition-colors w-full py-0.5"
+                >
+                  <FaTrash className="size-2.5" />
+                  Delete block
+                </button>
+              )}
 
               <button
                 onClick={() => setEditingTb(null)}
@@ -957,6 +1368,62 @@ export default function CalendarPage(): JSX.Element {
         onOpenChange={setIsEditDialogOpen}
       />
 
+      <input
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={handleImportIcs}
+        ref={icsInputRef}
+        className="hidden"
+      />
+
+      {/* Scope of a change to a repeating timeblock */}
+      <Dialog open={!!pendingChange} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Change repeating block</DialogTitle>
+            <DialogDescription>
+              {pendingChange &&
+                `${format(pendingChange.startTime, "EEE d MMM, h:mm a")} → ${format(pendingChange.endTime, "h:mm a")}`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button variant="ghost" onClick={() => setPendingChange(null)}>
+              Cancel
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => applyPendingChange("this")}>
+                This event
+              </Button>
+              <Button onClick={() => applyPendingChange("future")}>This and following</Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <IcsExportDialog
+        open={isIcsExportOpen}
+        onOpenChange={setIsIcsExportOpen}
+        range={getPeriodRange(currentDate, currentView)}
+        hiddenTags={hiddenTags}
+      />
+
+      <PlanTemplatesDialog
+        open={isTemplatesOpen}
+        onOpenChange={setIsTemplatesOpen}
+        date={currentDate}
+        range={getPeriodRange(currentDate, currentView)}
+      />
+
+      <PlanWeekDialog
+        open={isPlanWeekOpen}
+        onOpenChange={setIsPlanWeekOpen}
+        date={currentDate}
+        onPreview={() => {
+          setShowTimeblocks(true);
+          if (currentView === "month") setCurrentView("week");
+        }}
+      />
+
       <Toaster theme={(theme ?? "system") as "system" | "light" | "dark"} />
 
       {/* ── CSS overrides ─────────────────────────────────────────────────── */}
@@ -37,7 +37,7 @@ import {
 import dayjs from "dayjs";
 import isoWeek from "dayjs/plugin/isoWeek";
 import { FocusSession, useFocus } from "@/hooks/useFocus";
-import { formatTime, getTagColor } from "@/lib/utils";
+import { formatTime, getFocusedSeconds, getTagColor } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { FaChartBar } from "react-icons/fa6";
 import {
@@ -152,7 +152,8 @@ const processData = (
   });
 
   // Process each focus session
-  data.forEach(({ tag, startTime, endTime }) => {
+  data.forEach((session) => {
+    const { tag, startTime } = session;
     const date =
       unit === "week"
         ? dayjs(startTime).format("YYYY-[W]WW")
@@ -164,10 +165,8 @@ const processData = (
 
     if (!groupedData[date]) return;
 
-    // Calculate duration in minutes with precision
-    const duration =
-      Math.round(((endTime.getTime() - startTime.getTime()) / 60000) * 100) /
-      100;
+    // Calculate focused duration (pauses excluded) in minutes with precision
+    const duration = Math.round((getFocusedSeconds(session) / 60) * 100) / 100;
 
     // Add duration to tag-specific and total counters
     groupedData[date][tag] =
@@ -18,29 +18,37 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
-import { usePomo } from "@/hooks/PomoContext";
-import { FocusSession, useFocus } from "@/hooks/useFocus";
+import { getPhaseLabel, getTargetDuration, usePomo } from "@/hooks/PomoContext";
+import { FocusSession, INTERRUPTION_REASONS, useFocus } from "@/hooks/useFocus";
 import { useTag } from "@/hooks/useTag";
+import { useProjects } from "@/hooks/useProjects";
 import {
-  calculateTime,
   cn,
   durationFromSeconds,
   formatTime,
   formatTimeNew,
+  getFocusedSeconds,
+  getPausedSeconds,
+  getWallClockSeconds,
 } from "@/lib/utils";
 import { useTheme } from "next-themes";
-import { FaPause, FaPlay, FaTrash, FaYoutube } from "react-icons/fa";
+import { FaPause, FaPlay, FaStar, FaTrash, FaYoutube } from "react-icons/fa";
 import {
   FaChevronDown,
   FaEllipsis,
   FaForwardFast,
+  FaForwardStep,
   FaGear,
+  FaMugHot,
+  FaWater,
+  FaXmark,
 } from "react-icons/fa6";
 import { IoIosTimer } from "react-icons/io";
 import { GiTomato } from "react-icons/gi";
 import { TbPictureInPicture } from "react-icons/tb";
 import { Toaster } from "@/components/ui/sonner";
 import TagBadge from "@/components/TagBadge";
+import FocusGoals from "@/components/FocusGoals";
 import { EditFocusSession } from "./EditFocusSection";
 import GraphDialog from "./Graph";
 import PomodoroSettings from "@/components/PomodoroSettings";
@@ -54,31 +62,26 @@ import dayjs from "dayjs";
 // ── helpers ───────────────────────────────────────────────────────────────────
 
 function calcDisplayTime(state: ReturnType<typeof usePomo>["state"]) {
-  const { mode, phase, elapsedSeconds, pomodoroSettings } = state;
+  const { elapsedSeconds } = state;
+  const target = getTargetDuration(state);
   const raw =
-    mode === "pomodoro" && phase === "focus"
-      ? Math.max(0, pomodoroSettings.focusDuration * 60 - elapsedSeconds)
-      : mode === "pomodoro" && phase === "break"
-      ? Math.max(0, pomodoroSettings.breakDuration * 60 - elapsedSeconds)
+    target !== null
+      ? Math.max(0, target - elapsedSeconds)
       : elapsedSeconds;
   return { minutes: Math.floor(raw / 60), seconds: raw % 60 };
 }
 
 function calcProgress(state: ReturnType<typeof usePomo>["state"]): number {
-  const { mode, phase, elapsedSeconds, pomodoroSettings } = state;
-  if (mode !== "pomodoro") return 0;
-  const total =
-    phase === "focus"
-      ? pomodoroSettings.focusDuration * 60
-      : pomodoroSettings.breakDuration * 60;
-  return Math.min(100, (elapsedSeconds / total) * 100);
+  const total = getTargetDuration(state);
+  if (!total) return 0;
+  return Math.min(100, (state.elapsedSeconds / total) * 100);
 }
 
 // ── Focus Page ─────────────────────────────────────────────────────────────────
 
 export default function Focus(): JSX.Element {
   const { theme } = useTheme();
-  const { state, start, pause, reset, setMode } = usePomo();
+  const { state, start, pause, reset, setMode, setPauseReason, nextPhase, takeBreak } = usePomo();
   const { focusSessions, loadFocusSessions } = useFocus();
   const isMobile = useIsMobile();
 
@@ -106,7 +109,9 @@ export default function Focus(): JSX.Element {
     running: state.isRunning,
     mode: state.mode,
     phase: state.phase,
+    cycle: state.cycle,
     pomodoroSettings: state.pomodoroSettings,
+    earnedBreakSeconds: state.earnedBreakSeconds,
     inc: { pause: 0, resume: 0 },
   });
 
@@ -116,7 +121,9 @@ export default function Focus(): JSX.Element {
       running: state.isRunning,
       mode: state.mode,
       phase: state.phase,
+      cycle: state.cycle,
       pomodoroSettings: state.pomodoroSettings,
+      earnedBreakSeconds: state.earnedBreakSeconds,
     });
   }, [state, update]);
 
@@ -135,10 +142,20 @@ export default function Focus(): JSX.Element {
   const { minutes, seconds } = calcDisplayTime(state);
   const progress = calcProgress(state);
 
+  // The pause the timer is currently sitting in, if any
+  const lastPause = state.pauses[state.pauses.length - 1];
+  const openPause = !state.isRunning && lastPause?.end === null ? lastPause : null;
+
+  const isFlowBreak = state.mode === "flowtime" && state.phase !== "focus";
+
   const modeStrip =
     state.mode === "standard"
       ? "Standard Mode"
-      : `Pomodoro · ${state.phase === "focus" ? "Focus" : "Break"} Phase`;
+      : state.mode === "flowtime"
+      ? isFlowBreak
+        ? "Flowtime · Earned Break"
+        : `Flowtime · Break earned: 1/${state.flowtimeSettings.breakDivisor} of focus`
+      : `Pomodoro · ${getPhaseLabel(state.phase)} Phase · Round ${state.cycle} of ${state.pomodoroSettings.cyclesBeforeLongBreak}`;
 
   return (
     <div className="flex-1 flex flex-col">
@@ -152,7 +169,7 @@ export default function Focus(): JSX.Element {
               onClick={() =>
                 show({}, {
                   width: state.mode === "pomodoro" ? 280 : 220,
-                  height: state.mode === "pomodoro" ? 170 : 130,
+                  height: state.mode === "pomodoro" ? 170 : isFlowBreak ? 150 : 130,
                 })
               }
               title="Picture in Picture"
@@ -176,8 +193,8 @@ export default function Focus(): JSX.Element {
             {formatTime(minutes, seconds)}
           </span>
 
-          {/* Progress bar — Pomodoro only */}
-          {state.mode === "pomodoro" && (
+          {/* Progress bar — timed phases only */}
+          {getTargetDuration(state) !== null && (
             <div className="w-full max-w-md mx-auto mt-6 h-1.5 bg-muted rounded-full overflow-hidden">
               <div
                 className="h-full bg-primary rounded-full transition-all duration-1000"
@@ -202,9 +219,37 @@ export default function Focus(): JSX.Element {
               ) : (
                 <FaPlay className="size-3.5" />
               )}
-              {state.isRunning ? "Pause" : "Start"}
+              {state.isRunning ? "Pause" : isFlowBreak ? "Start Break" : "Start"}
             </Button>
 
+            {/* Flowtime — end the flow and take the earned break */}
+            {state.mode === "flowtime" && state.phase === "focus" && state.elapsedSeconds > 0 && (
+              <Button
+                variant="outline"
+                size="default"
+                onClick={takeBreak}
+                className={cn("gap-2", isMobile && "w-9 px-0")}
+                title="Stop and take a break"
+              >
+                <FaMugHot className="size-3.5" />
+                {!isMobile && "Take Break"}
+              </Button>
+            )}
+
+            {/* Flowtime — skip the earned break */}
+            {isFlowBreak && (
+              <Button
+                variant="outline"
+                size="default"
+                onClick={nextPhase}
+                className={cn("gap-2", isMobile && "w-9 px-0")}
+                title="Skip break"
+              >
+                <FaForwardStep className="size-3.5" />
+                {!isMobile && "Skip"}
+              </Button>
+            )}
+
             {/* Reset — only when there's elapsed time */}
             {(state.startTime !== null || state.elapsedSeconds > 0) && (
               <Button
@@ -219,18 +264,42 @@ export default function Focus(): JSX.Element {
               </Button>
             )}
 
-            {/* Pomodoro settings */}
-            {state.mode === "pomodoro" && (
+            {/* Pomodoro / Flowtime settings */}
+            {state.mode !== "standard" && (
               <Button
                 variant="ghost"
                 size="icon"
                 onClick={() => setShowSettings(true)}
-                title="Pomodoro settings"
+                title="Timer settings"
               >
                 <FaGear className="size-3.5" />
               </Button>
             )}
           </div>
+
+          {/* Project issue the timer is working on */}
+          <FocusLinkChip />
+
+          {/* Interruption reason — only while paused mid-session */}
+          {openPause && (
+            <div className="flex items-center justify-center gap-1.5 mt-4 flex-wrap">
+              <span className="text-xs text-muted-foreground mr-1">Paused for</span>
+              {INTERRUPTION_REASONS.map((reason) => (
+                <button
+                  key={reason}
+                  onClick={() => setPauseReason(reason)}
+                  className={cn(
+                    "text-xs px-2.5 py-1 rounded-full border capitalize transition-colors",
+                    openPause.reason === reason
+                      ? "bg-accent text-foreground border-border"
+                      : "text-muted-foreground hover:text-foreground hover:bg-accent/50 border-transparent"
+                  )}
+                >
+                  {reason}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -282,6 +351,18 @@ export default function Focus(): JSX.Element {
             <GiTomato className="size-3" />
             Pomodoro
           </button>
+          <button
+            onClick={() => setMode("flowtime")}
+            className={cn(
+              "flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-full transition-colors font-medium",
+              state.mode === "flowtime"
+                ? "bg-background shadow-sm text-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <FaWater className="size-3" />
+            Flowtime
+          </button>
         </div>
       </div>
 
@@ -293,7 +374,8 @@ export default function Focus(): JSX.Element {
       )}
 
       {/* ── Session Log ───────────────────────────────────────────────── */}
-      <div className="flex-1 max-w-screen-xl mx-auto w-full px-6 py-6">
+      <div className="flex-1 max-w-screen-xl mx-auto w-full px-6 py-6 flex flex-col gap-6">
+        <FocusGoals />
         <SessionLog sessions={focusSessions} />
       </div>
 
@@ -301,9 +383,9 @@ export default function Focus(): JSX.Element {
       <Dialog open={showSettings} onOpenChange={setShowSettings}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Pomodoro Settings</DialogTitle>
+            <DialogTitle>{state.mode === "flowtime" ? "Flowtime Settings" : "Pomodoro Settings"}</DialogTitle>
             <DialogDescription>
-              Configure your Pomodoro timer durations and behavior.
+              Configure your timer durations and behavior.
             </DialogDescription>
           </DialogHeader>
           <PomodoroSettings />
@@ -315,6 +397,31 @@ export default function Focus(): JSX.Element {
   );
 }
 
+// ── Focus Link Chip ───────────────────────────────────────────────────────────
+
+function FocusLinkChip(): JSX.Element | null {
+  const { state, setLink } = usePomo();
+  const titles = useProjects((s) => s.getFocusLinkTitles)(state.link);
+
+  if (titles.length === 0) return null;
+
+  return (
+    <div className="flex items-center justify-center mt-4">
+      <span className="flex items-center gap-1.5 text-xs pl-3 pr-1 py-1 rounded-full border text-muted-foreground max-w-full">
+        <span className="shrink-0">Working on</span>
+        <span className="text-foreground font-medium truncate">{titles.join(" › ")}</span>
+        <button
+          onClick={() => setLink({})}
+          className="p-1 rounded-full hover:bg-accent hover:text-foreground transition-colors shrink-0"
+          title="Stop tracking against this item"
+        >
+          <FaXmark className="size-2.5" />
+        </button>
+      </span>
+    </div>
+  );
+}
+
 // ── Tag Selector Pill ─────────────────────────────────────────────────────────
 
 function TagSelectorPill(): JSX.Element {
@@ -433,14 +540,36 @@ interface SessionGroup {
   date: string;
   label: string;
   sessions: FocusSession[];
+  /** Focused time, excluding pauses */
   totalSeconds: number;
+  /** Wall-clock time, including pauses */
+  wallSeconds: number;
 }
 
 function SessionLog({ sessions }: { sessions: FocusSession[] }): JSX.Element {
   const [visibleCount, setVisibleCount] = useState(20);
+  const [query, setQuery] = useState("");
+  const { projects, milestones, issues, loadProjects, getFocusLinkTitles } = useProjects();
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  // Search across tag, note and linked project / milestone / issue titles
+  const matchingSessions = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return sessions;
+    return sessions.filter((s) =>
+      [s.tag, s.note ?? "", ...getFocusLinkTitles(s)].some((text) =>
+        text.toLowerCase().includes(q)
+      )
+    );
+    // Link titles change with the project data
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessions, query, projects, milestones, issues, getFocusLinkTitles]);
 
   const groups = useMemo<SessionGroup[]>(() => {
-    const sorted = [...sessions].sort(
+    const sorted = [...matchingSessions].sort(
       (a, b) =>
         new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
     );
@@ -458,19 +587,16 @@ function SessionLog({ sessions }: { sessions: FocusSession[] }): JSX.Element {
             : key === yesterday
             ? "Yesterday"
             : dayjs(s.startTime).format("MMMM D, YYYY");
-        map.set(key, { date: key, label, sessions: [], totalSeconds: 0 });
+        map.set(key, { date: key, label, sessions: [], totalSeconds: 0, wallSeconds: 0 });
       }
       const g = map.get(key)!;
       g.sessions.push(s);
-      g.totalSeconds += Math.max(
-        0,
-        (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) /
-          1000
-      );
+      g.totalSeconds += getFocusedSeconds(s);
+      g.wallSeconds += getWallClockSeconds(s);
     }
 
     return Array.from(map.values());
-  }, [sessions]);
+  }, [matchingSessions]);
 
   // Flatten all sessions to apply the visible cap
   const allSessions = useMemo(
@@ -499,7 +625,17 @@ function SessionLog({ sessions }: { sessions: FocusSession[] }): JSX.Element {
         <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
           Session Log
         </p>
-        <GraphDialog />
+        <div className="flex items-center gap-2">
+          {sessions.length > 0 && (
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search tags, notes, projects…"
+              className="h-8 w-56 text-xs"
+            />
+          )}
+          <GraphDialog />
+        </div>
       </div>
 
       {sessions.length === 0 ? (
@@ -508,6 +644,12 @@ function SessionLog({ sessions }: { sessions: FocusSession[] }): JSX.Element {
             No sessions yet. Start the timer to begin tracking.
           </p>
         </div>
+      ) : matchingSessions.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-sm text-muted-foreground">
+            No sessions match &ldquo;{query.trim()}&rdquo;.
+          </p>
+        </div>
       ) : (
         <>
           {visibleGroups.map((group) => (
@@ -534,6 +676,7 @@ function SessionDateGroup({ group }: { group: SessionGroup }): JSX.Element {
     "H:M:S",
     "text"
   );
+  const hasPauses = group.wallSeconds - group.totalSeconds >= 1;
 
   return (
     <div className="mb-6">
@@ -541,7 +684,9 @@ function SessionDateGroup({ group }: { group: SessionGroup }): JSX.Element {
       <div className="flex items-center justify-between py-2 border-b">
         <span className="text-sm font-semibold">{group.label}</span>
         <span className="text-xs text-muted-foreground font-mono">
-          {totalFormatted} total
+          {totalFormatted} {hasPauses ? "focused" : "total"}
+          {hasPauses &&
+            ` · ${formatTimeNew(durationFromSeconds(group.wallSeconds), "H:M:S", "text")} elapsed`}
         </span>
       </div>
 
@@ -555,12 +700,20 @@ function SessionDateGroup({ group }: { group: SessionGroup }): JSX.Element {
 
 function SessionRow({ session }: { session: FocusSession }): JSX.Element {
   const { removeFocusSession } = useFocus();
+  const linkTitles = useProjects((s) => s.getFocusLinkTitles)(session);
   const [dropdownOpen, setDropdownOpen] = useState(false);
 
-  const duration = calculateTime(session.startTime, session.endTime);
+  const duration = durationFromSeconds(getFocusedSeconds(session));
   const durationText = formatTimeNew(duration, "H:M:S", "text");
   const startTimeStr = dayjs(session.startTime).format("HH:mm");
 
+  // Pause summary, e.g. "2 pauses · 6m · call, meeting"
+  const pauses = session.pauses ?? [];
+  const pausedSeconds = getPausedSeconds(session);
+  const pauseReasons = Array.from(
+    new Set(pauses.map((p) => p.reason).filter(Boolean))
+  ).join(", ");
+
   return (
     <div className="grid grid-cols-[3rem_1fr_auto_auto] items-center gap-3 py-2 border-b border-dashed last:border-0 hover:bg-accent/40 transition-colors px-1 rounded-sm">
       {/* Start time */}
@@ -568,9 +721,40 @@ function SessionRow({ session }: { session: FocusSession }): JSX.Element {
         {startTimeStr}
       </span>
 
-      {/* Tag chip */}
+      {/* Tag chip + link, rating, pause summary and note */}
       <div className="min-w-0">
-        <TagBadge tag={session.tag} />
+        <div className="flex items-center gap-2">
+          <TagBadge tag={session.tag} />
+          {linkTitles.length > 0 && (
+            <span className="text-xs text-muted-foreground truncate" title={linkTitles.join(" › ")}>
+              {linkTitles.join(" › ")}
+            </span>
+          )}
+          {session.rating !== undefined && (
+            <span
+              className="flex items-center gap-0.5 text-xs text-amber-500 shrink-0"
+              title={`Focus quality: ${session.rating}/5`}
+            >
+              <FaStar className="size-2.5" />
+              {session.rating}
+            </span>
+          )}
+          {pauses.length > 0 && (
+            <span
+              className="text-xs text-muted-foreground truncate"
+              title={`${formatTimeNew(durationFromSeconds(getWallClockSeconds(session)), "H:M:S", "text")} elapsed`}
+            >
+              {pauses.length} {pauses.length === 1 ? "pause" : "pauses"} ·{" "}
+              {formatTimeNew(durationFromSeconds(pausedSeconds), "H:M:S", "text")}
+              {pauseReasons && ` · ${pauseReasons}`}
+            </span>
+          )}
+        </div>
+        {session.note && (
+          <p className="text-xs text-muted-foreground truncate mt-0.5" title={session.note}>
+            {session.note}
+          </p>
+        )}
       </div>
 
       {/* Duration */}
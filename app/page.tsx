@@ -39,6 +39,7 @@ import { type JSX, useState, useEffect, useMemo } from "react";
 import { Issue, Milestone, Project, useProjects } from "@/hooks/useProjects";
 import { useRouter } from "next/navigation";
 import FocusHeatmap from "@/components/FocusHeatmap";
+import FocusGoals from "@/components/FocusGoals";
 import {
   BarChart,
   Bar,
@@ -162,21 +163,24 @@ function StatsRow(): JSX.Element {
   );
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-      {stats.map((card) => (
-        <div key={card.label} className="border rounded-xl p-5">
-          <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-3">
-            {card.label}
-          </p>
-          {loadingFocusSessions ? (
-            <Skeleton className="h-10 w-28" />
-          ) : (
-            <p className="text-4xl font-semibold font-mono tracking-tight">
-              {card.value}
+    <div className="flex flex-col gap-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {stats.map((card) => (
+          <div key={card.label} className="border rounded-xl p-5">
+            <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-3">
+              {card.label}
             </p>
-          )}
-        </div>
-      ))}
+            {loadingFocusSessions ? (
+              <Skeleton className="h-10 w-28" />
+            ) : (
+              <p className="text-4xl font-semibold font-mono tracking-tight">
+                {card.value}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+      <FocusGoals />
     </div>
   );
 }
@@ -335,7 +339,7 @@ function IssueRow({
   const [showDescription, setShowDescription] = useState(false);
 
   const handleToggle = async () => {
-    const newStatus = issue.status === "Open" ? "Close" : "Open";
+    const newStatus = issue.status === "Done" ? "Backlog" : "Done";
     try {
       await updateIssue(issue.id!, { status: newStatus });
     } catch {
@@ -347,7 +351,7 @@ function IssueRow({
     <div
       className={cn(
         "border-b border-dashed last:border-0",
-        issue.status === "Close" && "opacity-50"
+        issue.status === "Done" && "opacity-50"
       )}
     >
       <div className="flex items-center gap-2 py-1.5">
@@ -356,7 +360,7 @@ function IssueRow({
           className="shrink-0 text-muted-foreground hover:text-foreground transition-colors"
           title="Toggle status"
         >
-          {issue.status === "Open" ? (
+          {issue.status !== "Done" ? (
             <FaRegCircle className="size-3.5" />
           ) : (
             <FaRegCircleCheck className="size-3.5" />
@@ -365,7 +369,7 @@ function IssueRow({
         <span
           className={cn(
             "text-sm flex-1 min-w-0 truncate",
-            issue.status === "Close" && "line-through"
+            issue.status === "Done" && "line-through"
           )}
         >
           {issue.title}
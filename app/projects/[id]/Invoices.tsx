@@ -0,0 +1,470 @@
+"use client";
+
+import { useEffect, useMemo, useState, type JSX } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { FaPlus, FaTrash, FaFileInvoiceDollar } from "react-icons/fa";
+import { FaEllipsis, FaPrint, FaFileCode, FaCheck } from "react-icons/fa6";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+import { useProjects, type ProjectWithStats } from "@/hooks/useProjects";
+import { useInvoices, type Invoice, type InvoiceLine } from "@/hooks/useInvoices";
+import { useFocus } from "@/hooks/useFocus";
+import { useConfig } from "@/hooks/useConfig";
+import {
+  downloadInvoiceJSON,
+  formatInvoiceNumber,
+  formatMoney,
+  openInvoicePrintView,
+  type InvoiceContext,
+} from "@/lib/invoice";
+import { cn, formatDate, getFocusedSeconds } from "@/lib/utils";
+
+/** Days until an invoice is due, used to prefill the due date */
+const DEFAULT_PAYMENT_TERMS_DAYS = 14;
+
+/** Rounds a number to two decimals (cents / hundredths of an hour) */
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// Create Invoice Dialog
+// ---------------------------------------------------------------------------
+
+/** A billable line the user can tick on or off, keyed for selection */
+type CandidateLine = InvoiceLine & { key: string };
+
+function CreateInvoiceDialog({ project }: { project: ProjectWithStats }): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [basis, setBasis] = useState<Invoice["basis"]>("milestones");
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [rate, setRate] = useState("");
+  const [periodStart, setPeriodStart] = useState("");
+  const [billTo, setBillTo] = useState("");
+  const [issuedAt, setIssuedAt] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { updateProject } = useProjects();
+  const { invoices, createInvoice } = useInvoices();
+  const { focusSessions } = useFocus();
+  const { currency } = useConfig();
+
+  const hourlyRate = parseFloat(rate) || 0;
+  // Milestones neither paid nor on an outstanding invoice, billed at their budget
+  const milestoneLines = useMemo<CandidateLine[]>(() => {
+    const invoiced = new Set(
+      invoices
+        .filter((i) => i.projectId === project.id && i.status === "Unpaid")
+        .flatMap((i) => i.lines.map((line) => line.milestoneId))
+    );
+    return project.milestones
+      .filter((m) => m.status !== "Paid" && m.budget > 0 && !invoiced.has(m.id))
+      .map((m) => ({
+        key: `milestone:${m.id}`,
+        description: m.title,
+        quantity: 1,
+        unitPrice: m.budget,
+        amount: m.budget,
+        milestoneId: m.id,
+      }));
+  }, [invoices, project.id, project.milestones]);
+
+  // Focus time tracked in the period, one line per milestone plus general project work
+  const hourLines = useMemo<CandidateLine[]>(() => {
+    if (!periodStart || !issuedAt) return [];
+    const from = dayjs(periodStart).startOf("day");
+    const to = dayjs(issuedAt).endOf("day");
+
+    const secondsByMilestone = new Map<number | undefined, number>();
+    for (const session of focusSessions) {
+      if (session.projectId !== project.id) continue;
+      const start = dayjs(session.startTime);
+      if (start.isBefore(from) || start.isAfter(to)) continue;
+      secondsByMilestone.set(
+        session.milestoneId,
+        (secondsByMilestone.get(session.milestoneId) ?? 0) + getFocusedSeconds(session)
+      );
+    }
+
+    return [...secondsByMilestone.entries()]
+      .map(([milestoneId, seconds]) => {
+        const hours = round2(seconds / 3600);
+        const milestone = project.milestones.find((m) => m.id === milestoneId);
+        return {
+          key: `hours:${milestoneId ?? "project"}`,
+          description: milestone ? `${milestone.title} — tracked time` : "Project work — tracked time",
+          quantity: hours,
+          unitPrice: hourlyRate,
+          amount: round2(hours * hourlyRate),
+        };
+      })
+      .filter((line) => line.quantity > 0);
+  }, [focusSessions, project.id, project.milestones, periodStart, issuedAt, hourlyRate]);
+
+  const candidates = basis === "milestones" ? milestoneLines : hourLines;
+  const lines = candidates.filter((line) => !excluded.has(line.key));
+  const total = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    // Bill tracked time from where the last hours invoice left off
+    const lastHours = invoices.find((i) => i.projectId === project.id && i.basis === "hours");
+    const today = dayjs();
+    setBasis("milestones");
+    setExcluded(new Set());
+    setRate(project.hourlyRate ? String(project.hourlyRate) : "");
+    setPeriodStart(
+      (lastHours ? dayjs(lastHours.issuedAt).add(1, "day") : dayjs(project.createdAt)).format("YYYY-MM-DD")
+    );
+    setBillTo(lastHours?.billTo ?? invoices.find((i) => i.projectId === project.id)?.billTo ?? "");
+    setIssuedAt(today.format("YYYY-MM-DD"));
+    setDueDate(today.add(DEFAULT_PAYMENT_TERMS_DAYS, "day").format("YYYY-MM-DD"));
+    setNotes("");
+  };
+
+  const toggleLine = (key: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (lines.length === 0) {
+      toast.error("Select at least one line to invoice");
+      return;
+    }
+    if (basis === "hours" && hourlyRate <= 0) {
+      toast.error("Enter an hourly rate");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      if (basis === "hours" && hourlyRate !== project.hourlyRate) {
+        await updateProject(project.id!, { hourlyRate });
+      }
+      const invoice = await createInvoice({
+        projectId: project.id!,
+        basis,
+        currency,
+        billTo: billTo.trim(),
+        lines: lines.map((line) => ({
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          amount: line.amount,
+          milestoneId: line.milestoneId,
+        })),
+        notes: notes.trim() || undefined,
+        issuedAt: dayjs(issuedAt).toDate(),
+        dueDate: dueDate ? dayjs(dueDate).toDate() : undefined,
+        periodStart: basis === "hours" ? dayjs(periodStart).toDate() : undefined,
+      });
+      toast.success(`Invoice ${formatInvoiceNumber(invoice.number)} created!`);
+      setOpen(false);
+    } catch {
+      toast.error("Failed to create invoice");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2 w-full border-dashed">
+          <FaPlus className="h-3 w-3" />
+          New Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Invoice</DialogTitle>
+          <DialogDescription>
+            Bill finished milestones, or tracked hours at an hourly rate.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="flex items-center gap-1 bg-muted rounded-full p-1 w-fit">
+            {(["milestones", "hours"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setBasis(option)}
+                className={cn(
+                  "text-xs px-3 py-1.5 rounded-full transition-colors font-medium",
+                  basis === option
+                    ? "bg-background shadow-sm text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option === "milestones" ? "Milestones" : "Tracked hours"}
+              </button>
+            ))}
+          </div>
+
+          {basis === "hours" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoice-rate">Hourly rate *</Label>
+                <Input
+                  id="invoice-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-period">Time tracked since</Label>
+                <Input
+                  id="invoice-period"
+                  type="date"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Lines</Label>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground py-2">
+                {basis === "milestones"
+                  ? "No unpaid milestones with a budget that are not already invoiced."
+                  : "No focus time tracked against this project in that period."}
+              </p>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {candidates.map((line) => (
+                  <label
+                    key={line.key}
+                    className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-accent/30"
+                  >
+                    <Checkbox
+                      checked={!excluded.has(line.key)}
+                      onCheckedChange={() => toggleLine(line.key)}
+                    />
+                    <span className="flex-1 min-w-0 truncate">{line.description}</span>
+                    {basis === "hours" && (
+                      <span className="text-xs text-muted-foreground font-mono">{line.quantity}h</span>
+                    )}
+                    <span className="font-mono text-xs">{formatMoney(line.amount, currency)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end text-sm font-semibold font-mono">
+              Total {formatMoney(total, currency)}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice-bill-to">Bill to</Label>
+            <Input
+              id="invoice-bill-to"
+              value={billTo}
+              onChange={(e) => setBillTo(e.target.value)}
+              placeholder="Client name..."
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-issued">Issue date</Label>
+              <Input
+                id="invoice-issued"
+                type="date"
+                value={issuedAt}
+                onChange={(e) => setIssuedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-due">Due date</Label>
+              <Input
+                id="invoice-due"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-notes">Notes</Label>
+            <Textarea
+              id="invoice-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Payment details, thank-you note..."
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !issuedAt}>
+            {isSubmitting ? "Creating..." : "Create Invoice"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Invoice Row
+// ---------------------------------------------------------------------------
+
+function InvoiceRow({ invoice, context }: { invoice: Invoice; context: InvoiceContext }): JSX.Element {
+  const { markInvoicePaid, deleteInvoice } = useInvoices();
+
+  const handleMarkPaid = async () => {
+    try {
+      await markInvoicePaid(invoice.id!);
+      toast.success(`Invoice ${formatInvoiceNumber(invoice.number)} marked paid`);
+    } catch {
+      toast.error("Failed to update invoice");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this invoice?")) return;
+    try {
+      await deleteInvoice(invoice.id!);
+      toast.success("Invoice deleted");
+    } catch {
+      toast.error("Failed to delete invoice");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 py-3 px-4 border-b last:border-b-0 group">
+      <span className="text-sm font-mono font-semibold flex-shrink-0">
+        {formatInvoiceNumber(invoice.number)}
+      </span>
+      <span className="text-xs text-muted-foreground flex-1 min-w-0 truncate">
+        {invoice.billTo || (invoice.basis === "hours" ? "Tracked hours" : "Milestones")}
+      </span>
+      <span className="text-xs font-mono text-muted-foreground flex-shrink-0 hidden sm:inline">
+        {formatDate(invoice.issuedAt)}
+      </span>
+      <span className="text-sm font-mono flex-shrink-0">
+        {formatMoney(invoice.total, invoice.currency)}
+      </span>
+      <span
+        className={cn(
+          "text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0",
+          invoice.status === "Paid"
+            ? "text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/30"
+            : "text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30"
+        )}
+      >
+        {invoice.status}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Invoice actions"
+          >
+            <FaEllipsis className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => openInvoicePrintView(invoice, context)}>
+            <FaPrint className="mr-2 h-3 w-3" />
+            View / Print
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => downloadInvoiceJSON(invoice, context)}>
+            <FaFileCode className="mr-2 h-3 w-3" />
+            Download JSON
+          </DropdownMenuItem>
+          {invoice.status !== "Paid" && (
+            <DropdownMenuItem onClick={handleMarkPaid}>
+              <FaCheck className="mr-2 h-3 w-3" />
+              Mark as paid
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={handleDelete}
+            className="text-destructive focus:text-destructive"
+          >
+            <FaTrash className="mr-2 h-3 w-3" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Invoices Section
+// ---------------------------------------------------------------------------
+
+export default function ProjectInvoices({ project }: { project: ProjectWithStats }): JSX.Element {
+  const { loadInvoices, getInvoicesForProject } = useInvoices();
+  const { name } = useConfig();
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const invoices = getInvoicesForProject(project.id!);
+  const context: InvoiceContext = { projectTitle: project.title, issuer: name };
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-4">
+        Invoices
+      </h2>
+
+      {invoices.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <FaFileInvoiceDollar className="h-8 w-8 text-muted-foreground/30 mb-3" />
+          <p className="text-xs text-muted-foreground">No invoices yet</p>
+        </div>
+      ) : (
+        <div className="border rounded-xl overflow-hidden">
+          {invoices.map((invoice) => (
+            <InvoiceRow key={invoice.id} invoice={invoice} context={context} />
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <CreateInvoiceDialog project={project} />
+      </div>
+    </div>
+  );
+}
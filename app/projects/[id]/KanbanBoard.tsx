@@ -0,0 +1,310 @@
+"use client";
+
+import { useEffect, useState, type DragEvent, type JSX, type ReactNode } from "react";
+import { toast } from "sonner";
+import { FaColumns } from "react-icons/fa";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useProjects,
+  ISSUE_LABELS,
+  ISSUE_STATUSES,
+  type Issue,
+  type IssueStatus,
+  type ProjectWithStats,
+} from "@/hooks/useProjects";
+import { cn, formatDate } from "@/lib/utils";
+
+/** localStorage key for the columns shown on the board */
+const COLUMNS_STORAGE_KEY = "kanbanColumns";
+
+/** Select value for "no filter" */
+const ALL = "all";
+
+/** Accent colour per column */
+const columnAccent: Record<IssueStatus, string> = {
+  Backlog: "bg-muted-foreground/40",
+  "In Progress": "bg-amber-500",
+  Review: "bg-blue-500",
+  Done: "bg-emerald-500",
+};
+
+/** Board order: earliest due first, undated issues last by creation */
+function compareIssues(a: Issue, b: Issue): number {
+  if (a.dueDate && b.dueDate) return a.dueDate.getTime() - b.dueDate.getTime();
+  if (a.dueDate) return -1;
+  if (b.dueDate) return 1;
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+// ---------------------------------------------------------------------------
+// Issue Card
+// ---------------------------------------------------------------------------
+
+function IssueCard({
+  issue,
+  milestoneTitle,
+  actions,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+}: {
+  issue: Issue;
+  milestoneTitle?: string;
+  actions?: ReactNode;
+  isDragging: boolean;
+  onDragStart: (e: DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+}): JSX.Element {
+  const isOverdue =
+    issue.dueDate && issue.status !== "Done" && issue.dueDate.getTime() < Date.now();
+
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "group rounded-lg border bg-background p-3 space-y-2 cursor-grab active:cursor-grabbing shadow-xs",
+        isDragging && "opacity-40",
+        issue.status === "Done" && "opacity-60"
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <span
+          className={cn(
+            "text-sm flex-1 min-w-0 break-words",
+            issue.status === "Done" && "line-through text-muted-foreground"
+          )}
+        >
+          {issue.title}
+        </span>
+        {actions && (
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0 -mt-1 -mr-1">
+            {actions}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs px-1.5 py-0.5 rounded-full border text-muted-foreground">
+          {issue.label}
+        </span>
+        {milestoneTitle && (
+          <span className="text-xs text-muted-foreground truncate max-w-32">{milestoneTitle}</span>
+        )}
+        {issue.dueDate && (
+          <span
+            className={cn(
+              "text-xs font-mono ml-auto",
+              isOverdue ? "text-destructive" : "text-muted-foreground"
+            )}
+          >
+            {formatDate(issue.dueDate)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Kanban Board
+// ---------------------------------------------------------------------------
+
+/**
+ * Drag-and-drop issue board for a project. Dropping a card on a column
+ * moves the issue to that status.
+ *
+ * @param project - Project whose issues are shown
+ * @param renderActions - Hover actions rendered on each card
+ */
+export default function KanbanBoard({
+  project,
+  renderActions,
+}: {
+  project: ProjectWithStats;
+  renderActions?: (issue: Issue) => ReactNode;
+}): JSX.Element {
+  const { issues, updateIssue } = useProjects();
+  const [columns, setColumns] = useState<IssueStatus[]>([...ISSUE_STATUSES]);
+  const [labelFilter, setLabelFilter] = useState<string>(ALL);
+  const [milestoneFilter, setMilestoneFilter] = useState<string>(ALL);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [overColumn, setOverColumn] = useState<IssueStatus | null>(null);
+
+  // Restore the chosen columns
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) ?? "null");
+      if (Array.isArray(saved)) {
+        setColumns(ISSUE_STATUSES.filter((s) => saved.includes(s)));
+      }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (e) {
+      console.warn("Failed to parse board columns from localStorage");
+    }
+  }, []);
+
+  const toggleColumn = (status: IssueStatus) => {
+    const next = columns.includes(status)
+      ? columns.filter((s) => s !== status)
+      : ISSUE_STATUSES.filter((s) => s === status || columns.includes(s));
+    setColumns(next);
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const milestoneTitles = new Map(project.milestones.map((m) => [m.id!, m.title]));
+  const visibleIssues = issues
+    .filter(
+      (i) =>
+        milestoneTitles.has(i.milestoneId) &&
+        (labelFilter === ALL || i.label === labelFilter) &&
+        (milestoneFilter === ALL || String(i.milestoneId) === milestoneFilter)
+    )
+    .sort(compareIssues);
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>, status: IssueStatus) => {
+    e.preventDefault();
+    setOverColumn(null);
+    setDraggingId(null);
+
+    const id = Number(e.dataTransfer.getData("text/plain"));
+    const issue = issues.find((i) => i.id === id);
+    if (!issue || issue.status === status) return;
+    try {
+      await updateIssue(id, { status });
+    } catch {
+      toast.error("Failed to move issue");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <Select value={labelFilter} onValueChange={setLabelFilter}>
+          <SelectTrigger size="sm" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All labels</SelectItem>
+            {ISSUE_LABELS.map((l) => (
+              <SelectItem key={l} value={l}>
+                {l}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={milestoneFilter} onValueChange={setMilestoneFilter}>
+          <SelectTrigger size="sm" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All milestones</SelectItem>
+            {project.milestones.map((m) => (
+              <SelectItem key={m.id} value={String(m.id)}>
+                {m.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1.5 ml-auto">
+              <FaColumns className="h-3 w-3" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            {ISSUE_STATUSES.map((status) => (
+              <DropdownMenuCheckboxItem
+                key={status}
+                checked={columns.includes(status)}
+                onCheckedChange={() => toggleColumn(status)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {status}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Columns */}
+      {columns.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-8 text-center">
+          All columns are hidden. Choose some under Columns.
+        </p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {columns.map((status) => {
+            const columnIssues = visibleIssues.filter((i) => i.status === status);
+            return (
+              <div
+                key={status}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setOverColumn(status);
+                }}
+                onDragLeave={() => setOverColumn((current) => (current === status ? null : current))}
+                onDrop={(e) => handleDrop(e, status)}
+                className={cn(
+                  "flex-1 min-w-60 rounded-xl border bg-muted/30 p-2 transition-colors",
+                  overColumn === status && "bg-accent/60 border-primary/40"
+                )}
+              >
+                <div className="flex items-center gap-2 px-1 pb-2">
+                  <span className={cn("size-2 rounded-full", columnAccent[status])} />
+                  <span className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+                    {status}
+                  </span>
+                  <span className="text-xs font-mono text-muted-foreground ml-auto">
+                    {columnIssues.length}
+                  </span>
+                </div>
+                <div className="space-y-2 min-h-16">
+                  {columnIssues.map((issue) => (
+                    <IssueCard
+                      key={issue.id}
+                      issue={issue}
+                      milestoneTitle={
+                        milestoneFilter === ALL ? milestoneTitles.get(issue.milestoneId) : undefined
+                      }
+                      actions={renderActions?.(issue)}
+                      isDragging={draggingId === issue.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData("text/plain", String(issue.id));
+                        e.dataTransfer.effectAllowed = "move";
+                        setDraggingId(issue.id!);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setOverColumn(null);
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
   FaChevronDown,
   FaChevronRight,
   FaCheck,
+  FaPlay,
 } from "react-icons/fa";
 
 import { Button } from "@/components/ui/button";
@@ -61,11 +62,23 @@ import {
   type MilestoneWithProgress,
   type ProjectWithStats,
   ISSUE_LABELS,
+  ISSUE_STATUSES,
   IssueLabel,
 } from "@/hooks/useProjects";
 import { useConfig } from "@/hooks/useConfig";
-import { cn, formatDate, formatNumber, getCurrencySymbol } from "@/lib/utils";
+import { useFocus, type FocusLink } from "@/hooks/useFocus";
+import { usePomo } from "@/hooks/PomoContext";
+import {
+  cn,
+  durationFromSeconds,
+  formatDate,
+  formatNumber,
+  formatTimeNew,
+  getCurrencySymbol,
+} from "@/lib/utils";
 import StatusBadge from "../StatusBadge";
+import ProjectInvoices from "./Invoices";
+import KanbanBoard from "./KanbanBoard";
 import Markdown from "react-markdown";
 import {
   FaLink,
@@ -393,6 +406,7 @@ function CreateIssueDialog({ milestoneId }: { milestoneId: number }): JSX.Elemen
   const [title, setTitle] = useState("");
   const [label, setLabel] = useState<IssueLabel>(ISSUE_LABELS[0]);
   const [dueDate, setDueDate] = useState("");
+  const [estimate, setEstimate] = useState("");
   const [description, setDescription] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { addIssue } = useProjects();
@@ -409,13 +423,15 @@ function CreateIssueDialog({ milestoneId }: { milestoneId: number }): JSX.Elemen
         title.trim(),
         label,
         dueDate ? new Date(dueDate) : undefined,
-        description.trim()
+        description.trim(),
+        hoursToEstimate(estimate)
       );
       toast.success("Issue created!");
       setOpen(false);
       setTitle("");
       setLabel(ISSUE_LABELS[0]);
       setDueDate("");
+      setEstimate("");
       setDescription("");
     } catch {
       toast.error("Failed to create issue");
@@ -477,6 +493,18 @@ function CreateIssueDialog({ milestoneId }: { milestoneId: number }): JSX.Elemen
               />
             </div>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="issue-estimate">Estimate (hours)</Label>
+            <Input
+              id="issue-estimate"
+              type="number"
+              min={0}
+              step={0.25}
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              placeholder="e.g. 2.5"
+            />
+          </div>
           <div className="space-y-2">
             <Label htmlFor="issue-description">Description</Label>
             <Textarea
@@ -508,6 +536,7 @@ function EditIssueDialog({ issue }: { issue: Issue }): JSX.Element {
   const [dueDate, setDueDate] = useState(
     issue.dueDate ? issue.dueDate.toISOString().split("T")[0] : ""
   );
+  const [estimate, setEstimate] = useState(estimateToHours(issue.estimateMinutes));
   const [description, setDescription] = useState(issue.description);
   const [status, setStatus] = useState(issue.status);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -526,6 +555,7 @@ function EditIssueDialog({ issue }: { issue: Issue }): JSX.Element {
         description: description.trim(),
         status,
         dueDate: dueDate ? new Date(dueDate) : undefined,
+        estimateMinutes: hoursToEstimate(estimate),
       };
       await updateIssue(issue.id!, updateData);
       toast.success("Issue updated!");
@@ -543,6 +573,7 @@ function EditIssueDialog({ issue }: { issue: Issue }): JSX.Element {
       setTitle(issue.title);
       setLabel(issue.label as IssueLabel);
       setDueDate(issue.dueDate ? issue.dueDate.toISOString().split("T")[0] : "");
+      setEstimate(estimateToHours(issue.estimateMinutes));
       setDescription(issue.description);
       setStatus(issue.status);
     }
@@ -596,20 +627,37 @@ function EditIssueDialog({ issue }: { issue: Issue }): JSX.Element {
               />
             </div>
           </div>
-          <div className="space-y-2">
-            <Label>Status</Label>
-            <Select
-              value={status}
-              onValueChange={(value) => setStatus(value as Issue["status"])}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Open">Open</SelectItem>
-                <SelectItem value="Close">Close</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as Issue["status"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ISSUE_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-issue-estimate">Estimate (hours)</Label>
+              <Input
+                id="edit-issue-estimate"
+                type="number"
+                min={0}
+                step={0.25}
+                value={estimate}
+                onChange={(e) => setEstimate(e.target.value)}
+                placeholder="e.g. 2.5"
+              />
+            </div>
           </div>
           <div className="space-y-2">
             <Label htmlFor="edit-issue-description">Description</Label>
@@ -833,16 +881,52 @@ function AddQuickLinkDialog({ projectId }: { projectId: number }): JSX.Element {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Tracked time helpers
+// ---------------------------------------------------------------------------
+
+/** Formats tracked focus time to the minute (e.g. "3h 20m") */
+function formatTracked(seconds: number): string {
+  return formatTimeNew(durationFromSeconds(seconds - (seconds % 60)), "H:M:S", "text");
+}
+
+/** Estimate input value in hours (e.g. "1.5") for an estimate in minutes */
+function estimateToHours(minutes?: number): string {
+  return minutes ? String(Math.round((minutes / 60) * 100) / 100) : "";
+}
+
+/** Estimate in minutes from an input in hours; undefined when blank or not positive */
+function hoursToEstimate(hours: string): number | undefined {
+  const minutes = Math.round(parseFloat(hours) * 60);
+  return minutes > 0 ? minutes : undefined;
+}
+
+/**
+ * Starts the timer on a project item, saving any running session first.
+ */
+function useStartTimerOn(): (link: FocusLink, title: string) => void {
+  const { startOnLink } = usePomo();
+  return (link, title) => {
+    startOnLink(link);
+    toast.success(`Timer started on ${title}`);
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Issue Row — inline issue item for milestone accordion
 // ---------------------------------------------------------------------------
 
-function IssueRow({ issue }: { issue: Issue }): JSX.Element {
-  const { updateIssue, deleteIssue } = useProjects();
+function IssueRow({ issue, projectId }: { issue: Issue; projectId: number }): JSX.Element {
+  const { updateIssue, deleteIssue, getTrackedSecondsForIssue } = useProjects();
+  const { state } = usePomo();
+  const startTimerOn = useStartTimerOn();
   const [showDesc, setShowDesc] = useState(false);
 
+  const trackedSeconds = getTrackedSecondsForIssue(issue.id!);
+  const isTracking = state.isRunning && state.link.issueId === issue.id;
+
   const toggleStatus = async () => {
-    const newStatus = issue.status === "Open" ? "Close" : "Open";
+    const newStatus = issue.status === "Done" ? "Backlog" : "Done";
     try {
       await updateIssue(issue.id!, { status: newStatus });
     } catch {
@@ -861,14 +945,14 @@ function IssueRow({ issue }: { issue: Issue }): JSX.Element {
   };
 
   return (
-    <div className={cn("group", issue.status === "Close" && "opacity-50")}>
+    <div className={cn("group", issue.status === "Done" && "opacity-50")}>
       <div className="flex items-center gap-3 py-2 border-b border-dashed last:border-0">
         <button
           onClick={toggleStatus}
           className="flex-shrink-0 text-muted-foreground hover:text-foreground transition-colors"
-          title={issue.status === "Open" ? "Mark done" : "Reopen"}
+          title={issue.status !== "Done" ? "Mark done" : "Reopen"}
         >
-          {issue.status === "Open" ? (
+          {issue.status !== "Done" ? (
             <FaRegCircle className="h-3.5 w-3.5" />
           ) : (
             <FaRegCircleCheck className="h-3.5 w-3.5" />
@@ -878,16 +962,37 @@ function IssueRow({ issue }: { issue: Issue }): JSX.Element {
         <span
           className={cn(
             "text-sm flex-1 min-w-0 truncate",
-            issue.status === "Close" && "line-through text-muted-foreground"
+            issue.status === "Done" && "line-through text-muted-foreground"
           )}
         >
           {issue.title}
         </span>
 
+        {(issue.status === "In Progress" || issue.status === "Review") && (
+          <span className="text-xs font-medium px-1.5 py-0.5 rounded-full flex-shrink-0 text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-950/30">
+            {issue.status}
+          </span>
+        )}
+
         <span className="text-xs px-1.5 py-0.5 rounded-full border text-muted-foreground flex-shrink-0 hidden sm:inline-flex">
           {issue.label}
         </span>
 
+        {isTracking ? (
+          <span className="flex items-center gap-1.5 text-xs text-primary flex-shrink-0">
+            <span className="size-1.5 rounded-full bg-primary animate-pulse" />
+            Tracking
+          </span>
+        ) : (trackedSeconds >= 60 || issue.estimateMinutes) && (
+          <span
+            className="text-xs font-mono text-muted-foreground flex-shrink-0"
+            title={issue.estimateMinutes ? "Focus time tracked / estimate" : "Focus time tracked"}
+          >
+            {trackedSeconds >= 60 ? formatTracked(trackedSeconds) : "0m"}
+            {issue.estimateMinutes && ` / ${formatTracked(issue.estimateMinutes * 60)}`}
+          </span>
+        )}
+
         {issue.dueDate && (
           <span className="text-xs font-mono text-muted-foreground flex-shrink-0 hidden sm:inline">
             {formatDate(issue.dueDate)}
@@ -895,6 +1000,22 @@ function IssueRow({ issue }: { issue: Issue }): JSX.Element {
         )}
 
         <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+          {issue.status !== "Done" && !isTracking && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() =>
+                startTimerOn(
+                  { projectId, milestoneId: issue.milestoneId, issueId: issue.id },
+                  issue.title
+                )
+              }
+              title="Start timer on this issue"
+            >
+              <FaPlay className="h-2.5 w-2.5" />
+            </Button>
+          )}
           {issue.description && (
             <Button
               variant="ghost"
@@ -946,6 +1067,8 @@ function MilestoneAccordion({
   onToggle: () => void;
 }): JSX.Element {
   const { getIssuesForMilestone, deleteMilestone } = useProjects();
+  const { currency } = useConfig();
+  const startTimerOn = useStartTimerOn();
   const issues = getIssuesForMilestone(milestone.id!);
 
   const statusStyles: Record<Milestone["status"], string> = {
@@ -984,6 +1107,21 @@ function MilestoneAccordion({
           {milestone.title}
         </span>
 
+        {milestone.trackedSeconds >= 60 && (
+          <span
+            className="text-xs text-muted-foreground flex-shrink-0 font-mono hidden md:inline"
+            title="Focus time tracked"
+          >
+            {formatTracked(milestone.trackedSeconds)}
+          </span>
+        )}
+
+        {milestone.budget > 0 && (
+          <span className="text-xs text-muted-foreground flex-shrink-0 font-mono hidden md:inline">
+            {getCurrencySymbol(currency)}{formatNumber(milestone.budget)}
+          </span>
+        )}
+
         <span className="text-xs text-muted-foreground flex-shrink-0 font-mono">
           {milestone.completedIssues}/{milestone.totalIssues}
         </span>
@@ -1020,6 +1158,17 @@ function MilestoneAccordion({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={() =>
+                  startTimerOn(
+                    { projectId: milestone.projectId, milestoneId: milestone.id },
+                    milestone.title
+                  )
+                }
+              >
+                <FaPlay className="mr-2 h-3 w-3" />
+                Start timer
+              </DropdownMenuItem>
               <EditMilestoneDialog milestone={milestone} />
               <DropdownMenuItem
                 onClick={handleDelete}
@@ -1041,7 +1190,7 @@ function MilestoneAccordion({
           ) : (
             <div>
               {issues.map((issue) => (
-                <IssueRow key={issue.id} issue={issue} />
+                <IssueRow key={issue.id} issue={issue} projectId={milestone.projectId} />
               ))}
             </div>
           )}
@@ -1066,20 +1215,23 @@ export default function ProjectDetailPage(): JSX.Element {
   const [linkDelMode, setLinkDelMode] = useState(false);
   const [dataLoaded, setDataLoaded] = useState(false);
   const [expandedMilestones, setExpandedMilestones] = useState<Set<number>>(new Set());
+  const [view, setView] = useState<"list" | "board">("list");
 
   const { getProjectWithStats, loadingProjects, deleteQuickLink, loadProjects, deleteProject } =
     useProjects();
   const { currency } = useConfig();
+  // Subscribed so tracked time updates when sessions are saved
+  const { loadFocusSessions } = useFocus();
 
   useEffect(() => {
     const load = async () => {
       if (!dataLoaded) {
-        await loadProjects();
+        await Promise.all([loadProjects(), loadFocusSessions()]);
         setDataLoaded(true);
       }
     };
     load();
-  }, [loadProjects, dataLoaded]);
+  }, [loadProjects, loadFocusSessions, dataLoaded]);
 
   const project = getProjectWithStats(projectId) as ProjectWithStats | undefined;
 
@@ -1191,6 +1343,11 @@ export default function ProjectDetailPage(): JSX.Element {
             {getCurrencySymbol(currency)}{formatNumber(project.totalBudget)} total
           </span>
         )}
+        {project.trackedSeconds >= 60 && (
+          <span className="text-muted-foreground text-xs">
+            {formatTracked(project.trackedSeconds)} tracked
+          </span>
+        )}
         <span className="text-muted-foreground text-xs">
           {completedMilestones}/{project.milestones.length} milestones done
         </span>
@@ -1250,10 +1407,28 @@ export default function ProjectDetailPage(): JSX.Element {
       {/* Milestones */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
-            Milestones
-          </h2>
-          {project.milestones.length > 1 && (
+          <div className="flex items-center gap-3">
+            <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+              Milestones
+            </h2>
+            <div className="flex items-center gap-1 bg-muted rounded-full p-0.5">
+              {(["list", "board"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={cn(
+                    "text-xs px-2.5 py-1 rounded-full transition-colors font-medium",
+                    view === option
+                      ? "bg-background shadow-sm text-foreground"
+                      : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {option === "list" ? "List" : "Board"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {view === "list" && project.milestones.length > 1 && (
             <button
               onClick={() => {
                 const allIds = project.milestones.map((m) => m.id!);
@@ -1281,6 +1456,11 @@ export default function ProjectDetailPage(): JSX.Element {
               Create your first milestone to start tracking progress
             </p>
           </div>
+        ) : view === "board" ? (
+          <KanbanBoard
+            project={project}
+            renderActions={(issue) => <EditIssueDialog issue={issue} />}
+          />
         ) : (
           <div className="border rounded-xl overflow-hidden">
             {project.milestones.map((milestone) => (
@@ -1299,6 +1479,9 @@ export default function ProjectDetailPage(): JSX.Element {
         </div>
       </div>
 
+      {/* Invoices */}
+      <ProjectInvoices project={project} />
+
       <Toaster theme={(theme ?? "system") as "system" | "light" | "dark"} />
     </div>
   );
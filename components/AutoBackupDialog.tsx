@@ -0,0 +1,211 @@
+/**
+ * Automatic Backup Dialog - Schedule and Location of Local Snapshots
+ *
+ * Settings for automatic backups: on or off, daily or after a number of
+ * focus sessions, and whether snapshots go to the browser's private file
+ * storage or a linked folder on disk.
+ *
+ * @fileoverview Automatic backup settings
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { type JSX } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAutoBackup } from "@/hooks/useAutoBackup";
+import {
+  isFolderSupported,
+  isOPFSSupported,
+  KEEP_DAILY,
+  KEEP_WEEKLY,
+  type AutoBackupLocation,
+  type AutoBackupSchedule,
+} from "@/lib/autoBackup";
+
+/**
+ * Automatic Backup Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ */
+export default function AutoBackupDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}): JSX.Element {
+  const {
+    settings,
+    snapshots,
+    folderName,
+    error,
+    isBackingUp,
+    updateSettings,
+    chooseFolder,
+    reconnectFolder,
+    backupNow,
+  } = useAutoBackup();
+
+  const handleChooseFolder = async () => {
+    try {
+      await chooseFolder();
+    } catch (err) {
+      // Closing the folder picker is not an error
+      if ((err as Error).name !== "AbortError") {
+        console.error(err);
+        toast.error("Could not link that folder.");
+      }
+    }
+  };
+
+  const handleBackupNow = async () => {
+    try {
+      await backupNow();
+      toast.success("Backup saved.");
+    } catch (err) {
+      console.error(err);
+      toast.error("Backup failed.");
+    }
+  };
+
+  const handleReconnect = async () => {
+    try {
+      await reconnectFolder();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Automatic backups</DialogTitle>
+          <DialogDescription>
+            Keeps local snapshots of all your data. The newest snapshot of each of the last{" "}
+            {KEEP_DAILY} days and {KEEP_WEEKLY} weeks is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="auto-backup-enabled">Back up automatically</Label>
+            <Switch
+              id="auto-backup-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => updateSettings({ enabled })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>When</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={settings.schedule}
+                onValueChange={(schedule) => updateSettings({ schedule: schedule as AutoBackupSchedule })}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Once a day</SelectItem>
+                  <SelectItem value="sessions">After focus sessions</SelectItem>
+                </SelectContent>
+              </Select>
+              {settings.schedule === "sessions" && (
+                <>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={settings.sessionInterval}
+                    onChange={(e) =>
+                      updateSettings({ sessionInterval: Math.max(1, Number(e.target.value) || 1) })
+                    }
+                    aria-label="Sessions between backups"
+                  />
+                  <span className="text-sm text-muted-foreground">sessions</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Where</Label>
+            <Select
+              value={settings.location}
+              onValueChange={(location) => updateSettings({ location: location as AutoBackupLocation })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="opfs" disabled={!isOPFSSupported()}>
+                  Browser storage
+                </SelectItem>
+                <SelectItem value="folder" disabled={!isFolderSupported() || !folderName}>
+                  {folderName ? `Folder: ${folderName}` : "Linked folder"}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {isFolderSupported() ? (
+              <Button variant="outline" size="sm" onClick={handleChooseFolder}>
+                {folderName ? "Choose another folder" : "Link a folder"}
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                This browser cannot link a folder; snapshots stay in browser storage.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center justify-between gap-4 rounded-md border border-destructive/40 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+              {settings.location === "folder" && folderName && (
+                <Button variant="outline" size="sm" onClick={handleReconnect}>
+                  Allow access
+                </Button>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {snapshots.length > 0
+              ? `${snapshots.length} snapshots. Last backup ${dayjs(snapshots[0].createdAt).format("MMM D, HH:mm")}.`
+              : "No snapshots yet."}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleBackupNow} disabled={isBackingUp || !!error}>
+            {isBackingUp ? "Backing up…" : "Back up now"}
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
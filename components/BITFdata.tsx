@@ -1,32 +1,95 @@
 import { useIsMobile } from "@/hooks/useIsMobile";
-import SaveManager from "@/lib/SaveManager";
+import SaveManager, {
+  BackupValidationError,
+  type ImportOptions,
+  type ImportPreview,
+  type MergeSummary,
+} from "@/lib/SaveManager";
 import { type JSX, useEffect, useRef, useState, useCallback } from "react";
 import { toast } from "sonner";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuShortcut,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
 import { Button } from "./ui/button";
-import { FaFileCsv, FaFileExport, FaFileImport, FaUpload, FaTriangleExclamation } from "react-icons/fa6";
+import {
+  FaClockRotateLeft,
+  FaCodeMerge,
+  FaFileCsv,
+  FaFileExport,
+  FaFileImport,
+  FaGear,
+  FaStopwatch,
+  FaUpload,
+  FaTriangleExclamation,
+} from "react-icons/fa6";
 import { useConfig } from "@/hooks/useConfig";
+import { useAutoBackup } from "@/hooks/useAutoBackup";
+import { useFocus } from "@/hooks/useFocus";
 import { VERSION } from "@/app/changelog/CHANGELOG";
 import axios from "axios";
+import dayjs from "dayjs";
+import AutoBackupDialog from "./AutoBackupDialog";
+import ExportDialog from "./ExportDialog";
+import ImportPreviewDialog from "./ImportPreviewDialog";
+import MergeImportDialog from "./MergeImportDialog";
+import PassphraseDialog from "./PassphraseDialog";
+import TrackerImportDialog from "./TrackerImportDialog";
+
+/**
+ * Shows why an import failed. Validation errors list the problems found in
+ * the file; nothing has been written when they are thrown.
+ */
+function showImportError(err: unknown): void {
+  console.error(err);
+  if (err instanceof BackupValidationError) {
+    toast.error("Import failed. Your data was not changed.", {
+      description: <span className="whitespace-pre-line">{err.message}</span>,
+      duration: 15000,
+    });
+  } else {
+    toast.error("Import failed. Check file format.");
+  }
+}
+
+/** Interval between checks for a due automatic backup */
+const AUTO_BACKUP_CHECK_MS = 15 * 60 * 1000;
+
+/** Logs a failed automatic backup check; the next check tries again */
+const logAutoBackupError = (error: unknown) => console.error("Automatic backup check failed:", error);
+
+/** Reloads the page so every store picks up imported data */
+function reloadAfterImport(): void {
+  toast.info("Reloading in 2 seconds to apply changes...");
+  setTimeout(() => {
+    window.location.reload();
+  }, 2000);
+}
 
 /**
  * BITF Data Management Component
  *
- * Provides import, export, and upload functionality for BIT Focus data in .bitf.json format.
+ * Provides import, export, and upload functionality for BIT Focus data in .bitf.json format,
+ * or passphrase-encrypted .bitf.enc files.
  * Includes keyboard shortcuts for quick access and handles file operations with
  * proper error handling and user feedback through toast notifications.
  *
  * Features:
- * - Export all application data to .bitf.json file
- * - Import data from .bitf.json files with validation
- * - Upload backup to Discord via webhook
- * - Keyboard shortcuts (W for export, Q for import, E for upload)
+ * - Export all or selected application data to .bitf.json file
+ * - Import data from .bitf.json files after reviewing what would change
+ * - Merge a backup into existing data after reviewing a summary
+ * - Upload backup to Discord via webhook, optionally encrypted
+ * - Passphrase prompt for encrypted backups
+ * - Scheduled automatic snapshots with a restore list
+ * - Focus history import from Toggl, Clockify and other CSV exports
+ * - Keyboard shortcuts (W for export, Q for import, M for merge, A for upload)
  * - Error handling with user-friendly messages
  * - Automatic page reload after successful import
  *
@@ -43,29 +106,43 @@ import axios from "axios";
  */
 export default function BITFdata(): JSX.Element {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const mergeInputRef = useRef<HTMLInputElement | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    raw: unknown;
+    preview: ImportPreview;
+  } | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{
+    fileName: string;
+    raw: unknown;
+    summary: MergeSummary;
+  } | null>(null);
+  const [lockedBackup, setLockedBackup] = useState<{
+    fileName: string;
+    raw: unknown;
+    mode: "import" | "merge";
+  } | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isAutoBackupOpen, setIsAutoBackupOpen] = useState(false);
+  const [isTrackerImportOpen, setIsTrackerImportOpen] = useState(false);
+  const { snapshots, loadAutoBackup, runScheduledBackup, readSnapshot } = useAutoBackup();
+  const sessionCount = useFocus((state) => state.focusSessions.length);
   const [isOpen, setIsOpen] = useState(false);
   const isMobile = useIsMobile();
   const { webhook } = useConfig();
   const hasWebhook = webhook && webhook.trim().length > 0;
 
   /**
-   * Handles data export operation
+   * Opens the export dialog
    *
-   * Triggers the export process through SaveManager and provides
-   * user feedback via toast notifications. Catches and handles
-   * any errors that occur during the export process.
+   * The dialog lets the user choose tables, dates and projects before
+   * exporting through SaveManager.
    *
-   * @async
-   * @returns {Promise<void>}
+   * @returns {void}
    */
-  const handleExport = async (): Promise<void> => {
-    try {
-      await SaveManager.exportData();
-      toast.success("Backup exported successfully!");
-    } catch (err) {
-      console.error(err);
-      toast.error("Export failed.");
-    }
+  const handleExport = (): void => {
+    setIsExportOpen(true);
   };
 
   /**
@@ -81,65 +158,182 @@ export default function BITFdata(): JSX.Element {
   };
 
   /**
-   * Handles file selection and import process
+   * Opens the preview for a readable backup
    *
-   * Processes the selected file through SaveManager import functionality.
-   * Provides user feedback and handles the page reload sequence after
-   * successful import to ensure all data is properly refreshed.
+   * Validates the backup and works out what importing or merging it would
+   * change, then opens the matching dialog. Nothing is written until the
+   * user confirms.
+   *
+   * @async
+   * @param {string} fileName - Name of the selected file
+   * @param {unknown} raw - Parsed (and decrypted) backup contents
+   * @param {"import" | "merge"} mode - Replace or merge existing data
+   * @returns {Promise<void>}
+   */
+  const openBackup = async (
+    fileName: string,
+    raw: unknown,
+    mode: "import" | "merge"
+  ): Promise<void> => {
+    if (mode === "import") {
+      const preview = await SaveManager.previewImport(raw);
+      setPendingImport({ fileName, raw, preview });
+    } else {
+      const summary = await SaveManager.previewMerge(raw);
+      setPendingMerge({ fileName, raw, summary });
+    }
+  };
+
+  /**
+   * Handles file selection for an import or merge
+   *
+   * Encrypted backups ask for their passphrase first; others go straight
+   * to the preview.
    *
    * @async
    * @param {React.ChangeEvent<HTMLInputElement>} e - File input change event
+   * @param {"import" | "merge"} mode - Replace or merge existing data
    * @returns {Promise<void>}
    */
   const handleFileChange = async (
-    e: React.ChangeEvent<HTMLInputElement>
+    e: React.ChangeEvent<HTMLInputElement>,
+    mode: "import" | "merge"
   ): Promise<void> => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
-      await SaveManager.importData(file);
-      toast.success("Backup imported successfully!");
-      toast.info("Reloading in 2 seconds to apply changes...");
-      setTimeout(() => {
-        window.location.reload();
-      }, 2000);
+      const raw = await SaveManager.readBackupFile(file);
+      if (SaveManager.isEncrypted(raw)) {
+        setLockedBackup({ fileName: file.name, raw, mode });
+      } else {
+        await openBackup(file.name, raw, mode);
+      }
     } catch (err) {
-      console.error(err);
-      toast.error("Import failed. Check file format.");
+      showImportError(err);
     } finally {
       e.target.value = "";
     }
   };
 
   /**
-   * Handles upload to Discord webhook
+   * Decrypts the selected backup and opens its preview
+   *
+   * A wrong passphrase is thrown back to the passphrase dialog so the user
+   * can try again.
+   *
+   * @async
+   * @param {string} passphrase - Passphrase entered by the user
+   * @returns {Promise<void>}
+   */
+  const handleUnlock = async (passphrase: string): Promise<void> => {
+    if (!lockedBackup) return;
+    const raw = await SaveManager.decrypt(lockedBackup.raw, passphrase);
+    setLockedBackup(null);
+    try {
+      await openBackup(lockedBackup.fileName, raw, lockedBackup.mode);
+    } catch (err) {
+      showImportError(err);
+    }
+  };
+
+  /**
+   * Imports the previewed backup and reloads to apply it
    *
-   * Exports the current data and uploads it as a file attachment to the
-   * configured Discord webhook. Provides user feedback and handles errors
-   * during the upload process.
+   * Provides user feedback and handles the page reload sequence after
+   * successful import to ensure all data is properly refreshed.
+   *
+   * @async
+   * @param {ImportOptions} options - Tables and localStorage to restore
+   * @returns {Promise<void>}
+   */
+  const handleImportConfirm = async (options: ImportOptions): Promise<void> => {
+    if (!pendingImport) return;
+    try {
+      await SaveManager.importJSON(pendingImport.raw, options);
+      setPendingImport(null);
+      toast.success("Backup imported successfully!");
+      reloadAfterImport();
+    } catch (err) {
+      showImportError(err);
+    }
+  };
+
+  /**
+   * Opens the import preview for an automatic snapshot
    *
    * @async
+   * @param {string} name - Snapshot file name
    * @returns {Promise<void>}
    */
-  const handleUpload = useCallback(async (): Promise<void> => {
+  const handleRestoreSnapshot = async (name: string): Promise<void> => {
+    try {
+      await openBackup(name, await readSnapshot(name), "import");
+    } catch (err) {
+      showImportError(err);
+    }
+  };
+
+  /**
+   * Merges the previewed backup and reloads to apply it
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  const handleMergeConfirm = async (): Promise<void> => {
+    if (!pendingMerge) return;
+    try {
+      const summary = await SaveManager.mergeJSON(pendingMerge.raw);
+      const added = Object.values(summary).reduce((sum, c) => sum + c.add, 0);
+      const updated = Object.values(summary).reduce((sum, c) => sum + c.update, 0);
+      const { renumbered } = summary.invoices;
+      setPendingMerge(null);
+      toast.success(
+        `Backup merged: ${added} added, ${updated} updated` +
+          (renumbered > 0 ? `, ${renumbered} invoice${renumbered !== 1 ? "s" : ""} renumbered.` : ".")
+      );
+      reloadAfterImport();
+    } catch (err) {
+      showImportError(err);
+    }
+  };
+
+  /**
+   * Handles upload to Discord webhook
+   *
+   * Asks for an optional passphrase before uploading, since the backup
+   * holds API keys and personal data.
+   *
+   * @returns {void}
+   */
+  const handleUpload = useCallback((): void => {
     if (!hasWebhook) {
       toast.error("No webhook configured. Please set a webhook in settings.");
       return;
     }
+    setIsUploadOpen(true);
+  }, [hasWebhook]);
+
+  /**
+   * Uploads a backup to the Discord webhook
+   *
+   * Exports the current data, encrypted when a passphrase is given, and
+   * uploads it as a file attachment to the configured Discord webhook.
+   * Provides user feedback and handles errors during the upload process.
+   *
+   * @async
+   * @param {string} [passphrase] - Encrypts the backup when given
+   * @returns {Promise<void>}
+   */
+  const uploadBackup = async (passphrase?: string): Promise<void> => {
+    setIsUploadOpen(false);
 
     try {
 
       toast.info("Uploading BITF data to Discord...");
 
-      // Get the exported data as JSON
-      const data = await SaveManager.exportJSON();
-
-      // Create a blob and file from the JSON data
-      const jsonString = JSON.stringify(data, null, 2);
-      const blob = new Blob([jsonString], { type: "application/json" });
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const filename = `bitfocus-${timestamp}.bitf.json`;
+      // Build the backup file, encrypted if requested
+      const { blob, filename } = await SaveManager.exportFile({ passphrase });
 
       // Create FormData for file upload
       const formData = new FormData();
@@ -163,7 +357,23 @@ export default function BITFdata(): JSX.Element {
       console.error(err);
       toast.error("Upload failed. Check your webhook URL.");
     }
-  }, [hasWebhook, webhook]);
+  };
+
+  /**
+   * Load automatic backups and check the schedule periodically
+   */
+  useEffect(() => {
+    loadAutoBackup().then(runScheduledBackup).catch(logAutoBackupError);
+    const interval = setInterval(() => runScheduledBackup().catch(logAutoBackupError), AUTO_BACKUP_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [loadAutoBackup, runScheduledBackup]);
+
+  /**
+   * Check the schedule when focus sessions are added
+   */
+  useEffect(() => {
+    if (sessionCount > 0) runScheduledBackup().catch(logAutoBackupError);
+  }, [sessionCount, runScheduledBackup]);
 
   /**
    * Set up keyboard shortcuts when dropdown is open
@@ -191,6 +401,9 @@ export default function BITFdata(): JSX.Element {
       } else if (e.key.toLowerCase() === "q") {
         e.preventDefault();
         handleImportClick();
+      } else if (e.key.toLowerCase() === "m") {
+        e.preventDefault();
+        mergeInputRef.current?.click();
       } else if (e.key.toLowerCase() === "a") {
         e.preventDefault();
         if (hasWebhook) {
@@ -208,11 +421,18 @@ export default function BITFdata(): JSX.Element {
       {/* Hidden File Input for Import */}
       <input
         type="file"
-        accept=".bitf.json"
-        onChange={handleFileChange}
+        accept=".bitf.json,.bitf.enc"
+        onChange={(e) => handleFileChange(e, "import")}
         ref={fileInputRef}
         className="hidden"
       />
+      <input
+        type="file"
+        accept=".bitf.json,.bitf.enc"
+        onChange={(e) => handleFileChange(e, "merge")}
+        ref={mergeInputRef}
+        className="hidden"
+      />
 
       {/* Dropdown Menu */}
       <DropdownMenu onOpenChange={setIsOpen}>
@@ -233,6 +453,11 @@ export default function BITFdata(): JSX.Element {
             <span>Import</span>
             <DropdownMenuShortcut>Q</DropdownMenuShortcut>
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => mergeInputRef.current?.click()}>
+            <FaCodeMerge className="mr-2" />
+            <span>Merge</span>
+            <DropdownMenuShortcut>M</DropdownMenuShortcut>
+          </DropdownMenuItem>
           <DropdownMenuItem
             onClick={handleUpload}
             disabled={!hasWebhook}
@@ -245,8 +470,82 @@ export default function BITFdata(): JSX.Element {
             <span>Upload</span>
             <DropdownMenuShortcut>A</DropdownMenuShortcut>
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setIsTrackerImportOpen(true)}>
+            <FaStopwatch className="mr-2" />
+            <span>Import from other trackers…</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FaClockRotateLeft className="mr-2" />
+              <span>Restore snapshot</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {snapshots.length === 0 ? (
+                <DropdownMenuItem disabled>No snapshots yet</DropdownMenuItem>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <DropdownMenuItem
+                    key={snapshot.name}
+                    onClick={() => handleRestoreSnapshot(snapshot.name)}
+                  >
+                    <span>{dayjs(snapshot.createdAt).format("ddd, MMM D HH:mm")}</span>
+                    <DropdownMenuShortcut>
+                      {Math.max(1, Math.round(snapshot.size / 1024))} KB
+                    </DropdownMenuShortcut>
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => setIsAutoBackupOpen(true)}>
+            <FaGear className="mr-2" />
+            <span>Automatic backups…</span>
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} />
+
+      <AutoBackupDialog open={isAutoBackupOpen} onOpenChange={setIsAutoBackupOpen} />
+
+      <TrackerImportDialog open={isTrackerImportOpen} onOpenChange={setIsTrackerImportOpen} />
+
+      <PassphraseDialog
+        open={!!lockedBackup}
+        mode="decrypt"
+        title="Encrypted backup"
+        description={`Enter the passphrase for ${lockedBackup?.fileName ?? "this backup"}.`}
+        submitLabel="Unlock"
+        onSubmit={handleUnlock}
+        onCancel={() => setLockedBackup(null)}
+      />
+
+      <PassphraseDialog
+        open={isUploadOpen}
+        mode="encrypt"
+        title="Upload backup"
+        description="Encrypt the backup before it is sent to Discord. It contains your API keys, notes and profile."
+        submitLabel="Encrypt and upload"
+        onSubmit={uploadBackup}
+        onCancel={() => setIsUploadOpen(false)}
+        skipLabel="Upload unencrypted"
+        onSkip={() => uploadBackup()}
+      />
+
+      <ImportPreviewDialog
+        fileName={pendingImport?.fileName ?? ""}
+        preview={pendingImport?.preview ?? null}
+        onConfirm={handleImportConfirm}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <MergeImportDialog
+        fileName={pendingMerge?.fileName ?? ""}
+        summary={pendingMerge?.summary ?? null}
+        onConfirm={handleMergeConfirm}
+        onCancel={() => setPendingMerge(null)}
+      />
     </>
   );
 }
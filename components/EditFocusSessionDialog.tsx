@@ -20,8 +20,15 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { FocusSession, useFocus } from "@/hooks/useFocus";
-import { calculateTime } from "@/lib/utils";
+import { Textarea } from "@/components/ui/textarea";
+import { FocusLinkSelect, FocusRatingInput } from "@/components/SessionDetailsFields";
+import { FocusSession, useFocus, type FocusPause } from "@/hooks/useFocus";
+import {
+  calculateTime,
+  durationFromSeconds,
+  formatTimeNew,
+  getPausedSeconds,
+} from "@/lib/utils";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useEffect } from "react";
 import type { JSX } from "react";
@@ -39,10 +46,46 @@ const formSchema = z.object({
   startPeriod: z.enum(["AM", "PM"]),
   minutes: z.coerce.number().min(0, "Minutes must be a positive number"),
   seconds: z.coerce.number().min(0, "Seconds must be a positive number"),
+  note: z.string(),
+  rating: z.number().min(1).max(5).optional(),
+  link: z.object({
+    projectId: z.number().optional(),
+    milestoneId: z.number().optional(),
+    issueId: z.number().optional(),
+  }),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+/**
+ * Moves a session's pauses along with its edited start time and clips them
+ * to the edited session, dropping pauses that no longer fall inside it.
+ *
+ * @param pauses - Pauses recorded on the original session
+ * @param shiftMs - How far the start time moved, in milliseconds
+ * @param start - Edited session start
+ * @param end - Edited session end
+ * @returns Pauses that fit the edited session
+ */
+function shiftPauses(
+  pauses: FocusPause[],
+  shiftMs: number,
+  start: Date,
+  end: Date,
+): FocusPause[] {
+  return pauses
+    .map((pause) => ({
+      ...pause,
+      start: new Date(
+        Math.max(new Date(pause.start).getTime() + shiftMs, start.getTime()),
+      ),
+      end: new Date(
+        Math.min(new Date(pause.end).getTime() + shiftMs, end.getTime()),
+      ),
+    }))
+    .filter((pause) => pause.end > pause.start);
+}
+
 /**
  * Props interface for the EditFocusSessionDialog component
  */
@@ -93,6 +136,13 @@ export function EditFocusSessionDialog({
       startPeriod: defaultPeriod,
       minutes: defaultMinutes,
       seconds: defaultSeconds,
+      note: item.note ?? "",
+      rating: item.rating,
+      link: {
+        projectId: item.projectId,
+        milestoneId: item.milestoneId,
+        issueId: item.issueId,
+      },
     };
   };
 
@@ -137,6 +187,19 @@ export function EditFocusSessionDialog({
       tag: data.tag,
       startTime: newStartTime,
       endTime: newEndTime,
+      note: data.note.trim() || undefined,
+      rating: data.rating,
+      projectId: data.link.projectId,
+      milestoneId: data.link.milestoneId,
+      issueId: data.link.issueId,
+      ...(session.pauses && {
+        pauses: shiftPauses(
+          session.pauses,
+          newStartTime.getTime() - session.startTime.getTime(),
+          newStartTime,
+          newEndTime,
+        ),
+      }),
     });
 
     onOpenChange(false);
@@ -146,7 +209,7 @@ export function EditFocusSessionDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Focus Session</DialogTitle>
           <DialogDescription>
@@ -321,6 +384,58 @@ export function EditFocusSessionDialog({
                 )}
               </div>
             </div>
+            {session.pauses && session.pauses.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Duration is wall-clock time and includes{" "}
+                {formatTimeNew(
+                  durationFromSeconds(getPausedSeconds(session)),
+                  "H:M:S",
+                  "text",
+                )}{" "}
+                of pauses.
+              </p>
+            )}
+
+            {/* Note Field */}
+            <div className="space-y-2">
+              <Label htmlFor="edit-note">Note</Label>
+              <Controller
+                name="note"
+                control={control}
+                render={({ field }) => (
+                  <Textarea
+                    id="edit-note"
+                    placeholder="What did you get done?"
+                    rows={3}
+                    {...field}
+                  />
+                )}
+              />
+            </div>
+
+            {/* Rating Field */}
+            <div className="space-y-2">
+              <Label>Focus quality</Label>
+              <Controller
+                name="rating"
+                control={control}
+                render={({ field }) => (
+                  <FocusRatingInput value={field.value} onChange={field.onChange} />
+                )}
+              />
+            </div>
+
+            {/* Project Link Field */}
+            <div className="space-y-2">
+              <Label htmlFor="edit-link">Worked on</Label>
+              <Controller
+                name="link"
+                control={control}
+                render={({ field }) => (
+                  <FocusLinkSelect id="edit-link" value={field.value} onChange={field.onChange} />
+                )}
+              />
+            </div>
           </div>
 
           <DialogFooter>
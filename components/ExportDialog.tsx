@@ -0,0 +1,223 @@
+/**
+ * Export Dialog - Choose What Goes Into a Backup
+ *
+ * Lets the user narrow an export to some tables, a date range of focus
+ * sessions and timeblocks, or some projects with their milestones and
+ * issues, and drop secrets (AI API keys, webhook URL) so the file can be
+ * shared safely. The file can also be encrypted with a passphrase. With
+ * nothing changed it exports everything.
+ *
+ * @fileoverview Selective and filtered backup export
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useEffect, useState, type JSX } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useProjects } from "@/hooks/useProjects";
+import { BACKUP_LABELS } from "@/lib/backupFormat";
+import SaveManager, { BACKUP_TABLES, type BackupPart } from "@/lib/SaveManager";
+
+/**
+ * Export Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ */
+export default function ExportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}): JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        {open && <ExportForm onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ExportForm({ onDone }: { onDone: () => void }): JSX.Element {
+  const { projects, loadProjects } = useProjects();
+  const [excluded, setExcluded] = useState<Set<BackupPart>>(new Set());
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [projectIds, setProjectIds] = useState<Set<number>>(new Set());
+  const [omitSecrets, setOmitSecrets] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const toggle = <T,>(set: Set<T>, value: T): Set<T> => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  const tables = BACKUP_TABLES.filter((t) => !excluded.has(t));
+  const includeLocalStorage = !excluded.has("localStorage");
+  const hasRange = !excluded.has("focus") || !excluded.has("timeblocks");
+  const passphraseReady = !encrypt || (passphrase.length > 0 && passphrase === confirmation);
+  const hasProjects = !excluded.has("projects") || !excluded.has("milestones") || !excluded.has("issues");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await SaveManager.exportData({
+        tables,
+        localStorage: includeLocalStorage,
+        from: from ? dayjs(from).startOf("day").toDate() : undefined,
+        to: to ? dayjs(to).endOf("day").toDate() : undefined,
+        projectIds: projectIds.size > 0 ? [...projectIds] : undefined,
+        omitSecrets,
+        passphrase: encrypt ? passphrase : undefined,
+      });
+      toast.success("Backup exported successfully!");
+      onDone();
+    } catch (err) {
+      console.error(err);
+      toast.error("Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Export backup</DialogTitle>
+        <DialogDescription>
+          Choose what to include. Leave everything as it is for a full backup.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5 py-2">
+        <div className="space-y-2">
+          <Label>Data</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {[...BACKUP_TABLES, "localStorage" as const].map((part) => (
+              <label key={part} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={!excluded.has(part)}
+                  onCheckedChange={() => setExcluded((prev) => toggle(prev, part))}
+                />
+                {BACKUP_LABELS[part]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {hasRange && (
+          <div className="space-y-2">
+            <Label>Focus sessions and timeblocks</Label>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+              <span className="text-muted-foreground text-sm">to</span>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+            </div>
+            <p className="text-xs text-muted-foreground">Leave empty to include all dates.</p>
+          </div>
+        )}
+
+        {hasProjects && projects.length > 0 && (
+          <div className="space-y-2">
+            <Label>Projects</Label>
+            <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border p-2">
+              {projects.map((project) => (
+                <label key={project.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={projectIds.has(project.id!)}
+                    onCheckedChange={() => setProjectIds((prev) => toggle(prev, project.id!))}
+                  />
+                  <span className="truncate">{project.title}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {projectIds.size === 0
+                ? "No projects chosen: all projects are included."
+                : "Chosen projects are exported with their milestones, issues and invoices. Focus sessions linked to other projects are left out."}
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="export-omit-secrets">Leave out secrets</Label>
+            <p className="text-xs text-muted-foreground">AI API keys and the webhook URL</p>
+          </div>
+          <Switch id="export-omit-secrets" checked={omitSecrets} onCheckedChange={setOmitSecrets} />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="export-encrypt">Encrypt with a passphrase</Label>
+              <p className="text-xs text-muted-foreground">
+                Saves a .bitf.enc file that needs the passphrase to import
+              </p>
+            </div>
+            <Switch id="export-encrypt" checked={encrypt} onCheckedChange={setEncrypt} />
+          </div>
+          {encrypt && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Repeat passphrase"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {confirmation.length > 0 && confirmation !== passphrase && (
+                <p className="col-span-2 text-xs text-destructive">The passphrases do not match.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone} disabled={isExporting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleExport}
+          disabled={isExporting || !passphraseReady || (tables.length === 0 && !includeLocalStorage)}
+        >
+          {isExporting ? "Exporting…" : "Export"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
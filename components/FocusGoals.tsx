@@ -0,0 +1,133 @@
+/**
+ * Focus Goals Component - Progress Rings for Focus Time Targets
+ *
+ * Shows a progress ring for each focus goal in its current day, week or
+ * month, with a button to set goals. Used on the home page and the Focus
+ * page.
+ *
+ * @fileoverview Focus goal progress rings
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState, type JSX } from "react";
+import { FaBullseye } from "react-icons/fa6";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import FocusGoalsDialog from "@/components/FocusGoalsDialog";
+import { useFocus } from "@/hooks/useFocus";
+import { useGoals } from "@/hooks/useGoals";
+import { GOAL_PERIOD_LABELS, goalProgress, type GoalProgress } from "@/lib/focusGoals";
+import { durationFromSeconds, formatTimeNew } from "@/lib/utils";
+
+/** Ring diameter and stroke width, in pixels */
+const RING_SIZE = 64;
+const RING_STROKE = 6;
+
+/**
+ * Circular progress ring, full when the goal is met.
+ */
+function GoalRing({ ratio }: { ratio: number }): JSX.Element {
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const shown = Math.min(1, ratio);
+
+  return (
+    <svg width={RING_SIZE} height={RING_SIZE} className="-rotate-90 shrink-0" aria-hidden>
+      <circle
+        cx={RING_SIZE / 2}
+        cy={RING_SIZE / 2}
+        r={radius}
+        fill="none"
+        strokeWidth={RING_STROKE}
+        className="stroke-muted"
+      />
+      <circle
+        cx={RING_SIZE / 2}
+        cy={RING_SIZE / 2}
+        r={radius}
+        fill="none"
+        strokeWidth={RING_STROKE}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - shown)}
+        stroke="var(--chart-1)"
+        className="transition-[stroke-dashoffset] duration-500"
+      />
+    </svg>
+  );
+}
+
+/** One goal's ring with its progress */
+function GoalItem({ progress }: { progress: GoalProgress }): JSX.Element {
+  const { goal, focusedSeconds, ratio } = progress;
+  const focused = formatTimeNew(durationFromSeconds(focusedSeconds), "H:M:S", "text");
+
+  return (
+    <div className="flex items-center gap-3 border rounded-xl p-3">
+      <div className="relative">
+        <GoalRing ratio={ratio} />
+        <span className="absolute inset-0 flex items-center justify-center text-xs font-semibold font-mono">
+          {Math.round(ratio * 100)}%
+        </span>
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{goal.tag ? `#${goal.tag}` : "All focus"}</p>
+        <p className="text-xs text-muted-foreground">
+          {focused} of {goal.targetHours}h {GOAL_PERIOD_LABELS[goal.period]}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Focus Goals
+ *
+ * Renders the rings for every goal, or a prompt to set one.
+ */
+export default function FocusGoals(): JSX.Element {
+  const { focusSessions, loadingFocusSessions } = useFocus();
+  const { goals, loadGoals } = useGoals();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  const progress = useMemo(
+    () => goals.map((goal) => goalProgress(goal, focusSessions)),
+    [goals, focusSessions]
+  );
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+          Goals
+        </p>
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => setIsDialogOpen(true)}>
+          <FaBullseye className="size-3" />
+          {goals.length ? "Edit goals" : "Set a goal"}
+        </Button>
+      </div>
+
+      {loadingFocusSessions ? (
+        <Skeleton className="h-[5.5rem] w-full" />
+      ) : progress.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {progress.map((p) => (
+            <GoalItem key={p.goal.id} progress={p} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Set a target, like 10 hours of a tag per week, to track it here.
+        </p>
+      )}
+
+      <FocusGoalsDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+    </section>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Focus Goals Dialog - Set and Remove Focus Time Targets
+ *
+ * Lists the focus goals and adds new ones: a target number of hours per
+ * day, week or month, for a saved tag or for all focus time. Adding a goal
+ * for a tag and period that already has one changes its target instead.
+ *
+ * @fileoverview Focus goal management dialog
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useState, type JSX } from "react";
+import { toast } from "sonner";
+import { FaTrash } from "react-icons/fa6";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGoals } from "@/hooks/useGoals";
+import { useTag } from "@/hooks/useTag";
+import { describeGoal, GOAL_PERIOD_LABELS, GOAL_PERIODS, type GoalPeriod } from "@/lib/focusGoals";
+
+/** Select value for a goal over all focus time */
+const ALL_FOCUS = "__all__";
+
+/**
+ * Focus Goals Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ */
+export default function FocusGoalsDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}): JSX.Element {
+  const { goals, addGoal, updateGoal, removeGoal } = useGoals();
+  const { savedTags } = useTag();
+  const [tag, setTag] = useState(ALL_FOCUS);
+  const [period, setPeriod] = useState<GoalPeriod>("weekly");
+  const [hours, setHours] = useState("10");
+
+  const targetHours = Number(hours);
+  const isValid = Number.isFinite(targetHours) && targetHours > 0;
+
+  const handleAdd = async () => {
+    const goalTag = tag === ALL_FOCUS ? undefined : tag;
+    const existing = goals.find((g) => g.tag === goalTag && g.period === period);
+    try {
+      if (existing?.id !== undefined) {
+        await updateGoal(existing.id, { targetHours });
+      } else {
+        await addGoal(goalTag, period, targetHours);
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save the goal.");
+    }
+  };
+
+  const handleRemove = async (id: number) => {
+    try {
+      await removeGoal(id);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not remove the goal.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Focus goals</DialogTitle>
+          <DialogDescription>
+            Set how much you want to focus each day, week or month, in total or on one tag.
+          </DialogDescription>
+        </DialogHeader>
+
+        {goals.length > 0 ? (
+          <ul className="flex flex-col divide-y rounded-md border">
+            {goals.map((goal) => (
+              <li key={goal.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span>{describeGoal(goal)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  aria-label="Remove goal"
+                  onClick={() => goal.id !== undefined && handleRemove(goal.id)}
+                >
+                  <FaTrash className="size-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No goals yet.</p>
+        )}
+
+        <div className="grid grid-cols-[1fr_auto_5rem] items-end gap-2">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="goal-tag">Tag</Label>
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger id="goal-tag" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FOCUS}>All focus</SelectItem>
+                {savedTags.map((t) => (
+                  <SelectItem key={t.t} value={t.t}>
+                    #{t.t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="goal-period">Period</Label>
+            <Select value={period} onValueChange={(v) => setPeriod(v as GoalPeriod)}>
+              <SelectTrigger id="goal-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_PERIODS.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {GOAL_PERIOD_LABELS[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="goal-hours">Hours</Label>
+            <Input
+              id="goal-hours"
+              type="number"
+              min={0.25}
+              step={0.25}
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleAdd} disabled={!isValid}>
+          {goals.some((g) => g.tag === (tag === ALL_FOCUS ? undefined : tag) && g.period === period)
+            ? "Update goal"
+            : "Add goal"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
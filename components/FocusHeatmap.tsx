@@ -12,6 +12,7 @@
  * - Theme-aware colors
  * - Hover tooltips with detailed info
  * - Streak tracking
+ * - Days on which every daily focus goal was met are outlined
  *
  * @fileoverview Calendar heatmap visualization for focus sessions
  * @author BIT Focus Development Team
@@ -21,7 +22,9 @@
 "use client";
 
 import { FocusSession, useFocus } from "@/hooks/useFocus";
-import { durationFromSeconds, formatTimeNew } from "@/lib/utils";
+import { useGoals } from "@/hooks/useGoals";
+import { goalDays } from "@/lib/focusGoals";
+import { durationFromSeconds, formatTimeNew, getFocusedSeconds } from "@/lib/utils";
 import { Card, CardDescription, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
@@ -32,7 +35,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { FaFire, FaChevronLeft, FaChevronRight } from "react-icons/fa6";
-import { useMemo, useState, type JSX } from "react";
+import { useEffect, useMemo, useState, type JSX } from "react";
 import dayjs from "dayjs";
 import { useIsMobile } from "@/hooks/useIsMobile";
 import { DotIcon } from "lucide-react";
@@ -85,9 +88,7 @@ function aggregateFocusByDay(
     const existing = dayMap.get(sessionDate);
 
     if (existing) {
-      const durationSeconds = Math.floor(
-        (session.endTime.getTime() - session.startTime.getTime()) / 1000
-      );
+      const durationSeconds = getFocusedSeconds(session);
       existing.totalSeconds += durationSeconds;
       existing.sessionCount += 1;
     }
@@ -167,6 +168,7 @@ const INTENSITY_THRESHOLD_LEVEL_2 = 0.075;
  */
 export default function FocusHeatmap(): JSX.Element {
   const { focusSessions, loadingFocusSessions } = useFocus();
+  const { goals, loadGoals } = useGoals();
   const isMobile = useIsMobile();
   // Theme-aware colors are now handled via CSS variables
   const currentYear = dayjs().year();
@@ -194,6 +196,14 @@ export default function FocusHeatmap(): JSX.Element {
     }
   };
 
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  // Days on which every daily goal was met
+  const metGoalDays = useMemo(() => goalDays(goals, focusSessions), [goals, focusSessions]);
+  const hasDailyGoals = goals.some((g) => g.period === "daily");
+
   // Aggregate focus data by day for selected year
   const dayData = useMemo(
     () => aggregateFocusByDay(focusSessions, selectedYear),
@@ -470,6 +480,7 @@ export default function FocusHeatmap(): JSX.Element {
                         ? getIntensityLevel(day.totalSeconds, maxSeconds)
                         : -1; // Outside year
                       const formattedDate = dayjs(day.date).format("ddd, MMM D, YYYY");
+                      const isGoalDay = metGoalDays.has(dayjs(day.date).format("YYYY-MM-DD"));
                       const formattedTime =
                         day.totalSeconds > 0
                           ? formatTimeNew(
@@ -500,7 +511,11 @@ export default function FocusHeatmap(): JSX.Element {
                               style={{
                                 width: `${cellSize}px`,
                                 height: `${cellSize}px`,
-                                backgroundColor: getColor(intensity)
+                                backgroundColor: getColor(intensity),
+                                ...(isGoalDay && {
+                                  outline: "1.5px solid var(--foreground)",
+                                  outlineOffset: "-1.5px",
+                                }),
                               }}
                             />
                           </TooltipTrigger>
@@ -513,6 +528,7 @@ export default function FocusHeatmap(): JSX.Element {
                                 {day.sessionCount !== 1 ? "s" : ""}
                               </p>
                             )}
+                            {isGoalDay && <p>Daily goal met</p>}
                           </TooltipContent>
                         </Tooltip>
                       );
@@ -526,6 +542,21 @@ export default function FocusHeatmap(): JSX.Element {
 
             {/* Legend */}
             <div className="flex items-center justify-end gap-2 mt-3 text-xs text-muted-foreground">
+              {hasDailyGoals && (
+                <span className="flex items-center gap-1 mr-2">
+                  <span
+                    className="rounded-sm"
+                    style={{
+                      width: `${cellSize}px`,
+                      height: `${cellSize}px`,
+                      backgroundColor: getColor(0),
+                      outline: "1.5px solid var(--foreground)",
+                      outlineOffset: "-1.5px",
+                    }}
+                  />
+                  Daily goal met
+                </span>
+              )}
               <span>Less</span>
               <div className="flex" style={{ gap: `${cellGap}px` }}>
                 {[0, 1, 2, 3, 4, 5, 6].map((level) => (
@@ -0,0 +1,267 @@
+/**
+ * Import Preview Dialog - Review a Backup Before Replacing Data
+ *
+ * Compares a backup with the current data before a full import: row counts
+ * per table, the span of focus sessions, projects that would be added or
+ * removed, and localStorage keys that would be overwritten. Tables can be
+ * unticked to keep their current data; parts missing from a selective
+ * export start unticked.
+ *
+ * @fileoverview Full import preview with per-table selection
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useState, type JSX } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BACKUP_LABELS } from "@/lib/backupFormat";
+import {
+  BACKUP_TABLES,
+  type BackupPart,
+  type FocusDateRange,
+  type ImportOptions,
+  type ImportPreview,
+} from "@/lib/SaveManager";
+import { cn, formatDate } from "@/lib/utils";
+
+/** Number of localStorage keys listed before summarizing */
+const MAX_LISTED_KEYS = 8;
+
+function formatRange(range: FocusDateRange | null): string {
+  return range ? `${formatDate(range.start)} – ${formatDate(range.end)}` : "No sessions";
+}
+
+function KeyList({ keys }: { keys: string[] }): JSX.Element {
+  const listed = keys.slice(0, MAX_LISTED_KEYS);
+  return (
+    <p className="text-xs font-mono text-muted-foreground break-all">
+      {listed.join(", ")}
+      {keys.length > listed.length && ` …and ${keys.length - listed.length} more`}
+    </p>
+  );
+}
+
+/**
+ * Import Preview Dialog
+ *
+ * @param fileName - Name of the backup being imported
+ * @param preview - Result of `SaveManager.previewImport`, or null when closed
+ * @param onConfirm - Imports the selected tables
+ * @param onCancel - Closes the dialog without importing
+ */
+export default function ImportPreviewDialog({
+  fileName,
+  preview,
+  onConfirm,
+  onCancel,
+}: {
+  fileName: string;
+  preview: ImportPreview | null;
+  onConfirm: (options: ImportOptions) => Promise<void>;
+  onCancel: () => void;
+}): JSX.Element {
+  const [isImporting, setIsImporting] = useState(false);
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && !isImporting && onCancel()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        {preview && (
+          <ImportPreviewForm
+            key={fileName}
+            fileName={fileName}
+            preview={preview}
+            isImporting={isImporting}
+            onConfirm={async (options) => {
+              setIsImporting(true);
+              try {
+                await onConfirm(options);
+              } finally {
+                setIsImporting(false);
+              }
+            }}
+            onCancel={onCancel}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportPreviewForm({
+  fileName,
+  preview,
+  isImporting,
+  onConfirm,
+  onCancel,
+}: {
+  fileName: string;
+  preview: ImportPreview;
+  isImporting: boolean;
+  onConfirm: (options: ImportOptions) => Promise<void>;
+  onCancel: () => void;
+}): JSX.Element {
+  const [excluded, setExcluded] = useState<Set<BackupPart>>(
+    () =>
+      new Set<BackupPart>([
+        ...BACKUP_TABLES.filter((t) => !preview.tables[t].included),
+        ...(preview.localStorage.included ? [] : (["localStorage"] as const)),
+      ])
+  );
+
+  // Tables that are empty on both sides change nothing
+  const rows = BACKUP_TABLES.filter(
+    (t) => preview.tables[t].current > 0 || preview.tables[t].incoming > 0
+  );
+  const tables = rows.filter((t) => !excluded.has(t));
+  const includeLocalStorage = !excluded.has("localStorage");
+  const { overwritten, removed } = preview.localStorage;
+
+  const toggle = (part: BackupPart) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(part)) next.delete(part);
+      else next.add(part);
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import backup</DialogTitle>
+        <DialogDescription>
+          Ticked tables are replaced with the contents of {fileName}. Unticked tables keep your
+          current data.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            <TableHead>Data</TableHead>
+            <TableHead className="text-right">Current</TableHead>
+            <TableHead className="text-right">Incoming</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((table) => {
+            const { current, incoming, included } = preview.tables[table];
+            return (
+              <TableRow key={table} className={cn(excluded.has(table) && "text-muted-foreground")}>
+                <TableCell>
+                  <Checkbox
+                    checked={!excluded.has(table)}
+                    onCheckedChange={() => toggle(table)}
+                    disabled={!included}
+                    aria-label={`Import ${BACKUP_LABELS[table]}`}
+                  />
+                </TableCell>
+                <TableCell>{BACKUP_LABELS[table]}</TableCell>
+                <TableCell className="text-right font-mono">{current}</TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-mono",
+                    !excluded.has(table) && incoming < current && "text-destructive"
+                  )}
+                >
+                  {included ? incoming : "—"}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          <TableRow className={cn(!includeLocalStorage && "text-muted-foreground")}>
+            <TableCell>
+              <Checkbox
+                checked={includeLocalStorage}
+                onCheckedChange={() => toggle("localStorage")}
+                disabled={!preview.localStorage.included}
+                aria-label={`Import ${BACKUP_LABELS.localStorage}`}
+              />
+            </TableCell>
+            <TableCell>{BACKUP_LABELS.localStorage}</TableCell>
+            <TableCell colSpan={2} className="text-right text-xs text-muted-foreground">
+              {preview.localStorage.included
+                ? `${overwritten.length} overwritten, ${removed.length} removed`
+                : "Not in backup"}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div className="space-y-3 text-sm">
+        {!excluded.has("focus") && (
+          <div className="space-y-1">
+            <p className="font-medium">Focus sessions</p>
+            <p className="text-xs text-muted-foreground">
+              Now: {formatRange(preview.focusRange.current)}
+              <br />
+              Backup: {formatRange(preview.focusRange.incoming)}
+            </p>
+          </div>
+        )}
+
+        {!excluded.has("projects") &&
+          (preview.projects.added.length > 0 || preview.projects.removed.length > 0) && (
+            <div className="space-y-1">
+              <p className="font-medium">Projects</p>
+              {preview.projects.added.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Added: {preview.projects.added.join(", ")}
+                </p>
+              )}
+              {preview.projects.removed.length > 0 && (
+                <p className="text-xs text-destructive">
+                  Removed: {preview.projects.removed.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+        {includeLocalStorage && overwritten.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">Overwritten preferences</p>
+            <KeyList keys={overwritten} />
+          </div>
+        )}
+        {includeLocalStorage && removed.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-medium">Removed preferences</p>
+            <KeyList keys={removed} />
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button
+          variant="destructive"
+          onClick={() => onConfirm({ tables, localStorage: includeLocalStorage })}
+          disabled={isImporting || (tables.length === 0 && !includeLocalStorage)}
+        >
+          {isImporting ? "Importing…" : "Replace data"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
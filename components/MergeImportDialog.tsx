@@ -0,0 +1,136 @@
+/**
+ * Merge Import Dialog - Summary Before Merging a Backup
+ *
+ * Shows how many records a merge import would add, update or skip in each
+ * table, and only merges once the user confirms.
+ *
+ * @fileoverview Merge import confirmation with per-table counts
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useState, type JSX } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BACKUP_LABELS } from "@/lib/backupFormat";
+import { MERGE_TARGETS, type MergeSummary } from "@/lib/backupMerge";
+import { cn } from "@/lib/utils";
+
+/**
+ * Merge Import Dialog
+ *
+ * @param fileName - Name of the backup being merged
+ * @param summary - Result of `SaveManager.previewMerge`, or null when closed
+ * @param onConfirm - Performs the merge
+ * @param onCancel - Closes the dialog without merging
+ */
+export default function MergeImportDialog({
+  fileName,
+  summary,
+  onConfirm,
+  onCancel,
+}: {
+  fileName: string;
+  summary: MergeSummary | null;
+  onConfirm: () => Promise<void>;
+  onCancel: () => void;
+}): JSX.Element {
+  const [isMerging, setIsMerging] = useState(false);
+
+  const rows = summary
+    ? MERGE_TARGETS.filter((t) => summary[t].add + summary[t].update + summary[t].skip > 0)
+    : [];
+  const changes = rows.reduce((sum, t) => sum + summary![t].add + summary![t].update, 0);
+  const renumbered = summary?.invoices.renumbered ?? 0;
+
+  const handleConfirm = async () => {
+    setIsMerging(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!summary} onOpenChange={(open) => !open && !isMerging && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge backup</DialogTitle>
+          <DialogDescription>
+            Records in {fileName} are matched with your data. New records are added, newer edits
+            update the matching record and everything else is kept as it is.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">This backup is empty.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead className="text-right">Add</TableHead>
+                <TableHead className="text-right">Update</TableHead>
+                <TableHead className="text-right">Skip</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((target) => {
+                const counts = summary![target];
+                return (
+                  <TableRow key={target}>
+                    <TableCell>{BACKUP_LABELS[target]}</TableCell>
+                    {(["add", "update", "skip"] as const).map((action) => (
+                      <TableCell
+                        key={action}
+                        className={cn(
+                          "text-right font-mono",
+                          (counts[action] === 0 || action === "skip") && "text-muted-foreground"
+                        )}
+                      >
+                        {counts[action]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {renumbered > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {renumbered} invoice{renumbered !== 1 ? "s share numbers" : " shares a number"} with
+            your invoices and will get the next free number.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isMerging || changes === 0}>
+            {changes === 0 ? "Nothing to merge" : isMerging ? "Merging…" : `Merge ${changes} records`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Passphrase Dialog - Ask for a Backup Passphrase
+ *
+ * Prompts for the passphrase of an encrypted backup, or for a new one
+ * (entered twice) before a backup is encrypted. Errors thrown by the submit
+ * handler, such as a wrong passphrase, are shown in the dialog so the user
+ * can try again.
+ *
+ * @fileoverview Passphrase prompt for encrypted backups
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useState, type FormEvent, type JSX } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * Passphrase Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param mode - "decrypt" asks once; "encrypt" asks twice and checks both match
+ * @param title - Dialog title
+ * @param description - Explains what the passphrase is for
+ * @param submitLabel - Label of the confirm button
+ * @param onSubmit - Receives the passphrase; a thrown error is shown inline
+ * @param onCancel - Closes the dialog
+ * @param skipLabel - Optional label of a button that continues without a passphrase
+ * @param onSkip - Called by the skip button
+ */
+export default function PassphraseDialog({
+  open,
+  mode,
+  title,
+  description,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  skipLabel,
+  onSkip,
+}: {
+  open: boolean;
+  mode: "encrypt" | "decrypt";
+  title: string;
+  description: string;
+  submitLabel: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  skipLabel?: string;
+  onSkip?: () => void;
+}): JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {open && (
+          <PassphraseForm
+            mode={mode}
+            submitLabel={submitLabel}
+            onSubmit={onSubmit}
+            onCancel={onCancel}
+            skipLabel={skipLabel}
+            onSkip={onSkip}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PassphraseForm({
+  mode,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  skipLabel,
+  onSkip,
+}: {
+  mode: "encrypt" | "decrypt";
+  submitLabel: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  skipLabel?: string;
+  onSkip?: () => void;
+}): JSX.Element {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const mismatch = mode === "encrypt" && confirmation.length > 0 && confirmation !== passphrase;
+  const canSubmit =
+    passphrase.length > 0 && (mode === "decrypt" || confirmation === passphrase) && !isWorking;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="backup-passphrase">Passphrase</Label>
+        <Input
+          id="backup-passphrase"
+          type="password"
+          autoFocus
+          autoComplete={mode === "encrypt" ? "new-password" : "current-password"}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+      </div>
+      {mode === "encrypt" && (
+        <div className="space-y-2">
+          <Label htmlFor="backup-passphrase-confirm">Repeat passphrase</Label>
+          <Input
+            id="backup-passphrase-confirm"
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+          {mismatch && <p className="text-xs text-destructive">The passphrases do not match.</p>}
+        </div>
+      )}
+      {mode === "encrypt" && (
+        <p className="text-xs text-muted-foreground">
+          There is no way to recover a forgotten passphrase.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isWorking}>
+          Cancel
+        </Button>
+        {skipLabel && onSkip && (
+          <Button type="button" variant="secondary" onClick={onSkip} disabled={isWorking}>
+            {skipLabel}
+          </Button>
+        )}
+        <Button type="submit" disabled={!canSubmit}>
+          {isWorking ? "Working…" : submitLabel}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -1,5 +1,13 @@
 "use client";
 import { PipFunctionProps, usePipSpace } from "@/hooks/usePip";
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  getPhaseLabel,
+  getTargetDuration,
+  type PomodoroPhase,
+  type PomodoroSettings,
+  type TimerMode,
+} from "@/hooks/PomoContext";
 import { formatTimeNew } from "@/lib/utils";
 import { FaPause, FaPlay, FaCoffee } from "react-icons/fa";
 import { GiTomato } from "react-icons/gi";
@@ -7,12 +15,11 @@ import { GiTomato } from "react-icons/gi";
 export interface PipTimer {
   time: number;
   running: boolean;
-  mode: "standard" | "pomodoro";
-  phase: "focus" | "break";
-  pomodoroSettings: {
-    focusDuration: number;
-    breakDuration: number;
-  };
+  mode: TimerMode;
+  phase: PomodoroPhase;
+  cycle: number;
+  pomodoroSettings: PomodoroSettings;
+  earnedBreakSeconds: number;
   inc: {
     pause: number;
     resume: number;
@@ -24,14 +31,17 @@ export default function PipTimer(props: PipFunctionProps) {
   const { data, update } = usePipSpace("piptimer", {
     time: 0,
     running: false,
-    mode: "standard" as "standard" | "pomodoro",
-    phase: "focus" as "focus" | "break",
-    pomodoroSettings: { focusDuration: 25, breakDuration: 5 },
+    mode: "standard" as TimerMode,
+    phase: "focus" as PomodoroPhase,
+    cycle: 1,
+    pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+    earnedBreakSeconds: 0,
     inc: { pause: 0, resume: 0 },
   });
 
   const isPomodoro = data.mode === "pomodoro";
-  const isBreak = isPomodoro && data.phase === "break";
+  const isBreak = data.mode !== "standard" && data.phase !== "focus";
+  const targetDuration = getTargetDuration(data);
 
   const accentColor = isBreak ? "#f59e0b" : "#f87171";
   const accentGlow  = isBreak ? "rgba(245,158,11,0.25)" : "rgba(248,113,113,0.25)";
@@ -39,22 +49,16 @@ export default function PipTimer(props: PipFunctionProps) {
   const accentBorder = isBreak ? "rgba(245,158,11,0.35)" : "rgba(248,113,113,0.35)";
 
   const getDisplayTime = () => {
-    if (data.mode === "pomodoro") {
-      const total = data.phase === "focus"
-        ? data.pomodoroSettings.focusDuration * 60
-        : data.pomodoroSettings.breakDuration * 60;
-      const remaining = Math.max(0, total - data.time);
+    if (targetDuration !== null) {
+      const remaining = Math.max(0, targetDuration - data.time);
       return { minutes: Math.floor(remaining / 60), seconds: remaining % 60 };
     }
     return { minutes: Math.floor(data.time / 60), seconds: data.time % 60 };
   };
 
   const getProgress = () => {
-    if (!isPomodoro) return 0;
-    const total = data.phase === "focus"
-      ? data.pomodoroSettings.focusDuration * 60
-      : data.pomodoroSettings.breakDuration * 60;
-    return Math.min(1, data.time / total);
+    if (!targetDuration) return 0;
+    return Math.min(1, data.time / targetDuration);
   };
 
   const displayTime = getDisplayTime();
@@ -124,7 +128,10 @@ export default function PipTimer(props: PipFunctionProps) {
             ? <FaCoffee style={{ fontSize: "8px", flexShrink: 0 }} />
             : <GiTomato style={{ fontSize: "9px", flexShrink: 0 }} />
           }
-          {isBreak ? "Break" : "Focus"}
+          {getPhaseLabel(data.phase)}
+          <span style={{ opacity: 0.6, marginLeft: "3px" }}>
+            {data.cycle}/{data.pomodoroSettings.cyclesBeforeLongBreak}
+          </span>
         </div>
       )}
 
@@ -142,8 +149,8 @@ export default function PipTimer(props: PipFunctionProps) {
         {formatTimeNew(displayTime, "M:S", "digital")}
       </div>
 
-      {/* Progress bar — pomodoro only */}
-      {isPomodoro && (
+      {/* Progress bar — timed phases only */}
+      {targetDuration !== null && (
         <div style={{
           width: "88px",
           height: "2px",
@@ -200,7 +207,7 @@ export default function PipTimer(props: PipFunctionProps) {
         }
       </button>
 
-      {/* Mode label — standard only, subtle */}
+      {/* Mode label — standard and flowtime, subtle */}
       {!isPomodoro && (
         <div style={{
           fontSize: "8px",
@@ -211,7 +218,7 @@ export default function PipTimer(props: PipFunctionProps) {
           position: "relative",
           zIndex: 1,
         }}>
-          Standard
+          {data.mode === "flowtime" ? (isBreak ? "Earned Break" : "Flow") : "Standard"}
         </div>
       )}
     </div>
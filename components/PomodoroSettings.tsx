@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { usePomo, type TimerMode, type PomodoroSettings } from "@/hooks/PomoContext";
-import { FaCoffee } from "react-icons/fa";
+import { FaCoffee, FaBed, FaRedo, FaWater } from "react-icons/fa";
 import { GiTomato } from "react-icons/gi";
 import { cn } from "@/lib/utils";
 
@@ -18,33 +18,44 @@ interface PomodoroPreset {
 const POMODORO_PRESETS: PomodoroPreset[] = [
   {
     name: "Classic",
-    description: "25 / 5",
-    settings: { focusDuration: 25, breakDuration: 5 },
+    description: "25 / 5 / 15",
+    settings: { focusDuration: 25, breakDuration: 5, longBreakDuration: 15, cyclesBeforeLongBreak: 4 },
   },
   {
     name: "Short",
-    description: "15 / 3",
-    settings: { focusDuration: 15, breakDuration: 3 },
+    description: "15 / 3 / 10",
+    settings: { focusDuration: 15, breakDuration: 3, longBreakDuration: 10, cyclesBeforeLongBreak: 4 },
   },
   {
     name: "Long",
-    description: "50 / 10",
-    settings: { focusDuration: 50, breakDuration: 10 },
+    description: "50 / 10 / 30",
+    settings: { focusDuration: 50, breakDuration: 10, longBreakDuration: 30, cyclesBeforeLongBreak: 3 },
   },
   {
     name: "Custom",
     description: "Set your own",
-    settings: { focusDuration: 25, breakDuration: 5 },
+    settings: { focusDuration: 25, breakDuration: 5, longBreakDuration: 15, cyclesBeforeLongBreak: 4 },
   },
 ];
 
+/** Allowed input range for each Pomodoro setting */
+const SETTING_LIMITS: Record<keyof PomodoroSettings, { min: number; max: number }> = {
+  focusDuration: { min: 1, max: 180 },
+  breakDuration: { min: 1, max: 60 },
+  longBreakDuration: { min: 1, max: 120 },
+  cyclesBeforeLongBreak: { min: 1, max: 12 },
+};
+
+/** Break shares offered for Flowtime, as divisors of the focus time */
+const FLOWTIME_BREAK_DIVISORS = [3, 4, 5, 6, 8];
+
 interface PomodoroSettingsProps {
   className?: string;
   compact?: boolean;
 }
 
 export default function PomodoroSettings({ className, compact = false }: PomodoroSettingsProps): JSX.Element {
-  const { state, setMode, setPomodoroSettings } = usePomo();
+  const { state, setMode, setPomodoroSettings, setFlowtimeSettings } = usePomo();
   const [selectedPreset, setSelectedPreset] = useState<string>("Classic");
   const [customSettings, setCustomSettings] = useState<PomodoroSettings>(state.pomodoroSettings);
 
@@ -62,7 +73,8 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
   };
 
   const handleCustomSettingChange = (field: keyof PomodoroSettings, value: number) => {
-    if (value < 1 || value > 180) return;
+    const { min, max } = SETTING_LIMITS[field];
+    if (value < min || value > max) return;
     const newSettings = { ...customSettings, [field]: value };
     setCustomSettings(newSettings);
     if (selectedPreset === "Custom") {
@@ -81,7 +93,16 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
         <div className="flex items-center gap-1 text-xs text-muted-foreground">
           <span className={cn("px-2 py-0.5 rounded-md font-medium", state.mode === "standard" ? "bg-accent text-foreground" : "text-muted-foreground")}>Standard</span>
           <span className={cn("px-2 py-0.5 rounded-md font-medium", state.mode === "pomodoro" ? "bg-accent text-foreground" : "text-muted-foreground")}>Pomodoro</span>
+          <span className={cn("px-2 py-0.5 rounded-md font-medium", state.mode === "flowtime" ? "bg-accent text-foreground" : "text-muted-foreground")}>Flowtime</span>
         </div>
+        {state.mode === "flowtime" && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground font-mono">
+            <span className="flex items-center gap-1">
+              <FaCoffee className="w-3 h-3 text-amber-600" />
+              1/{state.flowtimeSettings.breakDivisor}
+            </span>
+          </div>
+        )}
         {state.mode === "pomodoro" && (
           <div className="flex items-center gap-2 text-xs text-muted-foreground font-mono">
             <span className="flex items-center gap-1">
@@ -92,6 +113,14 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
               <FaCoffee className="w-3 h-3 text-amber-600" />
               {state.pomodoroSettings.breakDuration}m
             </span>
+            <span className="flex items-center gap-1">
+              <FaBed className="w-3 h-3 text-sky-500" />
+              {state.pomodoroSettings.longBreakDuration}m
+            </span>
+            <span className="flex items-center gap-1">
+              <FaRedo className="w-2.5 h-2.5" />
+              {state.cycle}/{state.pomodoroSettings.cyclesBeforeLongBreak}
+            </span>
           </div>
         )}
       </div>
@@ -103,7 +132,7 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
       {/* Mode selector */}
       <div className="space-y-2">
         <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Timer Mode</p>
-        <div className="grid grid-cols-2 gap-2">
+        <div className="grid grid-cols-3 gap-2">
           <button
             onClick={() => handleModeChange("standard")}
             className={cn(
@@ -130,9 +159,52 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
             <span className="font-semibold text-sm">Pomodoro</span>
             <span className="text-xs text-muted-foreground">Count down timer</span>
           </button>
+          <button
+            onClick={() => handleModeChange("flowtime")}
+            className={cn(
+              "flex flex-col items-start gap-1.5 rounded-xl border p-4 text-left transition-all",
+              state.mode === "flowtime"
+                ? "border-primary bg-primary/5 shadow-sm"
+                : "border-border hover:bg-accent/40"
+            )}
+          >
+            <FaWater className="w-5 h-5 text-sky-500" />
+            <span className="font-semibold text-sm">Flowtime</span>
+            <span className="text-xs text-muted-foreground">Focus freely, earn breaks</span>
+          </button>
         </div>
       </div>
 
+      {state.mode === "flowtime" && (
+        <>
+          <Separator />
+
+          {/* Break share */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Earned Break</p>
+            <div className="grid grid-cols-5 gap-2">
+              {FLOWTIME_BREAK_DIVISORS.map((divisor) => (
+                <button
+                  key={divisor}
+                  onClick={() => setFlowtimeSettings({ ...state.flowtimeSettings, breakDivisor: divisor })}
+                  className={cn(
+                    "rounded-xl border p-3 text-center font-mono text-sm font-semibold transition-all",
+                    state.flowtimeSettings.breakDivisor === divisor
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:bg-accent/40"
+                  )}
+                >
+                  1/{divisor}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Stopping after 50 minutes of focus earns a {Math.round(50 / state.flowtimeSettings.breakDivisor)} minute break.
+            </p>
+          </div>
+        </>
+      )}
+
       {state.mode === "pomodoro" && (
         <>
           <Separator />
@@ -163,6 +235,14 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
                         <FaCoffee className="w-3 h-3 text-amber-600" />
                         {preset.settings.breakDuration}m
                       </span>
+                      <span className="flex items-center gap-1">
+                        <FaBed className="w-3 h-3 text-sky-500" />
+                        {preset.settings.longBreakDuration}m
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <FaRedo className="w-2.5 h-2.5" />
+                        ×{preset.settings.cyclesBeforeLongBreak}
+                      </span>
                     </div>
                   ) : (
                     <div className="text-xs text-muted-foreground mt-1.5">{preset.description}</div>
@@ -203,6 +283,32 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
                     onChange={(e) => handleCustomSettingChange("breakDuration", Number(e.target.value))}
                   />
                 </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="long-break-duration" className="text-xs flex items-center gap-1 text-muted-foreground">
+                    <FaBed className="w-3 h-3 text-sky-500" /> Long Break (min)
+                  </Label>
+                  <Input
+                    id="long-break-duration"
+                    type="number"
+                    min="1"
+                    max="120"
+                    value={customSettings.longBreakDuration}
+                    onChange={(e) => handleCustomSettingChange("longBreakDuration", Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="cycles-before-long-break" className="text-xs flex items-center gap-1 text-muted-foreground">
+                    <FaRedo className="w-2.5 h-2.5" /> Rounds per set
+                  </Label>
+                  <Input
+                    id="cycles-before-long-break"
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={customSettings.cyclesBeforeLongBreak}
+                    onChange={(e) => handleCustomSettingChange("cyclesBeforeLongBreak", Number(e.target.value))}
+                  />
+                </div>
               </div>
               <Button onClick={applyCustomSettings} size="sm" className="w-full">
                 Apply
@@ -211,7 +317,7 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
           )}
 
           {/* Active config summary */}
-          <div className="flex items-center justify-center gap-8 rounded-xl border bg-accent/10 p-4">
+          <div className="flex flex-wrap items-center justify-center gap-6 rounded-xl border bg-accent/10 p-4">
             <div className="text-center">
               <div className="text-2xl font-mono font-bold tabular-nums">
                 {state.pomodoroSettings.focusDuration}
@@ -231,6 +337,26 @@ export default function PomodoroSettings({ className, compact = false }: Pomodor
                 <FaCoffee className="w-3 h-3 text-amber-600" /> Break
               </div>
             </div>
+            <div className="w-px h-10 bg-border" />
+            <div className="text-center">
+              <div className="text-2xl font-mono font-bold tabular-nums">
+                {state.pomodoroSettings.longBreakDuration}
+                <span className="text-sm font-normal text-muted-foreground ml-1">min</span>
+              </div>
+              <div className="text-xs text-muted-foreground flex items-center gap-1 justify-center mt-0.5">
+                <FaBed className="w-3 h-3 text-sky-500" /> Long Break
+              </div>
+            </div>
+            <div className="w-px h-10 bg-border" />
+            <div className="text-center">
+              <div className="text-2xl font-mono font-bold tabular-nums">
+                {state.cycle}
+                <span className="text-sm font-normal text-muted-foreground ml-1">/ {state.pomodoroSettings.cyclesBeforeLongBreak}</span>
+              </div>
+              <div className="text-xs text-muted-foreground flex items-center gap-1 justify-center mt-0.5">
+                <FaRedo className="w-2.5 h-2.5" /> Round
+              </div>
+            </div>
           </div>
         </>
       )}
@@ -0,0 +1,177 @@
+/**
+ * Session Details Fields - Rating and Project Link Inputs for Focus Sessions
+ *
+ * Form inputs shared by the session review prompt and the edit dialog:
+ * a 1–5 focus quality rating and a selector that links a session to a
+ * project, milestone or issue from `useProjects`.
+ *
+ * @fileoverview Reusable focus session rating and project link inputs
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { Fragment, useEffect, type JSX } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FOCUS_RATING_LABELS, type FocusLink } from "@/hooks/useFocus";
+import { useProjects } from "@/hooks/useProjects";
+import { cn } from "@/lib/utils";
+import { FaStar } from "react-icons/fa6";
+
+/** Select value used when the session is not linked */
+const NO_LINK = "none";
+
+/**
+ * Encodes the most specific part of a link as a select value
+ * (e.g. "issue:12").
+ */
+function encodeFocusLink({ projectId, milestoneId, issueId }: FocusLink): string {
+  if (issueId !== undefined) return `issue:${issueId}`;
+  if (milestoneId !== undefined) return `milestone:${milestoneId}`;
+  if (projectId !== undefined) return `project:${projectId}`;
+  return NO_LINK;
+}
+
+/**
+ * Props interface for the FocusRatingInput component
+ */
+interface FocusRatingInputProps {
+  /** Current rating (1–5), undefined when unrated */
+  value?: number;
+  /** Called with the new rating, or undefined when cleared */
+  onChange: (rating: number | undefined) => void;
+}
+
+/**
+ * Focus Rating Input
+ *
+ * Five clickable stars. Clicking the current rating again clears it.
+ */
+export function FocusRatingInput({ value, onChange }: FocusRatingInputProps): JSX.Element {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex items-center gap-0.5">
+        {FOCUS_RATING_LABELS.map((label, i) => {
+          const rating = i + 1;
+          return (
+            <button
+              key={label}
+              type="button"
+              title={label}
+              onClick={() => onChange(value === rating ? undefined : rating)}
+              className="p-1 rounded hover:bg-accent transition-colors"
+            >
+              <FaStar
+                className={cn(
+                  "size-4",
+                  value !== undefined && rating <= value
+                    ? "text-amber-400"
+                    : "text-muted-foreground/40"
+                )}
+              />
+            </button>
+          );
+        })}
+      </div>
+      <span className="text-xs text-muted-foreground">
+        {value ? FOCUS_RATING_LABELS[value - 1] : "Not rated"}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Props interface for the FocusLinkSelect component
+ */
+interface FocusLinkSelectProps {
+  /** Current link */
+  value: FocusLink;
+  /** Called with the new link (empty when unlinked) */
+  onChange: (link: FocusLink) => void;
+  /** Optional id for the trigger, for use with a Label */
+  id?: string;
+}
+
+/**
+ * Focus Link Select
+ *
+ * Lists every project with its milestones and open issues. Choosing a
+ * milestone or issue fills in its parents so the link can be grouped at
+ * every level.
+ */
+export function FocusLinkSelect({ value, onChange, id }: FocusLinkSelectProps): JSX.Element {
+  const { projects, milestones, issues, loadProjects } = useProjects();
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const handleChange = (encoded: string) => {
+    const [kind, rawId] = encoded.split(":");
+    const itemId = Number(rawId);
+
+    if (kind === "issue") {
+      const issue = issues.find((i) => i.id === itemId);
+      const milestone = milestones.find((m) => m.id === issue?.milestoneId);
+      onChange({ projectId: milestone?.projectId, milestoneId: milestone?.id, issueId: itemId });
+    } else if (kind === "milestone") {
+      const milestone = milestones.find((m) => m.id === itemId);
+      onChange({ projectId: milestone?.projectId, milestoneId: itemId });
+    } else if (kind === "project") {
+      onChange({ projectId: itemId });
+    } else {
+      onChange({});
+    }
+  };
+
+  const selected = encodeFocusLink(value);
+
+  return (
+    <Select value={selected} onValueChange={handleChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Not linked" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_LINK}>Not linked</SelectItem>
+        {projects.map((project) => (
+          <SelectGroup key={project.id}>
+            <SelectItem value={`project:${project.id}`} className="font-medium">
+              {project.title}
+            </SelectItem>
+            {milestones
+              .filter((m) => m.projectId === project.id)
+              .map((milestone) => (
+                <Fragment key={milestone.id}>
+                  <SelectItem value={`milestone:${milestone.id}`} className="pl-6">
+                    {milestone.title}
+                  </SelectItem>
+                  {issues
+                    .filter(
+                      (i) =>
+                        i.milestoneId === milestone.id &&
+                        (i.status !== "Done" || `issue:${i.id}` === selected)
+                    )
+                    .map((issue) => (
+                      <SelectItem
+                        key={issue.id}
+                        value={`issue:${issue.id}`}
+                        className="pl-10 text-muted-foreground"
+                      >
+                        {issue.title}
+                      </SelectItem>
+                    ))}
+                </Fragment>
+              ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Session Review Dialog - Optional Note, Rating and Link After a Session
+ *
+ * Opened from the "Add note" action on the session completed toast. Lets the
+ * user jot down what they got done, rate the focus quality and link the
+ * session to a project, milestone or issue. Skipping leaves the session as is.
+ *
+ * @fileoverview Post-session note, rating and project link prompt
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useState, type JSX } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FocusLinkSelect, FocusRatingInput } from "@/components/SessionDetailsFields";
+import { useFocus, type FocusLink, type FocusSession } from "@/hooks/useFocus";
+import { durationFromSeconds, formatTimeNew, getFocusedSeconds } from "@/lib/utils";
+
+/**
+ * Session Review Dialog
+ *
+ * Renders nothing until `useFocus().reviewSessionId` points at a session.
+ */
+export default function SessionReviewDialog(): JSX.Element {
+  const { focusSessions, reviewSessionId, setReviewSessionId } = useFocus();
+  const session = focusSessions.find((s) => s.id === reviewSessionId);
+
+  return (
+    <Dialog
+      open={!!session}
+      onOpenChange={(open) => !open && setReviewSessionId(null)}
+    >
+      <DialogContent>
+        {session && <SessionReviewForm key={session.id} session={session} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SessionReviewForm({ session }: { session: FocusSession }): JSX.Element {
+  const { editFocusSession, setReviewSessionId } = useFocus();
+  const [note, setNote] = useState(session.note ?? "");
+  const [rating, setRating] = useState<number | undefined>(session.rating);
+  const [link, setLink] = useState<FocusLink>({
+    projectId: session.projectId,
+    milestoneId: session.milestoneId,
+    issueId: session.issueId,
+  });
+
+  const handleSave = async () => {
+    try {
+      await editFocusSession(session.id!, {
+        note: note.trim() || undefined,
+        rating,
+        projectId: link.projectId,
+        milestoneId: link.milestoneId,
+        issueId: link.issueId,
+      });
+      toast.success("Session details saved.");
+      setReviewSessionId(null);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save session details.");
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>How did it go?</DialogTitle>
+        <DialogDescription>
+          {formatTimeNew(durationFromSeconds(getFocusedSeconds(session)), "H:M:S", "text")} on #{session.tag}.
+          Everything here is optional.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="review-note">What did you get done?</Label>
+          <Textarea
+            id="review-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Finished the login form, fixed two bugs…"
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Focus quality</Label>
+          <FocusRatingInput value={rating} onChange={setRating} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="review-link">Worked on</Label>
+          <FocusLinkSelect id="review-link" value={link} onChange={setLink} />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => setReviewSessionId(null)}>
+          Skip
+        </Button>
+        <Button onClick={handleSave}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
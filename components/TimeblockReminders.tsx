@@ -0,0 +1,112 @@
+/**
+ * Timeblock Reminders - Announces Planned Blocks Before They Start
+ *
+ * Checks the timeblocks every half minute and, when one is about to start,
+ * plays the notification sound, shows a toast and a browser notification
+ * (when allowed). Both offer to start the timer on the block's tag in its
+ * preferred mode.
+ *
+ * @fileoverview Timeblock reminder notifications and starting the timer from a block
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { FaRegClock } from "react-icons/fa6";
+import { usePomo } from "@/hooks/PomoContext";
+import { useTag } from "@/hooks/useTag";
+import { useTimeblockReminders } from "@/hooks/useTimeblockReminders";
+import { useTimeblocks, type TimeBlock } from "@/hooks/useTimeblocks";
+import { playNotificationSound } from "@/lib/sound";
+
+/** How often timeblocks are checked for reminders */
+const REMINDER_CHECK_MS = 30 * 1000;
+
+/**
+ * Starts the timer on a timeblock: sets its tag as the current tag and
+ * starts a fresh session in its preferred mode, linked to the project item
+ * the block is planned for, saving any running session.
+ *
+ * @returns Function starting the timer on a block
+ */
+export function useStartTimeblock(): (timeblock: TimeBlock) => void {
+  const { state, startInMode } = usePomo();
+  const { setTag } = useTag();
+
+  return useCallback(
+    (timeblock: TimeBlock) => {
+      setTag(timeblock.tag);
+      const { projectId, milestoneId, issueId } = timeblock;
+      startInMode(timeblock.mode ?? state.mode, { projectId, milestoneId, issueId });
+      toast.success(`Timer started on ${timeblock.title || timeblock.tag}`);
+    },
+    [setTag, startInMode, state.mode]
+  );
+}
+
+/**
+ * Timeblock Reminders
+ *
+ * Renders nothing; mounted once in the top bar.
+ */
+export default function TimeblockReminders(): null {
+  const { timeblocks, loadTimeblocks } = useTimeblocks();
+  const { settings, loadReminderSettings, takeDueReminders } = useTimeblockReminders();
+  const startTimeblock = useStartTimeblock();
+
+  // The timer controls change every tick, so keep the latest without rescheduling
+  const startRef = useRef(startTimeblock);
+  useEffect(() => {
+    startRef.current = startTimeblock;
+  }, [startTimeblock]);
+
+  useEffect(() => {
+    loadReminderSettings();
+    loadTimeblocks();
+  }, [loadReminderSettings, loadTimeblocks]);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+
+    const check = () => {
+      const due = takeDueReminders(timeblocks, new Date());
+      if (!due.length) return;
+      if (settings.sound) playNotificationSound();
+
+      for (const { timeblock, start, end } of due) {
+        const name = timeblock.title || timeblock.tag || "Time block";
+        const minutes = Math.round((start.getTime() - Date.now()) / 60000);
+        const when = minutes > 0 ? `starts in ${minutes} min` : "is starting";
+        const times = `${format(start, "h:mm a")} – ${format(end, "h:mm a")}`;
+
+        toast(`${name} ${when}`, {
+          description: times,
+          icon: <FaRegClock />,
+          duration: 60 * 1000,
+          action: { label: "Start now", onClick: () => startRef.current(timeblock) },
+        });
+
+        if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+          const notification = new Notification(`${name} ${when}`, {
+            body: `${times}\nClick to start the timer.`,
+            tag: `timeblock-${timeblock.id}-${start.getTime()}`,
+          });
+          notification.onclick = () => {
+            window.focus();
+            startRef.current(timeblock);
+            notification.close();
+          };
+        }
+      }
+    };
+
+    check();
+    const interval = setInterval(check, REMINDER_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [settings, timeblocks, takeDueReminders]);
+
+  return null;
+}
@@ -27,6 +27,8 @@ import { cn } from "@/lib/utils";
 import BITFdata from "./BITFdata";
 import FloatingNotepad from "./FloatingNotepad";
 import QuickMessageDialog from "./QuickMessageDialog";
+import SessionReviewDialog from "./SessionReviewDialog";
+import TimeblockReminders from "./TimeblockReminders";
 import { usePathname } from "next/navigation";
 import { FaTrash, FaHandHoldingDollar } from "react-icons/fa6";
 import { FaCoffee } from "react-icons/fa";
@@ -105,6 +107,8 @@ export default function TopBar(): JSX.Element {
           <QuickMessageDialog />
           <FloatingNotepad />
           <BITFdata />
+          <SessionReviewDialog />
+          <TimeblockReminders />
 
           {/* Points pill */}
           <DropdownMenu>
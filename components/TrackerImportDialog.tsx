@@ -0,0 +1,371 @@
+/**
+ * Tracker Import Dialog - Bring Focus History Over from Other Trackers
+ *
+ * Reads a Toggl, Clockify or other CSV export, lets the user check how its
+ * columns and dates are read, and previews every entry before anything is
+ * written. New entries are ticked; duplicates of existing sessions cannot be
+ * imported, and entries that overlap existing sessions stay unticked unless
+ * the user ticks them.
+ *
+ * @fileoverview Focus history import from CSV time tracker exports
+ * @author BIT Focus Development Team
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState, type ChangeEvent, type JSX } from "react";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFocus } from "@/hooks/useFocus";
+import { useTag } from "@/hooks/useTag";
+import {
+  detectDateOrder,
+  detectSource,
+  getMapping,
+  importTrackerRows,
+  previewTrackerImport,
+  readCsvTable,
+  DATE_ORDER_LABELS,
+  DATE_ORDERS,
+  MAPPING_FIELDS,
+  MAPPING_LABELS,
+  TRACKER_LABELS,
+  TRACKER_SOURCES,
+  TrackerImportError,
+  type ColumnMapping,
+  type CsvTable,
+  type DateOrder,
+  type ImportRow,
+  type ImportRowStatus,
+  type TrackerSource,
+} from "@/lib/trackerImport";
+import { cn, durationFromSeconds, formatTimeNew, stringToHexColor } from "@/lib/utils";
+
+/** Number of rows shown in the preview table */
+const MAX_LISTED_ROWS = 200;
+
+/** Select value for an unmapped field; Select items cannot have an empty value */
+const UNMAPPED = "__none__";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "New",
+  duplicate: "Duplicate",
+  overlap: "Overlaps",
+  invalid: "Unreadable",
+};
+
+/**
+ * Tracker Import Dialog
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Called when the dialog opens or closes
+ */
+export default function TrackerImportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}): JSX.Element {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        {open && <TrackerImportForm onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TrackerImportForm({ onDone }: { onDone: () => void }): JSX.Element {
+  const { focusSessions, loadFocusSessions } = useFocus();
+  const { savedTags, addSavedTag } = useTag();
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [source, setSource] = useState<TrackerSource>("generic");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>("ymd");
+  // Rows whose tick differs from the default for their status
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    loadFocusSessions();
+  }, [loadFocusSessions]);
+
+  const preview = useMemo(
+    () => (table && mapping ? previewTrackerImport(table, mapping, dateOrder, focusSessions, savedTags) : null),
+    [table, mapping, dateOrder, focusSessions, savedTags]
+  );
+
+  const isSelected = (row: ImportRow) =>
+    row.status === "new" ? !toggled.has(row.line) : row.status === "overlap" && toggled.has(row.line);
+  const selected = preview?.rows.filter(isSelected) ?? [];
+  const counts = (preview?.rows ?? []).reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, duplicate: 0, overlap: 0, invalid: 0 } as Record<ImportRowStatus, number>
+  );
+
+  const applyMapping = (nextTable: CsvTable, nextSource: TrackerSource) => {
+    const nextMapping = getMapping(nextSource, nextTable.header);
+    const startColumn = nextTable.header.indexOf(nextMapping.start);
+    setSource(nextSource);
+    setMapping(nextMapping);
+    setDateOrder(detectDateOrder(startColumn >= 0 ? nextTable.rows.map((r) => r[startColumn] ?? "") : []));
+    setToggled(new Set());
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const nextTable = readCsvTable(await file.text());
+      setFileName(file.name);
+      setTable(nextTable);
+      applyMapping(nextTable, detectSource(nextTable.header));
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof TrackerImportError ? err.message : "Could not read that file.");
+    }
+  };
+
+  const toggleRow = (line: number) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsImporting(true);
+    try {
+      const added = await importTrackerRows(selected);
+      // Save new tags only once their sessions are in
+      const usedTags = new Set(selected.map((r) => r.tag));
+      for (const tag of preview.newTags.filter((t) => usedTags.has(t))) {
+        addSavedTag(tag, stringToHexColor(tag)[0]);
+      }
+      await loadFocusSessions();
+      toast.success(`Imported ${added} focus session${added !== 1 ? "s" : ""}.`);
+      onDone();
+    } catch (err) {
+      console.error(err);
+      toast.error("Import failed. Your data was not changed.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import from other trackers</DialogTitle>
+        <DialogDescription>
+          Bring time entries from a Toggl Track or Clockify CSV export, or any CSV file, into your
+          focus sessions. Nothing is saved until you confirm.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="tracker-import-file">CSV file</Label>
+          <Input id="tracker-import-file" type="file" accept=".csv,text/csv" onChange={handleFile} />
+          {table && (
+            <p className="text-xs text-muted-foreground">
+              {fileName}: {table.rows.length} entries
+            </p>
+          )}
+        </div>
+
+        {table && mapping && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={source} onValueChange={(value) => applyMapping(table, value as TrackerSource)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRACKER_SOURCES.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {TRACKER_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Dates</Label>
+              <Select value={dateOrder} onValueChange={(value) => setDateOrder(value as DateOrder)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_ORDERS.map((order) => (
+                    <SelectItem key={order} value={order}>
+                      {DATE_ORDER_LABELS[order]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {table && mapping && source === "generic" && (
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{MAPPING_LABELS[field]}</p>
+                  <Select
+                    value={mapping[field] || UNMAPPED}
+                    onValueChange={(value) => {
+                      setMapping({ ...mapping, [field]: value === UNMAPPED ? "" : value });
+                      setToggled(new Set());
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                      {table.header
+                        .filter((column) => column !== "")
+                        .map((column) => (
+                          <SelectItem key={column} value={column}>
+                            {column}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A start is required, plus an end or a duration. Entries without a tag are tagged
+              &quot;Imported&quot;.
+            </p>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {counts.new} new · {counts.duplicate} duplicates · {counts.overlap} overlapping ·{" "}
+              {counts.invalid} unreadable
+            </p>
+            {preview.newTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-muted-foreground">New tags:</span>
+                {preview.newTags.map((tag) => (
+                  <Badge key={tag} variant="outline">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Start</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.slice(0, MAX_LISTED_ROWS).map((row) => (
+                    <TableRow key={row.line} className={cn(!isSelected(row) && "text-muted-foreground")}>
+                      <TableCell>
+                        <Checkbox
+                          checked={isSelected(row)}
+                          disabled={row.status === "duplicate" || row.status === "invalid"}
+                          onCheckedChange={() => toggleRow(row.line)}
+                          aria-label={`Import line ${row.line}`}
+                        />
+                      </TableCell>
+                      <TableCell className="max-w-40 truncate">{row.tag}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.startTime ? dayjs(row.startTime).format("MMM D, YYYY HH:mm") : `Line ${row.line}`}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {row.startTime && row.endTime
+                          ? formatTimeNew(
+                              durationFromSeconds((row.endTime.getTime() - row.startTime.getTime()) / 1000),
+                              "H:M:S",
+                              "digital"
+                            )
+                          : "—"}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "whitespace-nowrap",
+                          row.status === "overlap" && "text-yellow-600 dark:text-yellow-500",
+                          row.status === "invalid" && "text-destructive"
+                        )}
+                        title={row.reason}
+                      >
+                        {STATUS_LABELS[row.status]}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.rows.length > MAX_LISTED_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_LISTED_ROWS} of {preview.rows.length} entries.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} disabled={isImporting || selected.length === 0}>
+          {isImporting
+            ? "Importing…"
+            : `Import ${selected.length} session${selected.length !== 1 ? "s" : ""}`}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
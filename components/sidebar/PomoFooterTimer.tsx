@@ -1,6 +1,6 @@
 "use client";
 
-import { usePomo } from "@/hooks/PomoContext";
+import { getPhaseLabel, getTargetDuration, usePomo } from "@/hooks/PomoContext";
 import { useTag } from "@/hooks/useTag";
 import { cn, formatTime } from "@/lib/utils";
 import { useRouter } from "next/navigation";
@@ -17,24 +17,27 @@ export default function PomoFooterTimer() {
   const { tag, savedTags } = useTag();
   const router = useRouter();
 
-  const { isRunning, elapsedSeconds, mode, phase, pomodoroSettings } = state;
+  const { isRunning, elapsedSeconds, mode, phase } = state;
   const isPaused = !isRunning && elapsedSeconds > 0;
 
   if (!isRunning && !isPaused) return null;
 
   // Calculate the display time
+  const targetDuration = getTargetDuration(state);
   const displaySeconds =
-    mode === "pomodoro" && phase === "focus"
-      ? Math.max(0, pomodoroSettings.focusDuration * 60 - elapsedSeconds)
-      : mode === "pomodoro" && phase === "break"
-      ? Math.max(0, pomodoroSettings.breakDuration * 60 - elapsedSeconds)
+    targetDuration !== null
+      ? Math.max(0, targetDuration - elapsedSeconds)
       : elapsedSeconds;
 
   const minutes = Math.floor(displaySeconds / 60);
   const seconds = displaySeconds % 60;
 
   const modeLabel =
-    mode === "pomodoro" ? (phase === "focus" ? "Focus" : "Break") : "Standard";
+    mode === "pomodoro"
+      ? getPhaseLabel(phase)
+      : mode === "flowtime"
+      ? phase === "focus" ? "Flow" : "Earned Break"
+      : "Standard";
 
   const tagColor = savedTags.find((t) => t.t === tag)?.c;
 
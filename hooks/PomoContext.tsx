@@ -1,7 +1,7 @@
 /**
  * PomoContext.tsx - Enhanced Pomodoro Timer Context with Multiple Modes
  * 
- * This file provides a React context for managing both standard and Pomodoro-style focus timers.
+ * This file provides a React context for managing standard, Pomodoro-style and Flowtime focus timers.
  * It handles timer state (running/paused), elapsed time tracking, countdown functionality, and
  * automatic session saving when focus sessions are completed. The timer state persists
  * across page refreshes using localStorage.
@@ -9,10 +9,17 @@
  * Features:
  * - Standard timer mode (counts up from 0)
  * - Pomodoro mode (counts down from set duration)
- * - Configurable focus and break durations
+ * - Configurable focus, break and long break durations
  * - Auto-transitions between focus and break phases
+ * - Long break after a configurable number of focus rounds
+ * - Flowtime mode (open-ended focus that earns a proportional break)
  * - Session saving compatible with existing system
  * - Persistent settings across browser sessions
+ * - Running timers resume after reloads and browser restarts
+ * - One tab owns the timer; other tabs mirror it and forward their controls
+ * - Pauses and interruption reasons are recorded on saved sessions
+ * - Sessions can be started on a project issue and are saved with that link
+ * - Sessions can be started fresh in a chosen mode, e.g. from a planned timeblock
  * 
  * @author BIT Focus Development Team
  * @since v0.1.0-alpha
@@ -27,28 +34,34 @@ import {
   useEffect,
   useRef,
   useCallback,
+  useState,
 } from "react";
 import { IoIosTimer } from "react-icons/io";
 import { toast } from "sonner";
-import { useFocus } from "@/hooks/useFocus";
+import { useFocus, type FocusLink, type FocusPause } from "@/hooks/useFocus";
 import { durationFromSeconds, formatTime, formatTimeNew } from "@/lib/utils";
 import { useTag } from "@/hooks/useTag";
 import { sendMessage } from "@/lib/webhook";
 import { useConfig } from "./useConfig";
 import { useRewards } from "@/hooks/useRewards";
 import { playNotificationSound } from "@/lib/sound";
+import {
+  onTimerMessage,
+  postTimerMessage,
+  requestTimerOwnership,
+} from "@/lib/timerChannel";
 
 /**
  * Timer Mode Enumeration
  * Defines the available timer operation modes
  */
-export type TimerMode = "standard" | "pomodoro";
+export type TimerMode = "standard" | "pomodoro" | "flowtime";
 
 /**
  * Pomodoro Phase Enumeration
- * Defines the current phase when in Pomodoro mode
+ * Defines the current phase when in Pomodoro or Flowtime mode
  */
-export type PomodoroPhase = "focus" | "break";
+export type PomodoroPhase = "focus" | "break" | "longBreak";
 
 /**
  * Pomodoro Settings Interface
@@ -59,6 +72,104 @@ export interface PomodoroSettings {
   focusDuration: number;
   /** Break duration in minutes */
   breakDuration: number;
+  /** Long break duration in minutes */
+  longBreakDuration: number;
+  /** Number of focus rounds before a long break */
+  cyclesBeforeLongBreak: number;
+}
+
+/**
+ * Default Pomodoro configuration (classic 25 / 5 with a 15 minute long break
+ * after every 4th round)
+ */
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+/**
+ * Flowtime Settings Interface
+ * Configuration for open-ended Flowtime sessions
+ */
+export interface FlowtimeSettings {
+  /** Earned break is the focus time divided by this (5 means a 1/5 break) */
+  breakDivisor: number;
+}
+
+/**
+ * Default Flowtime configuration (a break worth 1/5 of the focus time)
+ */
+export const DEFAULT_FLOWTIME_SETTINGS: FlowtimeSettings = {
+  breakDivisor: 5,
+};
+
+/**
+ * Returns the break earned by a Flowtime focus session in seconds.
+ *
+ * @param settings - Active Flowtime configuration
+ * @param focusSeconds - Length of the focus session in seconds
+ * @returns Break duration in seconds
+ */
+export function getEarnedBreak(settings: FlowtimeSettings, focusSeconds: number): number {
+  return Math.round(focusSeconds / settings.breakDivisor);
+}
+
+/**
+ * Returns the target length of a Pomodoro phase in seconds.
+ *
+ * @param settings - Active Pomodoro configuration
+ * @param phase - Phase to measure
+ * @returns Phase duration in seconds
+ */
+export function getPhaseDuration(settings: PomodoroSettings, phase: PomodoroPhase): number {
+  switch (phase) {
+    case "focus":
+      return settings.focusDuration * 60;
+    case "break":
+      return settings.breakDuration * 60;
+    case "longBreak":
+      return settings.longBreakDuration * 60;
+  }
+}
+
+/**
+ * Returns how long the current phase runs for, or null when it is open-ended
+ * (standard timers and Flowtime focus).
+ *
+ * @param state - Mode, phase and durations of the timer
+ * @returns Phase duration in seconds, or null when there is no target
+ */
+export function getTargetDuration(
+  state: Pick<PomoState, "mode" | "phase" | "pomodoroSettings" | "earnedBreakSeconds">
+): number | null {
+  if (state.mode === "pomodoro") return getPhaseDuration(state.pomodoroSettings, state.phase);
+  if (state.mode === "flowtime" && state.phase !== "focus") return state.earnedBreakSeconds;
+  return null;
+}
+
+/**
+ * Returns a human-readable label for a Pomodoro phase.
+ *
+ * @param phase - Phase to describe
+ * @returns Display label
+ */
+export function getPhaseLabel(phase: PomodoroPhase): string {
+  return phase === "focus" ? "Focus" : phase === "break" ? "Break" : "Long Break";
+}
+
+/**
+ * Timer Pause Interface
+ * A pause within the running session; `end` stays null until the timer resumes
+ */
+interface TimerPause {
+  /** Timestamp the timer was paused at */
+  start: number;
+  /** Timestamp the timer was resumed at */
+  end: number | null;
+  /** Optional interruption reason */
+  reason?: string;
 }
 
 /**
@@ -68,18 +179,30 @@ export interface PomodoroSettings {
 interface PomoState {
   /** Whether the timer is currently running */
   isRunning: boolean;
-  /** Start timestamp for the current session */
+  /** Start timestamp for the current session (shifted forward on resume so it excludes pauses) */
   startTime: number | null;
+  /** Wall-clock start timestamp of the current session */
+  sessionStart: number | null;
+  /** Pauses taken during the current session */
+  pauses: TimerPause[];
   /** Total elapsed seconds from start (always counts up) */
   elapsedSeconds: number;
   /** Current timer mode */
   mode: TimerMode;
   /** Current Pomodoro phase (only relevant in Pomodoro mode) */
   phase: PomodoroPhase;
+  /** Current focus round within the set, starting at 1 (only relevant in Pomodoro mode) */
+  cycle: number;
   /** Pomodoro configuration settings */
   pomodoroSettings: PomodoroSettings;
+  /** Flowtime configuration settings */
+  flowtimeSettings: FlowtimeSettings;
+  /** Break earned by the last Flowtime focus session, in seconds (only relevant in Flowtime mode) */
+  earnedBreakSeconds: number;
+  /** Project, milestone or issue that sessions are saved against (empty when unlinked) */
+  link: FocusLink;
   /** Function to add focus sessions to database */
-  addFocusSession: (tag: string, startTime: Date, endTime: Date) => Promise<void>;
+  addFocusSession: (tag: string, startTime: Date, endTime: Date, pauses?: FocusPause[], link?: FocusLink) => Promise<number>;
   /** Configuration data for webhooks and notifications */
   data: {
     name: string;
@@ -98,12 +221,16 @@ interface PomoState {
 type Action =
   | { type: "START"; payload: { startTime: number } }
   | { type: "PAUSE"; payload: { elapsedSeconds: number } }
+  | { type: "SET_PAUSE_REASON"; payload: { reason: string } }
   | { type: "RESET"; payload?: { elapsedSeconds?: number; tag?: string } }
   | { type: "UPDATE"; payload: { elapsedSeconds: number } }
   | { type: "SET_DATA"; payload: { name: string; tag: string; webhook: string; sendWebhookUpdates: boolean } }
   | { type: "SET_MODE"; payload: { mode: TimerMode } }
   | { type: "SET_POMODORO_SETTINGS"; payload: PomodoroSettings }
+  | { type: "SET_FLOWTIME_SETTINGS"; payload: FlowtimeSettings }
+  | { type: "SET_LINK"; payload: { link: FocusLink } }
   | { type: "NEXT_PHASE" }
+  | { type: "TAKE_BREAK"; payload: { tag: string } }
   | { type: "COMPLETE_POMODORO" }
   | { type: "RESTORE_STATE"; payload: { 
       elapsedSeconds: number;
@@ -112,7 +239,129 @@ type Action =
       isRunning: boolean;
       startTime: number | null;
       phase: PomodoroPhase;
-    }};;
+      cycle: number;
+      sessionStart: number | null;
+      pauses: TimerPause[];
+      flowtimeSettings: FlowtimeSettings;
+      earnedBreakSeconds: number;
+      link: FocusLink;
+    }};
+
+/**
+ * Timer state shared between tabs
+ * The owning tab broadcasts it; mirroring tabs apply it through RESTORE_STATE
+ */
+type SyncedTimerState = Pick<
+  PomoState,
+  | "isRunning"
+  | "startTime"
+  | "elapsedSeconds"
+  | "mode"
+  | "phase"
+  | "cycle"
+  | "pomodoroSettings"
+  | "sessionStart"
+  | "pauses"
+  | "flowtimeSettings"
+  | "earnedBreakSeconds"
+  | "link"
+>;
+
+/**
+ * Timer controls that a mirroring tab forwards to the owning tab
+ */
+type TimerCommand =
+  | { command: "start" | "pause" | "reset" | "nextPhase" | "takeBreak" | "completePomodoro" }
+  | { command: "setMode"; mode: TimerMode }
+  | { command: "startInMode"; mode: TimerMode; link?: FocusLink }
+  | { command: "setPomodoroSettings"; settings: PomodoroSettings }
+  | { command: "setFlowtimeSettings"; settings: FlowtimeSettings }
+  | { command: "setPauseReason"; reason: string }
+  | { command: "setLink" | "startOnLink"; link: FocusLink };
+
+/**
+ * Messages exchanged between tabs over the timer channel
+ */
+type TimerSyncMessage =
+  | { type: "hello" }
+  | { type: "state"; state: SyncedTimerState }
+  | ({ type: "command" } & TimerCommand)
+  | { type: "sessions-changed" };
+
+/**
+ * Timer control functions exposed by the context
+ */
+interface TimerControls {
+  start: () => void;
+  pause: () => void;
+  reset: () => void;
+  setMode: (mode: TimerMode) => void;
+  setPomodoroSettings: (settings: PomodoroSettings) => void;
+  setFlowtimeSettings: (settings: FlowtimeSettings) => void;
+  nextPhase: () => void;
+  takeBreak: () => void;
+  completePomodoro: () => void;
+  setPauseReason: (reason: string) => void;
+  setLink: (link: FocusLink) => void;
+  startOnLink: (link: FocusLink) => void;
+  /** Save whatever is running and start a fresh session in a mode, unlinked unless a link is given */
+  startInMode: (mode: TimerMode, link?: FocusLink) => void;
+}
+
+/**
+ * Extracts the cross-tab portion of the timer state.
+ *
+ * @param state - Full timer state
+ * @returns State to broadcast to mirroring tabs
+ */
+function toSyncedState(state: PomoState): SyncedTimerState {
+  return {
+    isRunning: state.isRunning,
+    startTime: state.startTime,
+    elapsedSeconds: state.elapsedSeconds,
+    mode: state.mode,
+    phase: state.phase,
+    cycle: state.cycle,
+    pomodoroSettings: state.pomodoroSettings,
+    sessionStart: state.sessionStart,
+    pauses: state.pauses,
+    flowtimeSettings: state.flowtimeSettings,
+    earnedBreakSeconds: state.earnedBreakSeconds,
+    link: state.link,
+  };
+}
+
+/**
+ * Executes a command forwarded from another tab.
+ *
+ * @param controls - Local timer controls of the owning tab
+ * @param message - Forwarded command
+ */
+function runTimerCommand(controls: TimerControls, message: TimerCommand) {
+  switch (message.command) {
+    case "setMode":
+      controls.setMode(message.mode);
+      break;
+    case "startInMode":
+      controls.startInMode(message.mode, message.link);
+      break;
+    case "setPomodoroSettings":
+      controls.setPomodoroSettings(message.settings);
+      break;
+    case "setFlowtimeSettings":
+      controls.setFlowtimeSettings(message.settings);
+      break;
+    case "setPauseReason":
+      controls.setPauseReason(message.reason);
+      break;
+    case "setLink":
+    case "startOnLink":
+      controls[message.command](message.link);
+      break;
+    default:
+      controls[message.command]();
+  }
+}
 
 /**
  * Handles the completion of a focus session by saving it to the database
@@ -124,16 +373,23 @@ type Action =
  * @param data - Configuration data including user name, tag, and webhook URL
  * @param addPoints - Function to add reward points
  * @param actualDuration - Actual session duration in seconds (for Pomodoro mode)
+ * @param finishedAt - Timestamp the session ended at (defaults to now, set when
+ *   a phase ran out while the app was closed)
+ * @param pauses - Pauses taken during the session
+ * @param link - Project, milestone or issue the session was spent on
  */
 const handleFinish = (
-  addFocusSession: (tag: string, startTime: Date, endTime: Date) => Promise<void>,
+  addFocusSession: (tag: string, startTime: Date, endTime: Date, pauses?: FocusPause[], link?: FocusLink) => Promise<number>,
   tag: string,
   startTime: number,
   data: { name: string; tag: string; webhook: string; sendWebhookUpdates: boolean },
   addPoints: (points: number) => void,
-  actualDuration?: number
+  actualDuration?: number,
+  finishedAt?: number,
+  pauses?: FocusPause[],
+  link?: FocusLink
 ) => {
-  const endTime = Date.now();
+  const endTime = finishedAt ?? Date.now();
   const elapsedSeconds = actualDuration || Math.floor((endTime - startTime) / 1000);
 
   const timeobj = durationFromSeconds(elapsedSeconds);
@@ -158,14 +414,72 @@ const handleFinish = (
   }
 
   addPoints(Math.floor(elapsedSeconds / 60));
-  addFocusSession(tag, new Date(startTime), new Date(endTime));
-  
   const sessionType = actualDuration ? "Pomodoro session" : "Focus session";
-  toast(`${sessionType} completed: ${formatTime(elapsedSeconds / 60, 0, 1)} minutes.`, {
-    icon: <IoIosTimer />,
+  addFocusSession(tag, new Date(startTime), new Date(endTime), pauses, link).then((id) => {
+    // Let mirroring tabs refresh their session lists
+    postTimerMessage<TimerSyncMessage>({ type: "sessions-changed" });
+
+    // Offer the optional note, rating and project link prompt
+    toast(`${sessionType} completed: ${formatTime(elapsedSeconds / 60, 0, 1)} minutes.`, {
+      icon: <IoIosTimer />,
+      duration: 10000,
+      action: {
+        label: "Add note",
+        onClick: () => useFocus.getState().setReviewSessionId(id),
+      },
+    });
   });
 };
 
+/**
+ * Sends the "session started" webhook notification if configured.
+ *
+ * @param state - Timer state the session starts in
+ */
+function announceStart(
+  state: Pick<PomoState, "data" | "mode" | "phase" | "pomodoroSettings" | "earnedBreakSeconds">
+) {
+  const { name, webhook, tag, sendWebhookUpdates } = state.data;
+  if (!name || !webhook || !tag || !sendWebhookUpdates) return;
+
+  const targetDuration = getTargetDuration(state);
+  const modeText = targetDuration !== null
+    ? `${state.phase} (${Math.round(targetDuration / 60)}min)`
+    : state.mode;
+
+  const message = [
+    `🚀 **Focus Session Started!**`,
+    `👤 **User:** ${name}`,
+    `🏷️ **Tag:** \`#${tag}\``,
+    `⚙️ **Mode:** \`${modeText}\``
+  ].join("\n");
+
+  sendMessage(message, webhook).then((s) => console.log("Submitted", s));
+}
+
+/**
+ * Converts the pauses of the running session into saved session pauses.
+ * A pause that is still open when the session is saved is not part of the
+ * session: the session is considered to have ended when that pause began.
+ *
+ * @param pauses - Pauses of the running session
+ * @param now - Timestamp the session is being saved at
+ * @returns Closed pauses and the timestamp the session ended at
+ */
+function closeSessionPauses(pauses: TimerPause[], now: number): { pauses: FocusPause[]; finishedAt: number } {
+  const openPause = pauses.find((p) => p.end === null);
+  return {
+    pauses: pauses
+      .filter((p) => p.end !== null)
+      .map((p) => ({
+        start: new Date(p.start),
+        end: new Date(p.end!),
+        ...(p.reason && { reason: p.reason }),
+      })),
+    finishedAt: openPause ? openPause.start : now,
+  };
+}
+
 /**
  * Timer State Reducer
  * Handles all state transitions for both standard and Pomodoro modes
@@ -177,14 +491,21 @@ const handleFinish = (
 function pomoReducer(state: PomoState, action: Action): PomoState {
   switch (action.type) {
     case "START":
-      const newStartTime = state.startTime 
-        ? Date.now() - (state.elapsedSeconds * 1000) // Resume from where we left off
+      const resumedAt = Date.now();
+      const isResume = state.startTime !== null;
+      const newStartTime = isResume
+        ? resumedAt - (state.elapsedSeconds * 1000) // Resume from where we left off
         : action.payload.startTime; // Fresh start
       
       return { 
         ...state, 
         isRunning: true, 
-        startTime: newStartTime 
+        startTime: newStartTime,
+        sessionStart: isResume ? state.sessionStart ?? newStartTime : action.payload.startTime,
+        // Close the pause that this start resumes from
+        pauses: isResume
+          ? state.pauses.map((p) => (p.end === null ? { ...p, end: resumedAt } : p))
+          : [],
       };
 
     case "PAUSE":
@@ -193,6 +514,16 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         isRunning: false,
         elapsedSeconds: action.payload.elapsedSeconds,
         // Keep startTime for resume calculations
+        pauses: [...state.pauses, { start: Date.now(), end: null }],
+      };
+
+    case "SET_PAUSE_REASON":
+      if (state.pauses.length === 0) return state;
+      return {
+        ...state,
+        pauses: state.pauses.map((p, i) =>
+          i === state.pauses.length - 1 ? { ...p, reason: action.payload.reason } : p
+        ),
       };
     case "RESET":
       // Handle session completion and saving
@@ -214,9 +545,12 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
           }
         }
         
-        // If startTime is null, calculate it backwards
+        const { pauses, finishedAt } = closeSessionPauses(state.pauses, Date.now());
+
+        // Prefer the wall-clock start; if startTime is null, calculate it backwards
+        startTime = state.sessionStart ?? startTime;
         if (!startTime && sessionDuration > 0) {
-          startTime = Date.now() - (sessionDuration * 1000);
+          startTime = finishedAt - (sessionDuration * 1000);
         }
         
         // Only save focus sessions with meaningful duration (not break periods)
@@ -227,7 +561,10 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
             startTime!,
             state.data,
             state.addPoints,
-            sessionDuration
+            sessionDuration,
+            finishedAt,
+            pauses,
+            state.link
           );
         }
       }
@@ -237,7 +574,11 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         isRunning: false,
         elapsedSeconds: 0,
         startTime: null,
+        sessionStart: null,
+        pauses: [],
         phase: "focus", // Reset to focus phase
+        cycle: 1, // Start a fresh set
+        earnedBreakSeconds: 0,
       };
 
     case "UPDATE":
@@ -267,7 +608,11 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         elapsedSeconds: newElapsedSeconds,
         isRunning: shouldPreserveTime ? state.isRunning : false,
         startTime: shouldPreserveTime ? state.startTime : null,
+        sessionStart: shouldPreserveTime ? state.sessionStart : null,
+        pauses: shouldPreserveTime ? state.pauses : [],
         phase: "focus",
+        cycle: 1,
+        earnedBreakSeconds: 0,
       };
     case "RESTORE_STATE":
       return {
@@ -278,6 +623,12 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         isRunning: action.payload.isRunning,
         startTime: action.payload.startTime,
         phase: action.payload.phase,
+        cycle: action.payload.cycle,
+        sessionStart: action.payload.sessionStart,
+        pauses: action.payload.pauses,
+        flowtimeSettings: action.payload.flowtimeSettings,
+        earnedBreakSeconds: action.payload.earnedBreakSeconds,
+        link: action.payload.link,
       };
 
     case "SET_POMODORO_SETTINGS":
@@ -290,17 +641,89 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         elapsedSeconds: shouldUpdateTimer ? action.payload.focusDuration * 60 : state.elapsedSeconds,
       };
 
+    case "SET_FLOWTIME_SETTINGS":
+      return {
+        ...state,
+        flowtimeSettings: action.payload,
+      };
+
+    case "SET_LINK":
+      return {
+        ...state,
+        link: action.payload.link,
+      };
+
     case "NEXT_PHASE":
+      // Flowtime breaks end back in focus; leaving Flowtime focus goes through TAKE_BREAK
+      if (state.mode === "flowtime") {
+        if (state.phase === "focus") return state;
+        return {
+          ...state,
+          phase: "focus",
+          elapsedSeconds: 0,
+          isRunning: false,
+          startTime: null,
+          sessionStart: null,
+          pauses: [],
+          earnedBreakSeconds: 0,
+        };
+      }
       if (state.mode !== "pomodoro") return state;
       
-      const nextPhase: PomodoroPhase = state.phase === "focus" ? "break" : "focus";
+      // Focus rounds alternate with short breaks; the last round of a set
+      // earns a long break, after which the set starts over.
+      let nextPhase: PomodoroPhase;
+      let nextCycle = state.cycle;
+      if (state.phase === "focus") {
+        nextPhase = state.cycle >= state.pomodoroSettings.cyclesBeforeLongBreak ? "longBreak" : "break";
+      } else {
+        nextPhase = "focus";
+        nextCycle = state.phase === "longBreak" ? 1 : state.cycle + 1;
+      }
       
       return {
         ...state,
         phase: nextPhase,
+        cycle: nextCycle,
+        elapsedSeconds: 0,
+        isRunning: false,
+        startTime: null,
+        sessionStart: null,
+        pauses: [],
+      };
+
+    case "TAKE_BREAK":
+      // End a Flowtime focus session and offer the break it earned
+      if (state.mode !== "flowtime" || state.phase !== "focus" || state.elapsedSeconds === 0) {
+        return state;
+      }
+      {
+        const { pauses, finishedAt } = closeSessionPauses(state.pauses, Date.now());
+        handleFinish(
+          state.addFocusSession,
+          action.payload.tag,
+          state.sessionStart ?? finishedAt - state.elapsedSeconds * 1000,
+          state.data,
+          state.addPoints,
+          state.elapsedSeconds,
+          finishedAt,
+          pauses,
+          state.link
+        );
+      }
+
+      // Sessions under a minute are not saved, so they earn no break
+      return {
+        ...state,
+        phase: state.elapsedSeconds >= 60 ? "break" : "focus",
+        earnedBreakSeconds: state.elapsedSeconds >= 60
+          ? getEarnedBreak(state.flowtimeSettings, state.elapsedSeconds)
+          : 0,
         elapsedSeconds: 0,
         isRunning: false,
         startTime: null,
+        sessionStart: null,
+        pauses: [],
       };
 
     case "COMPLETE_POMODORO":
@@ -308,13 +731,17 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
       if (state.mode === "pomodoro" && state.phase === "focus") {
         const actualDuration = (state.pomodoroSettings.focusDuration * 60) - state.elapsedSeconds;
         if (actualDuration > 0 && state.startTime && state.data.tag) {
+          const { pauses, finishedAt } = closeSessionPauses(state.pauses, Date.now());
           handleFinish(
             state.addFocusSession,
             state.data.tag,
-            state.startTime,
+            state.sessionStart ?? state.startTime,
             state.data,
             state.addPoints,
-            actualDuration
+            actualDuration,
+            finishedAt,
+            pauses,
+            state.link
           );
         }
       }
@@ -324,6 +751,8 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
         isRunning: false,
         elapsedSeconds: state.pomodoroSettings.focusDuration * 60,
         startTime: null,
+        sessionStart: null,
+        pauses: [],
         phase: "focus",
       };
 
@@ -333,16 +762,9 @@ function pomoReducer(state: PomoState, action: Action): PomoState {
 }
 
 // Create Context
-const PomoContext = createContext<{
+const PomoContext = createContext<({
   state: PomoState;
-  start: () => void;
-  pause: () => void;
-  reset: () => void;
-  setMode: (mode: TimerMode) => void;
-  setPomodoroSettings: (settings: PomodoroSettings) => void;
-  nextPhase: () => void;
-  completePomodoro: () => void;
-} | null>(null);
+} & TimerControls) | null>(null);
 
 /**
  * Enhanced Pomodoro Timer Provider Component
@@ -368,13 +790,16 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(pomoReducer, {
     isRunning: false,
     startTime: null,
+    sessionStart: null,
+    pauses: [],
     elapsedSeconds: 0,
     mode: "standard",
     phase: "focus",
-    pomodoroSettings: {
-      focusDuration: 25,
-      breakDuration: 5,
-    },
+    cycle: 1,
+    pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+    flowtimeSettings: DEFAULT_FLOWTIME_SETTINGS,
+    earnedBreakSeconds: 0,
+    link: {},
     addFocusSession,
     data: { name: "", tag: "", webhook: "", sendWebhookUpdates: true },
     addPoints,
@@ -383,10 +808,82 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedTimeRef = useRef<number>(0);
 
+  // Cross-tab coordination: only the owning tab runs and persists the timer
+  const [isOwner, setIsOwner] = useState(false);
+  const isOwnerRef = useRef(false);
+  const hasSyncedRef = useRef(false);
+  const hasRestoredRef = useRef(false);
+  const stateRef = useRef(state);
+  const controlsRef = useRef<TimerControls | null>(null);
+  stateRef.current = state;
+
   /**
-   * Initialize state from localStorage on component mount
+   * Claim timer ownership and listen for other tabs
    */
   useEffect(() => {
+    const unsubscribe = onTimerMessage<TimerSyncMessage>((message) => {
+      switch (message.type) {
+        case "hello":
+          // A new tab wants the current timer state
+          if (isOwnerRef.current) {
+            postTimerMessage<TimerSyncMessage>({ type: "state", state: toSyncedState(stateRef.current) });
+          }
+          break;
+        case "state":
+          if (!isOwnerRef.current) {
+            hasSyncedRef.current = true;
+            dispatch({ type: "RESTORE_STATE", payload: message.state });
+          }
+          break;
+        case "command":
+          if (isOwnerRef.current && controlsRef.current) {
+            runTimerCommand(controlsRef.current, message);
+          }
+          break;
+        case "sessions-changed":
+          useFocus.getState().loadFocusSessions();
+          break;
+      }
+    });
+
+    const releaseOwnership = requestTimerOwnership(() => {
+      isOwnerRef.current = true;
+      setIsOwner(true);
+    });
+    postTimerMessage<TimerSyncMessage>({ type: "hello" });
+
+    return () => {
+      unsubscribe();
+      releaseOwnership();
+    };
+  }, []);
+
+  // Keep the selected tag in step with other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === "tag-storage") {
+        useTag.persist.rehydrate();
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  // Broadcast state changes to mirroring tabs (ticks are computed locally)
+  useEffect(() => {
+    if (!isOwner) return;
+    postTimerMessage<TimerSyncMessage>({ type: "state", state: toSyncedState(stateRef.current) });
+  }, [isOwner, state.isRunning, state.startTime, state.mode, state.phase, state.cycle, state.pomodoroSettings, state.sessionStart, state.pauses, state.flowtimeSettings, state.earnedBreakSeconds, state.link]);
+
+  /**
+   * Initialize state from localStorage once this tab owns the timer.
+   * A tab that took over from a closed owner keeps the mirrored state instead.
+   */
+  useEffect(() => {
+    if (!isOwner || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    if (hasSyncedRef.current) return;
+
     if (typeof window !== "undefined") {
       // Restore saved time
       const savedTime = localStorage.getItem("pomoTime");
@@ -394,44 +891,137 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
       
       // Restore timer mode
       const savedMode = localStorage.getItem("timerMode") as TimerMode;
-      const mode = savedMode === "pomodoro" ? "pomodoro" : "standard";
+      const mode: TimerMode = savedMode === "pomodoro" || savedMode === "flowtime" ? savedMode : "standard";
       
       // Restore Pomodoro settings
       const savedSettings = localStorage.getItem("pomodoroSettings");
-      let pomodoroSettings = { focusDuration: 25, breakDuration: 5 };
+      let pomodoroSettings = DEFAULT_POMODORO_SETTINGS;
       if (savedSettings) {
         try {
-          pomodoroSettings = JSON.parse(savedSettings);
+          // Merge with defaults so settings saved before long breaks existed stay valid
+          pomodoroSettings = { ...DEFAULT_POMODORO_SETTINGS, ...JSON.parse(savedSettings) };
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         } catch (e) {
           console.warn("Failed to parse pomodoro settings from localStorage");
         }
       }
+
+      // Restore Flowtime settings and the break earned by the last flow
+      let flowtimeSettings = DEFAULT_FLOWTIME_SETTINGS;
+      try {
+        flowtimeSettings = { ...DEFAULT_FLOWTIME_SETTINGS, ...JSON.parse(localStorage.getItem("flowtimeSettings") ?? "{}") };
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      } catch (e) {
+        console.warn("Failed to parse flowtime settings from localStorage");
+      }
+      // Restore the project, milestone or issue the timer is working on
+      let link: FocusLink = {};
+      try {
+        link = JSON.parse(localStorage.getItem("pomoLink") ?? "{}");
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      } catch (e) {
+        console.warn("Failed to parse timer link from localStorage");
+      }
+
+      const savedEarnedBreak = parseInt(localStorage.getItem("pomoEarnedBreak") ?? "", 10);
+      const earnedBreakSeconds = Number.isFinite(savedEarnedBreak) ? savedEarnedBreak : 0;
       
       // Restore phase for Pomodoro mode
       const savedPhase = localStorage.getItem("pomoPhase") as PomodoroPhase;
-      const phase = savedPhase === "break" ? "break" : "focus";
-      
-      // Initialize with restored values (but don't restore running state on refresh)
-      if (elapsedSeconds > 0 || mode !== "standard") {
+      const phase: PomodoroPhase = savedPhase === "break" || savedPhase === "longBreak" ? savedPhase : "focus";
+
+      // Restore the current round within the Pomodoro set
+      const savedCycle = parseInt(localStorage.getItem("pomoCycle") ?? "", 10);
+      const cycle = Number.isFinite(savedCycle) && savedCycle > 0 ? savedCycle : 1;
+
+      // Restore the absolute start time and running flag of the last session
+      const savedStartTime = parseInt(localStorage.getItem("pomoStartTime") ?? "", 10);
+      const startTime = Number.isFinite(savedStartTime) ? savedStartTime : null;
+      const wasRunning = localStorage.getItem("pomoRunning") === "true" && startTime !== null;
+
+      // Restore the wall-clock session start and the pauses taken so far
+      const savedSessionStart = parseInt(localStorage.getItem("pomoSessionStart") ?? "", 10);
+      const sessionStart = Number.isFinite(savedSessionStart) ? savedSessionStart : startTime;
+      let pauses: TimerPause[] = [];
+      try {
+        const savedPauses = JSON.parse(localStorage.getItem("pomoPauses") ?? "[]");
+        if (Array.isArray(savedPauses)) pauses = savedPauses;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      } catch (e) {
+        console.warn("Failed to parse timer pauses from localStorage");
+      }
+
+      if (wasRunning) {
+        // Rebuild elapsed time from the wall clock so time spent closed still counts
+        const now = Date.now();
+        const runningSeconds = Math.max(0, Math.floor((now - startTime) / 1000));
+        const targetDuration = getTargetDuration({ mode, phase, pomodoroSettings, earnedBreakSeconds });
+
+        if (targetDuration !== null && runningSeconds >= targetDuration) {
+          // The phase ran out while the app was closed; mark the timer stopped
+          // before saving so a second restore cannot record the session twice
+          localStorage.setItem("pomoRunning", "false");
+
+          if (mode === "pomodoro" && phase === "focus") {
+            const { tag } = useTag.getState();
+            const { name, webhook, sendWebhookUpdates } = useConfig.getState();
+            const finishedAt = startTime + targetDuration * 1000;
+            handleFinish(
+              useFocus.getState().addFocusSession,
+              tag || "Focus",
+              sessionStart ?? startTime,
+              { name, tag, webhook, sendWebhookUpdates },
+              useRewards.getState().addPoints,
+              targetDuration,
+              finishedAt,
+              closeSessionPauses(pauses, finishedAt).pauses,
+              link
+            );
+          }
+
+          toast(`${getPhaseLabel(phase)} phase ended while you were away.`, {
+            icon: <IoIosTimer />,
+          });
+
+          dispatch({
+            type: "RESTORE_STATE",
+            payload: { elapsedSeconds: 0, mode, pomodoroSettings, isRunning: false, startTime: null, phase, cycle, sessionStart: null, pauses: [], flowtimeSettings, earnedBreakSeconds, link },
+          });
+          dispatch({ type: "NEXT_PHASE" });
+        } else {
+          dispatch({
+            type: "RESTORE_STATE",
+            payload: { elapsedSeconds: runningSeconds, mode, pomodoroSettings, isRunning: true, startTime, phase, cycle, sessionStart, pauses, flowtimeSettings, earnedBreakSeconds, link },
+          });
+        }
+      } else if (elapsedSeconds > 0 || mode !== "standard") {
+        // Paused timers come back paused at the saved elapsed time
         dispatch({ 
           type: "RESTORE_STATE", 
           payload: { 
             elapsedSeconds,
             mode,
             pomodoroSettings,
-            isRunning: false, // Never restore running state on refresh
-            startTime: null,
-            phase
+            isRunning: false,
+            startTime: elapsedSeconds > 0 ? startTime : null,
+            phase,
+            cycle,
+            sessionStart: elapsedSeconds > 0 ? sessionStart : null,
+            pauses: elapsedSeconds > 0 ? pauses : [],
+            flowtimeSettings,
+            earnedBreakSeconds,
+            link,
           }
         });
       } else {
         // Just set the mode and settings
         dispatch({ type: "SET_MODE", payload: { mode } });
         dispatch({ type: "SET_POMODORO_SETTINGS", payload: pomodoroSettings });
+        dispatch({ type: "SET_FLOWTIME_SETTINGS", payload: flowtimeSettings });
+        dispatch({ type: "SET_LINK", payload: { link } });
       }
     }
-  }, []);
+  }, [isOwner]);
 
   // Update configuration when external data changes
   useEffect(() => {
@@ -451,35 +1041,88 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  // Persist timer state
+  // Persist timer state (owner only, so tabs never race on the same keys)
   useEffect(() => {
+    if (!isOwner) return;
     const timeoutId = setTimeout(() => {
       saveToLocalStorage(state.elapsedSeconds);
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [state.elapsedSeconds, saveToLocalStorage]);
+  }, [isOwner, state.elapsedSeconds, saveToLocalStorage]);
 
   // Persist mode selection
   useEffect(() => {
-    if (typeof window !== "undefined") {
+    if (isOwner && typeof window !== "undefined") {
       localStorage.setItem("timerMode", state.mode);
     }
-  }, [state.mode]);
+  }, [isOwner, state.mode]);
 
   // Persist Pomodoro settings
   useEffect(() => {
-    if (typeof window !== "undefined") {
+    if (isOwner && typeof window !== "undefined") {
       localStorage.setItem("pomodoroSettings", JSON.stringify(state.pomodoroSettings));
     }
-  }, [state.pomodoroSettings]);
+  }, [isOwner, state.pomodoroSettings]);
+
+  // Persist Flowtime settings
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      localStorage.setItem("flowtimeSettings", JSON.stringify(state.flowtimeSettings));
+    }
+  }, [isOwner, state.flowtimeSettings]);
+
+  // Persist the break earned by the last Flowtime session
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      localStorage.setItem("pomoEarnedBreak", String(state.earnedBreakSeconds));
+    }
+  }, [isOwner, state.earnedBreakSeconds]);
+
+  // Persist the project, milestone or issue the timer is working on
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      localStorage.setItem("pomoLink", JSON.stringify(state.link));
+    }
+  }, [isOwner, state.link]);
 
   // Persist phase
   useEffect(() => {
-    if (typeof window !== "undefined") {
+    if (isOwner && typeof window !== "undefined") {
       localStorage.setItem("pomoPhase", state.phase);
     }
-  }, [state.phase]);
+  }, [isOwner, state.phase]);
+
+  // Persist running flag and absolute start time so a live timer can be resumed
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      localStorage.setItem("pomoRunning", String(state.isRunning));
+      if (state.startTime !== null) {
+        localStorage.setItem("pomoStartTime", String(state.startTime));
+      } else {
+        localStorage.removeItem("pomoStartTime");
+      }
+    }
+  }, [isOwner, state.isRunning, state.startTime]);
+
+  // Persist cycle counter
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      localStorage.setItem("pomoCycle", String(state.cycle));
+    }
+  }, [isOwner, state.cycle]);
+
+  // Persist wall-clock session start and pauses so they survive reloads
+  useEffect(() => {
+    if (isOwner && typeof window !== "undefined") {
+      if (state.sessionStart !== null) {
+        localStorage.setItem("pomoSessionStart", String(state.sessionStart));
+      } else {
+        localStorage.removeItem("pomoSessionStart");
+      }
+      localStorage.setItem("pomoPauses", JSON.stringify(state.pauses));
+    }
+  }, [isOwner, state.sessionStart, state.pauses]);
 
   /**
    * Timer update logic - elapsedSeconds always counts up from 0
@@ -495,30 +1138,42 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
       intervalRef.current = setInterval(() => {
         const currentTime = Date.now();
         const newElapsedSeconds = Math.floor((currentTime - state.startTime!) / 1000);
+
+        // Mirroring tabs only follow the clock; phase changes and saving
+        // happen in the owning tab and arrive over the timer channel
+        if (!isOwner) {
+          const cap = getTargetDuration(state) ?? Infinity;
+          dispatch({ type: "UPDATE", payload: { elapsedSeconds: Math.min(newElapsedSeconds, cap) } });
+          return;
+        }
         
-        // Check for Pomodoro phase completion
-        if (state.mode === "pomodoro") {
-          const targetDuration = state.phase === "focus" 
-            ? state.pomodoroSettings.focusDuration * 60
-            : state.pomodoroSettings.breakDuration * 60;
-          
+        // Check for phase completion (Pomodoro phases and Flowtime breaks)
+        const targetDuration = getTargetDuration(state);
+        if (targetDuration !== null) {
           // Auto-transition when timer reaches target duration
           if (newElapsedSeconds >= targetDuration) {
             if (state.phase === "focus") {
               // Focus completed - save session and move to break
               if (state.startTime && state.data.tag) {
+                const { pauses, finishedAt } = closeSessionPauses(state.pauses, currentTime);
                 handleFinish(
                   state.addFocusSession,
                   state.data.tag,
-                  state.startTime,
+                  state.sessionStart ?? state.startTime,
                   state.data,
                   state.addPoints,
-                  targetDuration
+                  targetDuration,
+                  finishedAt,
+                  pauses,
+                  state.link
                 );
               }
 
+              const earnedLongBreak = state.cycle >= state.pomodoroSettings.cyclesBeforeLongBreak;
               playNotificationSound();
-              toast("Focus session complete! Time for a break.", {
+              toast(earnedLongBreak
+                ? "Pomodoro set complete! Time for a long break."
+                : "Focus session complete! Time for a break.", {
                 icon: <IoIosTimer />,
               });
 
@@ -537,30 +1192,6 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
         }
         
         dispatch({ type: "UPDATE", payload: { elapsedSeconds: newElapsedSeconds } });
-        // Update document title with current timer value
-        if (typeof document !== "undefined") {
-          // Store original title on first update
-          if (originalTitleRef.current === null) {
-            originalTitleRef.current = document.title;
-          }
-          
-          // Format time for display in title
-          let displayTime: string;
-          if (state.mode === "pomodoro") {
-            const targetDuration = state.phase === "focus" 
-              ? state.pomodoroSettings.focusDuration * 60
-              : state.pomodoroSettings.breakDuration * 60;
-            const remainingSeconds = Math.max(0, targetDuration - newElapsedSeconds);
-            const timeObj = durationFromSeconds(remainingSeconds);
-            displayTime = formatTimeNew(timeObj, "M:S", "digital");
-            const phasePhrase = state.phase === "focus" ? "Focus" : "Break";
-            document.title = `${displayTime} | ${phasePhrase} - BIT Focus`;
-          } else {
-            const timeObj = durationFromSeconds(newElapsedSeconds);
-            displayTime = formatTimeNew(timeObj, "M:S", "digital");
-            document.title = `${displayTime} - BIT Focus`;
-          }
-        }
       }, 1000);
     }
 
@@ -570,7 +1201,34 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
         intervalRef.current = null;
       }
     };
-  }, [state.isRunning, state.startTime, state.mode, state.phase, state.pomodoroSettings, state.data, state.addFocusSession, state.addPoints]);
+  }, [isOwner, state.isRunning, state.startTime, state.sessionStart, state.pauses, state.mode, state.phase, state.cycle, state.pomodoroSettings, state.earnedBreakSeconds, state.link, state.data, state.addFocusSession, state.addPoints]);
+
+  /**
+   * Update document title with current timer value
+   */
+  useEffect(() => {
+    if (!state.isRunning || typeof document === "undefined") return;
+
+    // Store original title on first update
+    if (originalTitleRef.current === null) {
+      originalTitleRef.current = document.title;
+    }
+
+    // Format time for display in title
+    let displayTime: string;
+    const targetDuration = getTargetDuration(state);
+    if (targetDuration !== null) {
+      const remainingSeconds = Math.max(0, targetDuration - state.elapsedSeconds);
+      const timeObj = durationFromSeconds(remainingSeconds);
+      displayTime = formatTimeNew(timeObj, "M:S", "digital");
+      const phasePhrase = getPhaseLabel(state.phase);
+      document.title = `${displayTime} | ${phasePhrase} - BIT Focus`;
+    } else {
+      const timeObj = durationFromSeconds(state.elapsedSeconds);
+      displayTime = formatTimeNew(timeObj, "M:S", "digital");
+      document.title = `${displayTime} - BIT Focus`;
+    }
+  }, [state.isRunning, state.elapsedSeconds, state.mode, state.phase, state.pomodoroSettings, state.earnedBreakSeconds]);
 
   /**
    * Restore document title when timer stops or component unmounts
@@ -590,12 +1248,10 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
     };
   }, [state.isRunning]);
 
-  // Context value with all timer controls
-  const contextValue = {
-    state,
+  // Timer controls as executed by the owning tab
+  const controls: TimerControls = {
     start: () => {
-      const { name, webhook, tag, sendWebhookUpdates } = state.data;
-      
+      if (state.isRunning) return;
       // Calculate startTime based on whether this is a fresh start or resume
       let startTime: number;
       
@@ -608,19 +1264,8 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
       }
       
       // Send webhook notification for fresh starts only
-      if (state.elapsedSeconds === 0 && name && webhook && tag && sendWebhookUpdates) {
-        const modeText = state.mode === "pomodoro" 
-          ? `${state.phase} (${state.phase === "focus" ? state.pomodoroSettings.focusDuration : state.pomodoroSettings.breakDuration}min)`
-          : "standard";
-        
-        const message = [
-          `🚀 **Focus Session Started!**`,
-          `👤 **User:** ${name}`,
-          `🏷️ **Tag:** \`#${tag}\``,
-          `⚙️ **Mode:** \`${modeText}\``
-        ].join("\n");
-
-        sendMessage(message, webhook).then((s) => console.log("Submitted", s));
+      if (state.elapsedSeconds === 0) {
+        announceStart(state);
       }
       
       dispatch({ type: "START", payload: { startTime } });
@@ -642,12 +1287,85 @@ export function PomoProvider({ children }: { children: React.ReactNode }) {
     setPomodoroSettings: (settings: PomodoroSettings) => {
       dispatch({ type: "SET_POMODORO_SETTINGS", payload: settings });
     },
+    setFlowtimeSettings: (settings: FlowtimeSettings) => {
+      dispatch({ type: "SET_FLOWTIME_SETTINGS", payload: settings });
+    },
     nextPhase: () => {
       dispatch({ type: "NEXT_PHASE" });
     },
+    takeBreak: () => {
+      if (state.mode !== "flowtime" || state.phase !== "focus" || state.elapsedSeconds === 0) return;
+      dispatch({ type: "TAKE_BREAK", payload: { tag: tag || "Focus" } });
+
+      // Offer the earned break (sessions under a minute earn none)
+      if (state.elapsedSeconds >= 60) {
+        const earned = getEarnedBreak(state.flowtimeSettings, state.elapsedSeconds);
+        playNotificationSound();
+        toast(`Nice flow! You earned a ${formatTimeNew(durationFromSeconds(earned), "H:M:S", "text")} break.`, {
+          icon: <IoIosTimer />,
+        });
+      }
+    },
     completePomodoro: () => {
       dispatch({ type: "COMPLETE_POMODORO" });
     },
+    setPauseReason: (reason: string) => {
+      dispatch({ type: "SET_PAUSE_REASON", payload: { reason } });
+    },
+    setLink: (link: FocusLink) => {
+      dispatch({ type: "SET_LINK", payload: { link } });
+    },
+    startOnLink: (link: FocusLink) => {
+      // Save whatever was running under its own link, then start fresh on the new one
+      dispatch({
+        type: "RESET",
+        payload: { elapsedSeconds: 0, tag: tag || "Focus" },
+      });
+      dispatch({ type: "SET_LINK", payload: { link } });
+      dispatch({ type: "START", payload: { startTime: Date.now() } });
+      announceStart({ ...state, phase: "focus", earnedBreakSeconds: 0 });
+    },
+    startInMode: (mode: TimerMode, link: FocusLink = {}) => {
+      dispatch({
+        type: "RESET",
+        payload: { elapsedSeconds: 0, tag: tag || "Focus" },
+      });
+      dispatch({ type: "SET_LINK", payload: { link } });
+      dispatch({ type: "SET_MODE", payload: { mode } });
+      dispatch({ type: "START", payload: { startTime: Date.now() } });
+      announceStart({ ...state, mode, phase: "focus", earnedBreakSeconds: 0 });
+    },
+  };
+  controlsRef.current = controls;
+
+  /**
+   * Runs a control locally when this tab owns the timer, otherwise forwards
+   * it to the owning tab.
+   */
+  const forward = (command: TimerCommand) => {
+    if (isOwner) {
+      runTimerCommand(controls, command);
+    } else {
+      postTimerMessage<TimerSyncMessage>({ type: "command", ...command });
+    }
+  };
+
+  // Context value with all timer controls
+  const contextValue = {
+    state,
+    start: () => forward({ command: "start" }),
+    pause: () => forward({ command: "pause" }),
+    reset: () => forward({ command: "reset" }),
+    setMode: (mode: TimerMode) => forward({ command: "setMode", mode }),
+    setPomodoroSettings: (settings: PomodoroSettings) => forward({ command: "setPomodoroSettings", settings }),
+    setFlowtimeSettings: (settings: FlowtimeSettings) => forward({ command: "setFlowtimeSettings", settings }),
+    nextPhase: () => forward({ command: "nextPhase" }),
+    takeBreak: () => forward({ command: "takeBreak" }),
+    completePomodoro: () => forward({ command: "completePomodoro" }),
+    setPauseReason: (reason: string) => forward({ command: "setPauseReason", reason }),
+    setLink: (link: FocusLink) => forward({ command: "setLink", link }),
+    startOnLink: (link: FocusLink) => forward({ command: "startOnLink", link }),
+    startInMode: (mode: TimerMode, link?: FocusLink) => forward({ command: "startInMode", mode, link }),
   };
 
   return (
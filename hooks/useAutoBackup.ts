@@ -0,0 +1,185 @@
+/**
+ * Automatic Backups Store - Scheduling and Snapshot List
+ *
+ * Zustand store that decides when to take automatic backup snapshots and
+ * keeps the list of stored snapshots for the restore menu. A snapshot is
+ * taken once a day, or after a set number of focus sessions, using
+ * `SaveManager.exportJSON`; old snapshots are rotated out afterwards.
+ *
+ * Settings are kept in localStorage. When several tabs are open, a Web Lock
+ * makes sure only one of them writes a scheduled snapshot.
+ *
+ * @fileoverview Automatic backup scheduling and snapshot state
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import dayjs from "dayjs";
+import db from "@/lib/db";
+import SaveManager from "@/lib/SaveManager";
+import {
+  getLinkedFolderName,
+  linkBackupFolder,
+  listSnapshots,
+  pruneSnapshots,
+  readSnapshot,
+  requestFolderAccess,
+  writeSnapshot,
+  DEFAULT_AUTO_BACKUP_SETTINGS,
+  type AutoBackupSettings,
+  type BackupSnapshot,
+} from "@/lib/autoBackup";
+
+export type { AutoBackupSettings, BackupSnapshot };
+
+/** localStorage key for the settings */
+const SETTINGS_STORAGE_KEY = "autoBackupSettings";
+
+/** Web Lock held while a scheduled snapshot is written */
+const BACKUP_LOCK = "bitfocus-auto-backup";
+
+function loadSettings(): AutoBackupSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null");
+    return { ...DEFAULT_AUTO_BACKUP_SETTINGS, ...saved };
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    console.warn("Failed to parse auto backup settings from localStorage");
+    return DEFAULT_AUTO_BACKUP_SETTINGS;
+  }
+}
+
+/**
+ * Automatic Backups State Interface
+ */
+interface AutoBackupState {
+  settings: AutoBackupSettings;
+  /** Stored snapshots, newest first */
+  snapshots: BackupSnapshot[];
+  /** Name of the linked folder, if any */
+  folderName: string | null;
+  /** Why the last backup or listing failed, e.g. missing folder access */
+  error: string | null;
+  isBackingUp: boolean;
+  /** Load settings and the snapshot list */
+  loadAutoBackup: () => Promise<void>;
+  /** Change settings and reload the snapshot list */
+  updateSettings: (updates: Partial<AutoBackupSettings>) => Promise<void>;
+  /** Pick a folder for snapshots and switch to it */
+  chooseFolder: () => Promise<void>;
+  /** Ask again for access to the linked folder */
+  reconnectFolder: () => Promise<void>;
+  /** Take a snapshot now, regardless of the schedule */
+  backupNow: () => Promise<void>;
+  /** Take a snapshot if the schedule says one is due */
+  runScheduledBackup: () => Promise<void>;
+  /** Read a snapshot for restoring */
+  readSnapshot: (name: string) => Promise<unknown>;
+}
+
+/**
+ * Automatic Backups Store
+ *
+ * @hook
+ * @returns {AutoBackupState} Automatic backup state and operations
+ */
+export const useAutoBackup = create<AutoBackupState>((set, get) => ({
+  settings: DEFAULT_AUTO_BACKUP_SETTINGS,
+  snapshots: [],
+  folderName: null,
+  error: null,
+  isBackingUp: false,
+
+  loadAutoBackup: async () => {
+    const settings = loadSettings();
+    set({ settings });
+    try {
+      set({ folderName: await getLinkedFolderName() });
+      set({ snapshots: await listSnapshots(settings.location), error: null });
+    } catch (error) {
+      set({ snapshots: [], error: (error as Error).message });
+    }
+  },
+
+  updateSettings: async (updates) => {
+    const settings = { ...get().settings, ...updates };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    set({ settings });
+    await get().loadAutoBackup();
+  },
+
+  chooseFolder: async () => {
+    const folderName = await linkBackupFolder();
+    set({ folderName });
+    await get().updateSettings({ location: "folder" });
+  },
+
+  reconnectFolder: async () => {
+    await requestFolderAccess();
+    await get().loadAutoBackup();
+  },
+
+  /**
+   * Back Up Now
+   *
+   * Writes a snapshot of all data and rotates old snapshots out.
+   */
+  backupNow: async () => {
+    const { location } = get().settings;
+    set({ isBackingUp: true });
+    try {
+      await writeSnapshot(location, await SaveManager.exportJSON());
+      set({ snapshots: await pruneSnapshots(location), error: null });
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    } finally {
+      set({ isBackingUp: false });
+    }
+  },
+
+  /**
+   * Run Scheduled Backup
+   *
+   * Daily: due when no snapshot was taken today. Sessions: due once the
+   * configured number of focus sessions started after the last snapshot.
+   */
+  runScheduledBackup: async () => {
+    const { settings, isBackingUp } = get();
+    if (!settings.enabled || isBackingUp) return;
+
+    const run = async () => {
+      // Another tab may have just written one
+      await get().loadAutoBackup();
+      // The location is unavailable, e.g. folder access was revoked
+      if (get().error) return;
+      const latest = get().snapshots[0];
+
+      let due = !latest;
+      if (latest && settings.schedule === "daily") {
+        due = !dayjs(latest.createdAt).isSame(dayjs(), "day");
+      } else if (latest && settings.schedule === "sessions") {
+        const sessions = await db.focus.where("startTime").above(latest.createdAt).count();
+        due = sessions >= settings.sessionInterval;
+      }
+
+      if (due) {
+        try {
+          await get().backupNow();
+        } catch (error) {
+          console.error("Automatic backup failed:", error);
+        }
+      }
+    };
+
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      await navigator.locks.request(BACKUP_LOCK, { ifAvailable: true }, async (lock) => {
+        if (lock) await run();
+      });
+    } else {
+      await run();
+    }
+  },
+
+  readSnapshot: (name) => readSnapshot(get().settings.location, name),
+}));
@@ -0,0 +1,91 @@
+/**
+ * Auto Schedule Store - "Plan My Week" Settings and Proposal
+ *
+ * Zustand store for the auto scheduler: the working hours and block sizes it
+ * plans with, and the proposal being previewed on the Calendar. A proposal
+ * can be tweaked block by block before it is accepted into the timeblocks.
+ *
+ * Settings are kept in localStorage; the proposal only lives until it is
+ * accepted or discarded.
+ *
+ * @fileoverview Auto schedule settings and proposal state
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import {
+  DEFAULT_AUTO_SCHEDULE_SETTINGS,
+  isLate,
+  type AutoSchedule,
+  type AutoScheduleSettings,
+} from "@/lib/autoSchedule";
+
+/** localStorage key for the settings */
+const SETTINGS_STORAGE_KEY = "autoScheduleSettings";
+
+function loadSettings(): AutoScheduleSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null");
+    return { ...DEFAULT_AUTO_SCHEDULE_SETTINGS, ...saved };
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    console.warn("Failed to parse auto schedule settings from localStorage");
+    return DEFAULT_AUTO_SCHEDULE_SETTINGS;
+  }
+}
+
+/**
+ * Auto Schedule State Interface
+ */
+interface AutoScheduleState {
+  settings: AutoScheduleSettings;
+  /** Proposal previewed on the Calendar, if any */
+  proposal: AutoSchedule | null;
+  loadAutoScheduleSettings: () => void;
+  updateAutoScheduleSettings: (updates: Partial<AutoScheduleSettings>) => void;
+  setProposal: (proposal: AutoSchedule | null) => void;
+  /** Moves or resizes a proposed block, rechecking it against the due date */
+  moveProposedBlock: (key: string, startTime: Date, endTime: Date) => void;
+  /** Leaves a block out of the proposal */
+  removeProposedBlock: (key: string) => void;
+}
+
+/**
+ * Auto Schedule Store
+ *
+ * @hook
+ * @returns {AutoScheduleState} Scheduler settings and the current proposal
+ */
+export const useAutoSchedule = create<AutoScheduleState>((set, get) => ({
+  settings: DEFAULT_AUTO_SCHEDULE_SETTINGS,
+  proposal: null,
+
+  loadAutoScheduleSettings: () => set({ settings: loadSettings() }),
+
+  updateAutoScheduleSettings: (updates) => {
+    const settings = { ...get().settings, ...updates };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    set({ settings });
+  },
+
+  setProposal: (proposal) => set({ proposal }),
+
+  moveProposedBlock: (key, startTime, endTime) => {
+    const { proposal } = get();
+    if (!proposal) return;
+    set({
+      proposal: {
+        ...proposal,
+        blocks: proposal.blocks.map((b) =>
+          b.key === key ? { ...b, startTime, endTime, late: isLate(endTime, b.dueEnd) } : b
+        ),
+      },
+    });
+  },
+
+  removeProposedBlock: (key) => {
+    const { proposal } = get();
+    if (!proposal) return;
+    set({ proposal: { ...proposal, blocks: proposal.blocks.filter((b) => b.key !== key) } });
+  },
+}));
@@ -0,0 +1,73 @@
+/**
+ * External Calendars Store - Imported .ics Calendars
+ *
+ * Zustand store for read-only calendars imported from other apps and shown
+ * on the Calendar page. Importing a calendar with the name of one already
+ * imported replaces its events, so a fresh export can be imported to update.
+ *
+ * @fileoverview Imported calendar state and persistence
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import db, { type ExternalCalendar } from "@/lib/db";
+import { parseICS } from "@/lib/icsImport";
+
+export type { ExternalCalendar };
+
+/**
+ * External Calendars State Interface
+ */
+interface ExternalCalendarsState {
+  calendars: ExternalCalendar[];
+  loadCalendars: () => Promise<void>;
+  /**
+   * Import an .ics file
+   *
+   * @param fileName - Used as the name when the calendar has none
+   * @param text - File contents
+   * @throws {IcsImportError} If the file cannot be read
+   */
+  importCalendar: (fileName: string, text: string) => Promise<ExternalCalendar>;
+  removeCalendar: (id: number) => Promise<void>;
+}
+
+/**
+ * External Calendars Store
+ *
+ * @hook
+ * @returns {ExternalCalendarsState} Imported calendars and operations
+ */
+export const useExternalCalendars = create<ExternalCalendarsState>((set, get) => ({
+  calendars: [],
+
+  loadCalendars: async () => {
+    try {
+      set({ calendars: await db.externalCalendars.toArray() });
+    } catch (error) {
+      console.error("Failed to load imported calendars:", error);
+    }
+  },
+
+  importCalendar: async (fileName, text) => {
+    const { name, events } = parseICS(text);
+    const calendarName = name?.trim() || fileName.replace(/\.ics$/i, "");
+    const existing = await db.externalCalendars.where("name").equals(calendarName).first();
+
+    const calendar: ExternalCalendar = {
+      ...(existing && { id: existing.id }),
+      name: calendarName,
+      importedAt: new Date(),
+      events,
+    };
+    calendar.id = await db.externalCalendars.put(calendar);
+
+    set({ calendars: [...get().calendars.filter((c) => c.id !== calendar.id), calendar] });
+    return calendar;
+  },
+
+  removeCalendar: async (id) => {
+    await db.externalCalendars.delete(id);
+    set((state) => ({ calendars: state.calendars.filter((c) => c.id !== id) }));
+  },
+}));
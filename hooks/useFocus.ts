@@ -38,7 +38,53 @@
  */
 
 import { create } from "zustand";
-import db from "@/lib/db";
+import db, { type FocusPause } from "@/lib/db";
+
+export type { FocusPause };
+
+/**
+ * Predefined Interruption Reasons
+ *
+ * Offered when the timer is paused so breaks in a session can be explained.
+ */
+export const INTERRUPTION_REASONS = [
+  "call",
+  "meeting",
+  "distraction",
+  "break",
+  "other",
+] as const;
+
+export type InterruptionReason = (typeof INTERRUPTION_REASONS)[number];
+
+/**
+ * Focus Quality Rating Labels
+ *
+ * Describes each 1–5 focus rating; rating `n` maps to index `n - 1`.
+ */
+export const FOCUS_RATING_LABELS = [
+  "Scattered",
+  "Distracted",
+  "Steady",
+  "Focused",
+  "Deep focus",
+] as const;
+
+/**
+ * Focus Link Interface
+ *
+ * The project, milestone or issue a session was spent on. Linking a
+ * milestone also stores its project, and linking an issue stores its
+ * milestone and project, so sessions can be grouped at every level.
+ */
+export interface FocusLink {
+  /** Linked project */
+  projectId?: number;
+  /** Linked milestone */
+  milestoneId?: number;
+  /** Linked issue */
+  issueId?: number;
+}
 
 /**
  * Focus Session Data Interface
@@ -47,7 +93,7 @@ import db from "@/lib/db";
  * necessary fields for session tracking, categorization, and
  * analytics calculations.
  */
-export interface FocusSession {
+export interface FocusSession extends FocusLink {
   /** Unique session identifier (auto-generated) */
   id?: number;
   /** Category tag for session organization */
@@ -56,6 +102,12 @@ export interface FocusSession {
   startTime: Date;
   /** Session end timestamp */
   endTime: Date;
+  /** Pauses taken during the session (wall-clock time not spent focusing) */
+  pauses?: FocusPause[];
+  /** Short note on what was done during the session */
+  note?: string;
+  /** Focus quality rating from 1 to 5 */
+  rating?: number;
 }
 
 /**
@@ -70,12 +122,16 @@ interface FocusState {
   focusSessions: FocusSession[];
   /** Loading state indicator for UI feedback */
   loadingFocusSessions: boolean;
-  /** Function to create a new focus session */
+  /** ID of the session whose note and rating are being asked for */
+  reviewSessionId: number | null;
+  /** Function to create a new focus session, resolving to its ID */
   addFocusSession: (
     tag: string,
     startTime: Date,
-    endTime: Date
-  ) => Promise<void>;
+    endTime: Date,
+    pauses?: FocusPause[],
+    link?: FocusLink
+  ) => Promise<number>;
   /** Function to load all focus sessions from database */
   loadFocusSessions: () => Promise<void>;
   /** Function to delete a focus session by ID */
@@ -85,6 +141,8 @@ interface FocusState {
     id: number,
     updatedSession: Partial<FocusSession>
   ) => Promise<void>;
+  /** Function to open (or with null, close) the note and rating prompt for a session */
+  setReviewSessionId: (id: number | null) => void;
 }
 
 /**
@@ -161,6 +219,7 @@ export const useFocus = create<FocusState>((set) => ({
   // Initial state
   focusSessions: [],
   loadingFocusSessions: true,
+  reviewSessionId: null,
 
   /**
    * Add New Focus Session
@@ -174,7 +233,9 @@ export const useFocus = create<FocusState>((set) => ({
    * @param {string} tag - Category tag for the session
    * @param {Date} startTime - Session start timestamp
    * @param {Date} endTime - Session end timestamp
-   * @returns {Promise<void>} Resolves when session is created
+   * @param {FocusPause[]} [pauses] - Pauses taken during the session
+   * @param {FocusLink} [link] - Project, milestone or issue the session was spent on
+   * @returns {Promise<number>} Resolves with the new session ID
    *
    * @example
    * ```typescript
@@ -186,14 +247,26 @@ export const useFocus = create<FocusState>((set) => ({
    * );
    * ```
    */
-  addFocusSession: async (tag, startTime, endTime) => {
+  addFocusSession: async (tag, startTime, endTime, pauses, link) => {
+    const session = {
+      tag,
+      startTime,
+      endTime,
+      ...(pauses && pauses.length > 0 && { pauses }),
+      ...(link?.projectId !== undefined && { projectId: link.projectId }),
+      ...(link?.milestoneId !== undefined && { milestoneId: link.milestoneId }),
+      ...(link?.issueId !== undefined && { issueId: link.issueId }),
+    };
+
     // Add to database and get generated ID
-    const id = await db.focus.add({ tag, startTime, endTime });
+    const id = await db.focus.add(session);
 
     // Update local state with optimistic update (prepend for chronological order)
     set((state) => ({
-      focusSessions: [{ id, tag, startTime, endTime }, ...state.focusSessions],
+      focusSessions: [{ id, ...session }, ...state.focusSessions],
     }));
+
+    return id;
   },
 
   /**
@@ -314,4 +387,14 @@ export const useFocus = create<FocusState>((set) => ({
       ),
     }));
   },
+
+  /**
+   * Set Session Under Review
+   *
+   * Opens the optional note, rating and project link prompt for a
+   * freshly saved session. Passing null dismisses the prompt.
+   *
+   * @param {number | null} id - Session to review, or null to close
+   */
+  setReviewSessionId: (id) => set({ reviewSessionId: id }),
 }));
@@ -0,0 +1,71 @@
+/**
+ * Focus Goals Store - Focus Time Targets
+ *
+ * Zustand store for focus goals such as "10 hours of #thesis per week". A
+ * goal is a target number of hours per day, week or month, for one tag or
+ * for all focus time. Progress is worked out from the focus sessions with
+ * the helpers in `lib/focusGoals`.
+ *
+ * @fileoverview Focus goal state and persistence
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import db, { type FocusGoal } from "@/lib/db";
+import type { GoalPeriod } from "@/lib/focusGoals";
+
+export type { FocusGoal };
+
+/**
+ * Goals State Interface
+ */
+interface GoalsState {
+  goals: FocusGoal[];
+  loadGoals: () => Promise<void>;
+  /**
+   * Add a goal
+   *
+   * @param tag - Tag to count, or undefined for all focus time
+   * @param period - Day, week or month the target is for
+   * @param targetHours - Target focus time in hours
+   */
+  addGoal: (tag: string | undefined, period: GoalPeriod, targetHours: number) => Promise<void>;
+  updateGoal: (id: number, updates: Partial<Pick<FocusGoal, "tag" | "period" | "targetHours">>) => Promise<void>;
+  removeGoal: (id: number) => Promise<void>;
+}
+
+/**
+ * Focus Goals Store
+ *
+ * @hook
+ * @returns {GoalsState} Focus goals and operations
+ */
+export const useGoals = create<GoalsState>((set, get) => ({
+  goals: [],
+
+  loadGoals: async () => {
+    try {
+      set({ goals: await db.goals.toArray() });
+    } catch (error) {
+      console.error("Failed to load focus goals:", error);
+    }
+  },
+
+  addGoal: async (tag, period, targetHours) => {
+    const now = new Date();
+    const goal: FocusGoal = { tag, period, targetHours, createdAt: now, updatedAt: now };
+    goal.id = await db.goals.add(goal);
+    set({ goals: [...get().goals, goal] });
+  },
+
+  updateGoal: async (id, updates) => {
+    const changes = { ...updates, updatedAt: new Date() };
+    await db.goals.update(id, changes);
+    set((state) => ({ goals: state.goals.map((g) => (g.id === id ? { ...g, ...changes } : g)) }));
+  },
+
+  removeGoal: async (id) => {
+    await db.goals.delete(id);
+    set((state) => ({ goals: state.goals.filter((g) => g.id !== id) }));
+  },
+}));
@@ -0,0 +1,142 @@
+/**
+ * Invoices Store - Project Invoices with Sequential Numbering
+ *
+ * Zustand store for invoices generated from project milestones or from
+ * tracked focus time. Invoices are numbered in sequence across all projects
+ * and stored in IndexedDB. Marking an invoice paid also moves the milestones
+ * it bills for to "Paid".
+ *
+ * @fileoverview Invoice state management and persistence
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import db, { type Invoice, type InvoiceLine } from "@/lib/db";
+import { useProjects } from "@/hooks/useProjects";
+
+export type { Invoice, InvoiceLine };
+
+/**
+ * Fields supplied when creating an invoice; the number, status, total and
+ * timestamps are filled in by the store.
+ */
+export type InvoiceDraft = Omit<
+  Invoice,
+  "id" | "number" | "status" | "total" | "paidAt" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Invoices State Interface
+ */
+interface InvoicesState {
+  /** All invoices, newest first */
+  invoices: Invoice[];
+  /** Loading state */
+  loadingInvoices: boolean;
+  /** Load all invoices from the database */
+  loadInvoices: () => Promise<void>;
+  /** Create an invoice with the next number in sequence */
+  createInvoice: (draft: InvoiceDraft) => Promise<Invoice>;
+  /** Mark an invoice paid and move its milestones to "Paid" */
+  markInvoicePaid: (id: number) => Promise<void>;
+  /** Delete an invoice */
+  deleteInvoice: (id: number) => Promise<void>;
+  /** Get the invoices of a project, newest first */
+  getInvoicesForProject: (projectId: number) => Invoice[];
+}
+
+/**
+ * Invoices Store
+ *
+ * @hook
+ * @returns {InvoicesState} Invoice state and operations
+ */
+export const useInvoices = create<InvoicesState>((set, get) => ({
+  invoices: [],
+  loadingInvoices: true,
+
+  /**
+   * Load All Invoices
+   */
+  loadInvoices: async () => {
+    set({ loadingInvoices: true });
+    try {
+      const invoices = await db.invoices.orderBy("number").reverse().toArray();
+      set({ invoices });
+    } catch (error) {
+      console.error("Failed to load invoices:", error);
+    } finally {
+      set({ loadingInvoices: false });
+    }
+  },
+
+  /**
+   * Create Invoice
+   *
+   * Reads the highest number and adds the invoice in one transaction so two
+   * invoices can never share a number.
+   */
+  createInvoice: async (draft) => {
+    const now = new Date();
+    const total = Math.round(draft.lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+    const invoice = await db.transaction("rw", db.invoices, async () => {
+      const last = await db.invoices.orderBy("number").last();
+      const created: Invoice = {
+        ...draft,
+        number: (last?.number ?? 0) + 1,
+        status: "Unpaid",
+        total,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const id = await db.invoices.add(created);
+      return { ...created, id };
+    });
+
+    set((state) => ({ invoices: [invoice, ...state.invoices] }));
+    return invoice;
+  },
+
+  /**
+   * Mark Invoice Paid
+   */
+  markInvoicePaid: async (id) => {
+    const invoice = get().invoices.find((i) => i.id === id);
+    if (!invoice) return;
+
+    const now = new Date();
+    const updates = { status: "Paid" as const, paidAt: now, updatedAt: now };
+    await db.invoices.update(id, updates);
+
+    set((state) => ({
+      invoices: state.invoices.map((i) => (i.id === id ? { ...i, ...updates } : i)),
+    }));
+
+    // Settle the milestones the invoice billed for
+    const { updateMilestone } = useProjects.getState();
+    const milestoneIds = new Set(
+      invoice.lines
+        .map((line) => line.milestoneId)
+        .filter((milestoneId): milestoneId is number => milestoneId !== undefined)
+    );
+    await Promise.all([...milestoneIds].map((milestoneId) => updateMilestone(milestoneId, { status: "Paid" })));
+  },
+
+  /**
+   * Delete Invoice
+   */
+  deleteInvoice: async (id) => {
+    await db.invoices.delete(id);
+    set((state) => ({
+      invoices: state.invoices.filter((i) => i.id !== id),
+    }));
+  },
+
+  /**
+   * Get Invoices for Project
+   */
+  getInvoicesForProject: (projectId) => {
+    return get().invoices.filter((i) => i.projectId === projectId);
+  },
+}));
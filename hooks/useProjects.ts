@@ -35,6 +35,8 @@
 
 import { create } from "zustand";
 import db, { QuickLink } from "@/lib/db";
+import { useFocus, type FocusLink, type FocusSession } from "@/hooks/useFocus";
+import { getFocusedSeconds } from "@/lib/utils";
 
 /**
  * Project Data Interface
@@ -56,6 +58,8 @@ export interface Project {
   updatedAt: Date;
   /** Quick links */
   quickLinks: QuickLink[];
+  /** Hourly rate used when invoicing tracked time */
+  hourlyRate?: number;
 }
 
 /**
@@ -94,8 +98,10 @@ export interface Issue {
   label: string;
   /** Issue due date (optional) */
   dueDate?: Date;
-  /** Issue status */
-  status: "Open" | "Close";
+  /** Estimated effort in minutes (optional) */
+  estimateMinutes?: number;
+  /** Issue status on the board workflow */
+  status: IssueStatus;
   /** Issue description */
   description: string;
   /** Creation timestamp */
@@ -114,6 +120,8 @@ export interface MilestoneWithProgress extends Milestone {
   completedIssues: number;
   /** Total number of issues */
   totalIssues: number;
+  /** Focused seconds tracked against the milestone and its issues */
+  trackedSeconds: number;
 }
 
 /**
@@ -126,6 +134,8 @@ export interface ProjectWithStats extends Project {
   progress: number;
   /** Total project budget (sum of milestone budgets) */
   totalBudget: number;
+  /** Focused seconds tracked against the project, its milestones and issues */
+  trackedSeconds: number;
 }
 
 /**
@@ -163,6 +173,13 @@ export const ISSUE_LABELS = [
 
 export type IssueLabel = (typeof ISSUE_LABELS)[number];
 
+/**
+ * Issue Workflow Statuses, in board column order
+ */
+export const ISSUE_STATUSES = ["Backlog", "In Progress", "Review", "Done"] as const;
+
+export type IssueStatus = (typeof ISSUE_STATUSES)[number];
+
 /**
  * Projects State Management Interface
  */
@@ -212,7 +229,8 @@ interface ProjectsState {
     title: string,
     label: string,
     dueDate: Date | undefined,
-    description: string
+    description: string,
+    estimateMinutes?: number
   ) => Promise<void>;
   /** Update an existing issue */
   updateIssue: (id: number, updates: Partial<Issue>) => Promise<void>;
@@ -230,6 +248,10 @@ interface ProjectsState {
   getIssuesForMilestone: (milestoneId: number) => Issue[];
   /** Get issues due within the next N days with project context */
   getUpcomingIssues: () => CategorizedUpcomingIssues;
+  /** Get the project, milestone and issue titles a focus session is linked to */
+  getFocusLinkTitles: (link: FocusLink) => string[];
+  /** Get the focused seconds tracked against an issue */
+  getTrackedSecondsForIssue: (issueId: number) => number;
 
   // Quick Link operations
   /** Add a new quick link to a project */
@@ -240,6 +262,21 @@ interface ProjectsState {
   deleteQuickLink: (projectId: number, quickLinkId: string) => Promise<void>;
 }
 
+/**
+ * Sums the focused time of the loaded focus sessions that match a filter.
+ * Linked sessions store every parent of what they link to, so filtering by
+ * project or milestone also counts time spent on their issues.
+ *
+ * @param matches - Selects the sessions to count
+ * @returns Focused seconds
+ */
+function sumTrackedSeconds(matches: (session: FocusSession) => boolean): number {
+  return useFocus
+    .getState()
+    .focusSessions.filter(matches)
+    .reduce((sum, session) => sum + getFocusedSeconds(session), 0);
+}
+
 /**
  * Projects Management Store
  *
@@ -413,17 +450,18 @@ export const useProjects = create<ProjectsState>((set, get) => ({
   /**
    * Add New Issue
    */
-  addIssue: async (milestoneId, title, label, dueDate, description) => {
+  addIssue: async (milestoneId, title, label, dueDate, description, estimateMinutes) => {
     const now = new Date();
     const issueData = {
       milestoneId,
       title,
       label,
-      status: "Open" as "Open" | "Close",
+      status: "Backlog" as IssueStatus,
       description,
       createdAt: now,
       updatedAt: now,
       ...(dueDate && { dueDate }),
+      ...(estimateMinutes && { estimateMinutes }),
     };
 
     const id = await db.issues.add(issueData);
@@ -437,7 +475,8 @@ export const useProjects = create<ProjectsState>((set, get) => ({
           title,
           label,
           dueDate,
-          status: "Open" as "Open" | "Close",
+          estimateMinutes,
+          status: "Backlog" as IssueStatus,
           description,
           createdAt: now,
           updatedAt: now,
@@ -496,6 +535,7 @@ export const useProjects = create<ProjectsState>((set, get) => ({
       milestones,
       progress: Math.round(progress),
       totalBudget,
+      trackedSeconds: sumTrackedSeconds((s) => s.projectId === id),
     };
   },
 
@@ -520,7 +560,7 @@ export const useProjects = create<ProjectsState>((set, get) => ({
 
     return milestones.map((milestone) => {
       const issues = state.issues.filter((i) => i.milestoneId === milestone.id);
-      const completedIssues = issues.filter((i) => i.status === "Close").length;
+      const completedIssues = issues.filter((i) => i.status === "Done").length;
       const totalIssues = issues.length;
 
       let progress =
@@ -533,10 +573,33 @@ export const useProjects = create<ProjectsState>((set, get) => ({
         progress,
         completedIssues,
         totalIssues,
+        trackedSeconds: sumTrackedSeconds((s) => s.milestoneId === milestone.id),
       };
     });
   },
 
+  /**
+   * Get Focus Link Titles
+   *
+   * Resolves a focus session link to its titles, outermost first
+   * (project, milestone, issue). Deleted items are left out.
+   */
+  getFocusLinkTitles: ({ projectId, milestoneId, issueId }) => {
+    const state = get();
+    return [
+      state.projects.find((p) => p.id === projectId)?.title,
+      state.milestones.find((m) => m.id === milestoneId)?.title,
+      state.issues.find((i) => i.id === issueId)?.title,
+    ].filter((title): title is string => Boolean(title));
+  },
+
+  /**
+   * Get Tracked Seconds for Issue
+   */
+  getTrackedSecondsForIssue: (issueId) => {
+    return sumTrackedSeconds((s) => s.issueId === issueId);
+  },
+
   /**
    * Get Issues for Milestone
    */
@@ -601,8 +664,8 @@ export const useProjects = create<ProjectsState>((set, get) => ({
     };
 
     for (const issue of state.issues) {
-      // Only include open issues with due dates
-      if (issue.dueDate && issue.status === "Open") {
+      // Only include unfinished issues with due dates
+      if (issue.dueDate && issue.status !== "Done") {
         const dueDate = new Date(issue.dueDate);
 
         // Find milestone and project for this issue
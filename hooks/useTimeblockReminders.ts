@@ -0,0 +1,128 @@
+/**
+ * Timeblock Reminders Store - Notifications Before Planned Blocks
+ *
+ * Zustand store for the reminder settings and for picking the timeblock
+ * occurrences that are due a reminder. A reminder is due from the lead time
+ * before a block starts until shortly after it started, so a block that
+ * starts while the app is closed is still announced when it is opened.
+ *
+ * Settings are kept in localStorage, as are the reminders already given, so
+ * a block is announced once even with several tabs open.
+ *
+ * @fileoverview Timeblock reminder settings and scheduling
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import type { TimeBlock } from "@/lib/db";
+import { expandTimeblocks, type TimeblockOccurrence } from "@/lib/timeblockRecurrence";
+
+/**
+ * Reminder Settings Interface
+ */
+export interface TimeblockReminderSettings {
+  enabled: boolean;
+  /** Minutes before the start of a block to remind */
+  leadMinutes: number;
+  /** Play the notification sound with a reminder */
+  sound: boolean;
+}
+
+export const DEFAULT_TIMEBLOCK_REMINDER_SETTINGS: TimeblockReminderSettings = {
+  enabled: true,
+  leadMinutes: 5,
+  sound: true,
+};
+
+/** Longest lead time that can be set, in minutes */
+export const MAX_REMINDER_LEAD_MINUTES = 120;
+
+/** How long after a block started it is still announced */
+const LATE_REMINDER_MS = 5 * 60 * 1000;
+
+/** localStorage key for the settings */
+const SETTINGS_STORAGE_KEY = "timeblockReminderSettings";
+
+/** localStorage key for the reminders already given */
+const NOTIFIED_STORAGE_KEY = "timeblockRemindersNotified";
+
+function loadSettings(): TimeblockReminderSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null");
+    return { ...DEFAULT_TIMEBLOCK_REMINDER_SETTINGS, ...saved };
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    console.warn("Failed to parse timeblock reminder settings from localStorage");
+    return DEFAULT_TIMEBLOCK_REMINDER_SETTINGS;
+  }
+}
+
+/** Reminders given, as occurrence key → start time in milliseconds */
+function loadNotified(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_STORAGE_KEY) ?? "{}");
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    return {};
+  }
+}
+
+function occurrenceKey(occurrence: TimeblockOccurrence): string {
+  return `${occurrence.timeblock.id}@${occurrence.start.getTime()}`;
+}
+
+/**
+ * Timeblock Reminders State Interface
+ */
+interface TimeblockRemindersState {
+  settings: TimeblockReminderSettings;
+  loadReminderSettings: () => void;
+  updateReminderSettings: (updates: Partial<TimeblockReminderSettings>) => void;
+  /**
+   * Occurrences due a reminder that weren't announced yet. They are marked as
+   * announced, so each is returned once.
+   *
+   * @param timeblocks - All timeblocks
+   * @param now - Current time
+   */
+  takeDueReminders: (timeblocks: TimeBlock[], now: Date) => TimeblockOccurrence[];
+}
+
+/**
+ * Timeblock Reminders Store
+ *
+ * @hook
+ * @returns {TimeblockRemindersState} Reminder settings and scheduling
+ */
+export const useTimeblockReminders = create<TimeblockRemindersState>((set, get) => ({
+  settings: DEFAULT_TIMEBLOCK_REMINDER_SETTINGS,
+
+  loadReminderSettings: () => set({ settings: loadSettings() }),
+
+  updateReminderSettings: (updates) => {
+    const settings = { ...get().settings, ...updates };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    set({ settings });
+  },
+
+  takeDueReminders: (timeblocks, now) => {
+    const { enabled, leadMinutes } = get().settings;
+    if (!enabled) return [];
+
+    const from = new Date(now.getTime() - LATE_REMINDER_MS);
+    const to = new Date(now.getTime() + leadMinutes * 60 * 1000);
+    const notified = loadNotified();
+    const due = expandTimeblocks(timeblocks, from, to).filter(
+      (o) => o.start > from && o.start <= to && !(occurrenceKey(o) in notified)
+    );
+    if (!due.length) return [];
+
+    // Forget reminders for blocks that started long ago
+    const kept = Object.fromEntries(
+      Object.entries(notified).filter(([, start]) => start > from.getTime())
+    );
+    for (const occurrence of due) kept[occurrenceKey(occurrence)] = occurrence.start.getTime();
+    localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(kept));
+    return due;
+  },
+}));
@@ -0,0 +1,77 @@
+/**
+ * Timeblock Templates Store - Saved Day and Week Plans
+ *
+ * Zustand store for named timeblock templates such as "Maker day" or
+ * "Meeting week". Templates are persisted to localStorage, so they travel
+ * with the preferences in backups. Saving a template under an existing
+ * name of the same kind replaces it.
+ *
+ * @fileoverview Timeblock template state and persistence
+ * @author BIT Focus Development Team
+ */
+
+import { create } from "zustand";
+import { persist, type PersistStorage } from "zustand/middleware";
+import type { TemplateBlock, TemplateKind, TimeblockTemplate } from "@/lib/timeblockTemplates";
+
+export type { TimeblockTemplate };
+
+/**
+ * Timeblock Templates State Interface
+ */
+interface TimeblockTemplatesState {
+  templates: TimeblockTemplate[];
+  saveTemplate: (name: string, kind: TemplateKind, blocks: TemplateBlock[]) => TimeblockTemplate;
+  removeTemplate: (id: string) => void;
+}
+
+const storage: PersistStorage<TimeblockTemplatesState> = {
+  getItem: (key) => {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : null;
+  },
+  setItem: (key, value) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  removeItem: (key) => {
+    localStorage.removeItem(key);
+  },
+};
+
+/**
+ * Timeblock Templates Store
+ *
+ * @hook
+ * @returns {TimeblockTemplatesState} Templates and operations
+ */
+export const useTimeblockTemplates = create<TimeblockTemplatesState>()(
+  persist(
+    (set, get) => ({
+      templates: [],
+
+      saveTemplate: (name, kind, blocks) => {
+        const existing = get().templates.find((t) => t.kind === kind && t.name === name);
+        const template: TimeblockTemplate = {
+          id: existing?.id ?? crypto.randomUUID(),
+          name,
+          kind,
+          blocks,
+        };
+        set({
+          templates: [...get().templates.filter((t) => t.id !== template.id), template].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          ),
+        });
+        return template;
+      },
+
+      removeTemplate: (id) => {
+        set({ templates: get().templates.filter((t) => t.id !== id) });
+      },
+    }),
+    {
+      name: "timeblock-templates",
+      storage,
+    }
+  )
+);
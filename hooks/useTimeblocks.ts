@@ -1,26 +1,65 @@
 import { create } from "zustand";
+import dayjs from "dayjs";
 import db from "@/lib/db";
-import type { TimeBlock } from "@/lib/db";
+import type { TimeBlock, TimeblockRecurrence } from "@/lib/db";
+import {
+  countOccurrencesBefore,
+  endRecurrenceBefore,
+  shiftRecurrenceDays,
+  type RecurrenceScope,
+  type TimeblockOccurrence,
+} from "@/lib/timeblockRecurrence";
+import { findPlanConflicts, type ConflictStrategy, type PlannedBlock } from "@/lib/timeblockTemplates";
 
-export type { TimeBlock };
+export type { TimeBlock, TimeblockRecurrence };
 
 interface TimeblocksState {
   timeblocks: TimeBlock[];
   loadingTimeblocks: boolean;
-  addTimeblock: (tag: string, startTime: Date, endTime: Date, title?: string) => Promise<void>;
+  addTimeblock: (
+    tag: string,
+    startTime: Date,
+    endTime: Date,
+    title?: string,
+    recurrence?: TimeblockRecurrence
+  ) => Promise<void>;
   loadTimeblocks: () => Promise<void>;
   removeTimeblock: (id: number) => Promise<void>;
   editTimeblock: (id: number, updates: Partial<TimeBlock>) => Promise<void>;
+  /**
+   * Move or resize one occurrence of a repeating timeblock, or it and all
+   * later ones. Changing only one takes it out of the series as a single
+   * timeblock; changing later ones splits the series at that occurrence.
+   */
+  editOccurrence: (
+    id: number,
+    occurrenceStart: Date,
+    times: { startTime: Date; endTime: Date },
+    scope: RecurrenceScope
+  ) => Promise<void>;
+  /** Remove one occurrence of a repeating timeblock, or it and all later ones */
+  removeOccurrence: (id: number, occurrenceStart: Date, scope: RecurrenceScope) => Promise<void>;
+  /**
+   * Add planned timeblocks, e.g. from a template or a copied week, resolving
+   * overlaps with existing timeblocks by `strategy`.
+   *
+   * @returns How many blocks were added and skipped, and how many existing ones were replaced
+   */
+  applyPlan: (
+    planned: PlannedBlock[],
+    strategy: ConflictStrategy
+  ) => Promise<{ added: number; skipped: number; replaced: number }>;
 }
 
-export const useTimeblocks = create<TimeblocksState>((set) => ({
+export const useTimeblocks = create<TimeblocksState>((set, get) => ({
   timeblocks: [],
   loadingTimeblocks: true,
 
-  addTimeblock: async (tag, startTime, endTime, title) => {
-    const id = await db.timeblocks.add({ tag, startTime, endTime, title });
+  addTimeblock: async (tag, startTime, endTime, title, recurrence) => {
+    const block: TimeBlock = { tag, startTime, endTime, title, ...(recurrence && { recurrence }) };
+    const id = await db.timeblocks.add(block);
     set((state) => ({
-      timeblocks: [{ id, tag, startTime, endTime, title }, ...state.timeblocks],
+      timeblocks: [{ ...block, id }, ...state.timeblocks],
     }));
   },
 
@@ -51,4 +90,96 @@ export const useTimeblocks = create<TimeblocksState>((set) => ({
       ),
     }));
   },
+
+  editOccurrence: async (id, occurrenceStart, { startTime, endTime }, scope) => {
+    const series = get().timeblocks.find((b) => b.id === id);
+    if (!series?.recurrence) return get().editTimeblock(id, { startTime, endTime });
+
+    const exceptions = (series.exceptions ?? []).map((e) => new Date(e));
+    const { tag, title, mode, projectId, milestoneId, issueId } = series;
+    const details = { tag, title, mode, projectId, milestoneId, issueId };
+
+    if (scope === "this") {
+      await db.transaction("rw", db.timeblocks, async () => {
+        await db.timeblocks.update(id, { exceptions: [...exceptions, occurrenceStart] });
+        await db.timeblocks.add({ ...details, startTime, endTime });
+      });
+      return get().loadTimeblocks();
+    }
+
+    // Later occurrences move by the same amount, and weekly ones to the same new weekday
+    const shift = startTime.getTime() - occurrenceStart.getTime();
+    const dayShift = dayjs(startTime).startOf("day").diff(dayjs(occurrenceStart).startOf("day"), "day");
+    const later = exceptions
+      .filter((e) => e >= occurrenceStart)
+      .map((e) => new Date(e.getTime() + shift));
+    const earlier = exceptions.filter((e) => e < occurrenceStart);
+    const before = countOccurrencesBefore(series, occurrenceStart);
+
+    const recurrence = { ...shiftRecurrenceDays(series.recurrence, dayShift) };
+    if (recurrence.count !== undefined) recurrence.count -= before;
+
+    await db.transaction("rw", db.timeblocks, async () => {
+      if (before === 0) {
+        await db.timeblocks.update(id, { startTime, endTime, recurrence, exceptions: later });
+      } else {
+        await db.timeblocks.update(id, {
+          recurrence: endRecurrenceBefore(series, occurrenceStart),
+          exceptions: earlier,
+        });
+        await db.timeblocks.add({ ...details, startTime, endTime, recurrence, exceptions: later });
+      }
+    });
+    return get().loadTimeblocks();
+  },
+
+  removeOccurrence: async (id, occurrenceStart, scope) => {
+    const series = get().timeblocks.find((b) => b.id === id);
+    if (!series?.recurrence) return get().removeTimeblock(id);
+
+    const exceptions = (series.exceptions ?? []).map((e) => new Date(e));
+    if (scope === "this") {
+      return get().editTimeblock(id, { exceptions: [...exceptions, occurrenceStart] });
+    }
+    if (countOccurrencesBefore(series, occurrenceStart) === 0) {
+      return get().removeTimeblock(id);
+    }
+    return get().editTimeblock(id, {
+      recurrence: endRecurrenceBefore(series, occurrenceStart),
+      exceptions: exceptions.filter((e) => e < occurrenceStart),
+    });
+  },
+
+  applyPlan: async (planned, strategy) => {
+    const results = findPlanConflicts(planned, get().timeblocks);
+    const toAdd =
+      strategy === "skip" ? results.filter((r) => !r.conflicts.length).map((r) => r.block) : planned;
+
+    const replaced = new Map<string, TimeblockOccurrence>();
+    if (strategy === "replace") {
+      for (const o of results.flatMap((r) => r.conflicts)) {
+        replaced.set(`${o.timeblock.id}@${o.start.getTime()}`, o);
+      }
+    }
+
+    await db.transaction("rw", db.timeblocks, async () => {
+      // Single blocks are deleted; occurrences of repeating ones become exceptions
+      const removedStarts = new Map<number, Date[]>();
+      for (const { timeblock, start } of replaced.values()) {
+        removedStarts.set(timeblock.id!, [...(removedStarts.get(timeblock.id!) ?? []), start]);
+      }
+      for (const [id, starts] of removedStarts) {
+        const block = await db.timeblocks.get(id);
+        if (!block?.recurrence) {
+          await db.timeblocks.delete(id);
+        } else {
+          await db.timeblocks.update(id, { exceptions: [...(block.exceptions ?? []), ...starts] });
+        }
+      }
+      await db.timeblocks.bulkAdd(toAdd);
+    });
+
+    await get().loadTimeblocks();
+    return { added: toAdd.length, skipped: planned.length - toAdd.length, replaced: replaced.size };
+  },
 }));
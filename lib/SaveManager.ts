@@ -8,15 +8,18 @@
  *
  * Features:
  * - Complete application data export to JSON format
- * - Data import with validation and error handling
+ * - Versioned backup format validated with zod before any data is replaced
+ * - Explicit migrations for backups from older versions
  * - Local storage and IndexedDB backup/restore
  * - Date serialization and deserialization
  * - Atomic import operations with rollback capability
+ * - Merge imports that combine a backup with existing data
  * - Custom .bitf.json file format for data integrity
+ * - Optional passphrase encryption into .bitf.enc files
  * - Full project management data support
  *
  * Data Coverage:
- * - All IndexedDB tables (configuration, focus, notes, projects, milestones, issues)
+ * - All IndexedDB tables (configuration, focus, notes, projects, milestones, issues, invoices, timeblocks)
  * - Complete localStorage state
  * - Proper date object handling including optional dates
  * - Maintains data relationships and integrity
@@ -31,6 +34,9 @@
  *
  * Dependencies:
  * - Database instance for IndexedDB operations
+ * - Backup format schemas and migrations (./backupFormat)
+ * - Natural-key merging (./backupMerge)
+ * - WebCrypto passphrase encryption (./backupCrypto)
  * - Browser File API for download/upload
  * - JSON serialization for data format
  *
@@ -40,121 +46,115 @@
  * @updated v0.9.7-alpha
  */
 
-import db, { type ExcalidrawSceneData, type AIConfig, QuickLink } from "./db";
+import type { Table } from "dexie";
+import db from "./db";
+import {
+  parseBackup,
+  reviveBackup,
+  BackupValidationError,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLES,
+  type BackupPart,
+  type BackupTable,
+  type ExportedData,
+} from "./backupFormat";
+import { mergeBackup, type MergeSummary } from "./backupMerge";
+import {
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+  ENCRYPTED_BACKUP_EXTENSION,
+} from "./backupCrypto";
+import { lastOccurrenceStart } from "./timeblockRecurrence";
+
+export {
+  BackupValidationError,
+  BACKUP_TABLES,
+  type BackupPart,
+  type BackupTable,
+  type ExportedData,
+  type MergeSummary,
+};
+
+/** IndexedDB table behind each backup table */
+const backupTables: Record<BackupTable, Table> = {
+  configuration: db.configuration,
+  focus: db.focus,
+  notes: db.notes,
+  projects: db.projects,
+  milestones: db.milestones,
+  issues: db.issues,
+  invoices: db.invoices,
+  timeblocks: db.timeblocks,
+  goals: db.goals,
+  rewards: db.rewards,
+  discounts: db.discounts,
+  excalidraw: db.excalidraw,
+  aiChats: db.aiChats,
+  aiConfig: db.aiConfig,
+};
 
 /**
- * Enhanced Exported Data Structure Interface
- *
- * Defines the complete structure of exported BIT Focus data including
- * both localStorage and IndexedDB contents. Updated to include the
- * complete project management system with projects, milestones, and issues
- * while maintaining backward compatibility.
+ * Filters for a selective export
  */
-type ExportedData = {
-  /** Complete localStorage contents as key-value pairs */
-  localStorage: Record<string, string>;
-  /** All IndexedDB table data with serialized dates */
-  indexedDB: {
-    /** User configuration data */
-    configuration: {
-      name: string;
-      dob: string; // Serialized as ISO string
-      webhook: string;
-      currency: string;
-    }[];
-    /** Focus session records */
-    focus: {
-      id?: number;
-      tag: string;
-      startTime: string; // Serialized as ISO string
-      endTime: string; // Serialized as ISO string
-    }[];
-    /** Note and document records */
-    notes: {
-      id?: number;
-      title: string;
-      type: "document" | "board";
-      parentId?: number | null;
-      content?: string;
-      boardData?: { category: string; children: number[] }[];
-      createdAt: string; // Serialized as ISO string
-      updatedAt: string; // Serialized as ISO string
-    }[];
-    /** Project records */
-    projects: {
-      id?: number;
-      title: string;
-      status: "Scheduled" | "Active" | "Closed";
-      notes: string;
-      version: string;
-      quickLinks: QuickLink[];
-      createdAt: string; // Serialized as ISO string
-      updatedAt: string; // Serialized as ISO string
-    }[];
-    /** Milestone records */
-    milestones: {
-      id?: number;
-      projectId: number;
-      title: string;
-      status: "Scheduled" | "Active" | "Closed" | "Paid";
-      deadline?: string; // Serialized as ISO string (optional)
-      budget: number;
-      createdAt: string; // Serialized as ISO string
-      updatedAt: string; // Serialized as ISO string
-    }[];
-    /** Issue records */
-    issues: {
-      id?: number;
-      milestoneId: number;
-      title: string;
-      label: string;
-      dueDate?: string; // Serialized as ISO string (optional)
-      status: "Open" | "Close";
-      description: string;
-      createdAt: string; // Serialized as ISO string
-      updatedAt: string; // Serialized as ISO string
-    }[];
-    rewards: {
-      id?: number;
-      title: string;
-      description?: string;
-      cost: number;
-      category?: string;
-      emoji?: string;
-      createdAt: string;
-      updatedAt: string;
-    }[];
-    discounts: {
-      id?: number;
-      title: string;
-      percentage: number;
-      active: boolean;
-      createdAt: string;
-      updatedAt: string;
-    }[];
-    /** Excalidraw scene records */
-    excalidraw: {
-      id?: number | string;
-      title: string;
-      sceneData: ExcalidrawSceneData | string;
-      thumbnail?: string;
-      createdAt: string;
-      updatedAt: string;
-    }[];
-    /** AI chat records */
-    aiChats: {
-      id: string;
-      title: string;
-      modelId: string;
-      provider: string;
-      messages: string;
-      createdAt: string;
-      updatedAt: string;
-    }[];
-    /** AI config */
-    aiConfig: AIConfig[];
-  };
-};
+export interface ExportOptions {
+  /** Tables to export; others are written empty (default: all) */
+  tables?: readonly BackupTable[];
+  /** Whether to include localStorage (default: true) */
+  localStorage?: boolean;
+  /** Earliest focus session or timeblock start to include */
+  from?: Date;
+  /** Latest focus session or timeblock start to include */
+  to?: Date;
+  /**
+   * Projects to export with their milestones, issues and invoices. Focus
+   * sessions linked to other projects are left out (default: all projects)
+   */
+  projectIds?: readonly number[];
+  /** Blank out AI API keys and the webhook URL (default: false) */
+  omitSecrets?: boolean;
+  /** Encrypt the backup file with this passphrase (file exports only) */
+  passphrase?: string;
+}
+
+/**
+ * Parts of a backup to restore
+ */
+export interface ImportOptions {
+  /** Tables to replace; tables left out keep their current data (default: all in the backup) */
+  tables?: readonly BackupTable[];
+  /** Whether to replace localStorage (default: true when the backup has it) */
+  localStorage?: boolean;
+}
+
+/**
+ * Earliest and latest focus session start
+ */
+export interface FocusDateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * What a full import would change, shown before the user confirms
+ */
+export interface ImportPreview {
+  /** Row counts per table, now and in the backup, and whether the backup includes it */
+  tables: Record<BackupTable, { current: number; incoming: number; included: boolean }>;
+  /** Span of focus sessions, now and in the backup */
+  focusRange: { current: FocusDateRange | null; incoming: FocusDateRange | null };
+  /** Project titles only in the backup (added) or only local (removed) */
+  projects: { added: string[]; removed: string[] };
+  /** localStorage keys replaced with a different value, or dropped */
+  localStorage: { overwritten: string[]; removed: string[]; included: boolean };
+}
+
+/** Span of a list of focus sessions, or null when there are none */
+function focusRangeOf(sessions: { startTime: Date }[]): FocusDateRange | null {
+  if (sessions.length === 0) return null;
+  const times = sessions.map((s) => s.startTime.getTime());
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+}
 
 /**
  * Enhanced Save Manager Class
@@ -178,6 +178,7 @@ class SaveManager {
    *
    * @static
    * @async
+   * @param {ExportOptions} [options] - Tables, date range, projects, secrets and passphrase
    * @returns {Promise<void>} Resolves when export is complete
    * @throws {Error} If export process fails
    *
@@ -194,95 +195,47 @@ class SaveManager {
    *
    * @see {@link ExportedData} for exported data structure
    */
-  static async exportData(): Promise<void> {
-    // Initialize export data structure
-    const data: ExportedData = {
-      localStorage: {},
-      indexedDB: {
-        // Serialize configuration data with date conversion
-        configuration: (await db.configuration.toArray()).map((c) => ({
-          ...c,
-          dob: c.dob.toISOString(),
-        })),
-        // Serialize focus sessions with date conversion
-        focus: (await db.focus.toArray()).map((f) => ({
-          ...f,
-          startTime: f.startTime.toISOString(),
-          endTime: f.endTime.toISOString(),
-        })),
-        // Serialize notes with date conversion
-        notes: (await db.notes.toArray()).map((n) => ({
-          ...n,
-          createdAt: n.createdAt.toISOString(),
-          updatedAt: n.updatedAt.toISOString(),
-        })),
-        // Serialize projects with date conversion
-        projects: (await db.projects.toArray()).map((p) => ({
-          ...p,
-          createdAt: p.createdAt.toISOString(),
-          updatedAt: p.updatedAt.toISOString(),
-        })),
-        // Serialize milestones with date conversion (including optional deadline)
-        milestones: (await db.milestones.toArray()).map((m) => ({
-          ...m,
-          deadline: m.deadline ? m.deadline.toISOString() : undefined,
-          createdAt: m.createdAt.toISOString(),
-          updatedAt: m.updatedAt.toISOString(),
-        })),
-        // Serialize issues with date conversion (including optional dueDate)
-        issues: (await db.issues.toArray()).map((i) => ({
-          ...i,
-          dueDate: i.dueDate ? i.dueDate.toISOString() : undefined,
-          createdAt: i.createdAt.toISOString(),
-          updatedAt: i.updatedAt.toISOString(),
-        })),
-        // Serialize rewards with date conversion
-        rewards: (await db.rewards.toArray()).map((r) => ({
-          ...r,
-          createdAt: r.createdAt.toISOString(),
-          updatedAt: r.updatedAt.toISOString(),
-        })),
-        // Serialize discounts with date conversion
-        discounts: (await db.discounts.toArray()).map((d) => ({
-          ...d,
-          createdAt: d.createdAt.toISOString(),
-          updatedAt: d.updatedAt.toISOString(),
-        })),
-        // Serialize excalidraw scenes with date conversion
-        excalidraw: (await db.excalidraw.toArray()).map((e) => ({
-          ...e,
-          createdAt: e.createdAt.toISOString(),
-          updatedAt: e.updatedAt.toISOString(),
-        })),
-        aiChats: (await db.aiChats.toArray()).map((c) => ({
-          ...c,
-          createdAt: c.createdAt.toISOString(),
-          updatedAt: c.updatedAt.toISOString(),
-        })),
-        aiConfig: await db.aiConfig.toArray(),
-      },
-    };
+  static async exportData(options: ExportOptions = {}): Promise<void> {
+    const { blob, filename } = await SaveManager.exportFile(options);
 
-    // Export localStorage contents
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key) {
-        data.localStorage[key] = localStorage.getItem(key) || "";
-      }
-    }
-
-    // Create and download backup file
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: "application/json",
-    });
+    // Download backup file
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `data-${new Date().toISOString()}.bitf.json`;
+    a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
   }
 
+  /**
+   * Export Application Data as a Backup File (No Download)
+   *
+   * Builds the backup file contents for download or upload: plain
+   * .bitf.json, or a .bitf.enc file when a passphrase is given.
+   *
+   * @static
+   * @async
+   * @param {ExportOptions} [options] - What to export and an optional passphrase
+   * @returns {Promise<{ blob: Blob; filename: string }>} File contents and suggested name
+   */
+  static async exportFile(options: ExportOptions = {}): Promise<{ blob: Blob; filename: string }> {
+    const data = await SaveManager.exportJSON(options);
+    const timestamp = new Date().toISOString();
+
+    if (options.passphrase) {
+      const encrypted = await encryptBackup(data, options.passphrase);
+      return {
+        blob: new Blob([JSON.stringify(encrypted)], { type: "application/json" }),
+        filename: `data-${timestamp}${ENCRYPTED_BACKUP_EXTENSION}`,
+      };
+    }
+
+    return {
+      blob: new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+      filename: `data-${timestamp}.bitf.json`,
+    };
+  }
+
   /**
    * Import Application Data from File (Enhanced with Project Management)
    *
@@ -295,8 +248,10 @@ class SaveManager {
    * @static
    * @async
    * @param {File} file - The .bitf.json file to import
+   * @param {ImportOptions} [options] - Tables and localStorage to restore
    * @returns {Promise<void>} Resolves when import is complete
-   * @throws {Error} If file parsing or import process fails
+   * @throws {BackupValidationError} If the file is not a valid backup
+   * @throws {Error} If the import process fails
    *
    * @example
    * ```typescript
@@ -315,225 +270,312 @@ class SaveManager {
    *
    * @see {@link ExportedData} for expected file structure
    */
-  static async importData(file: File): Promise<void> {
-    // Parse and validate file contents
+  static async importData(file: File, options: ImportOptions = {}): Promise<void> {
+    // Validation happens in importJSON before any writes
+    await SaveManager.importJSON(await SaveManager.readBackupFile(file), options);
+  }
+
+  /**
+   * Read a Backup File
+   *
+   * Parses the contents of a .bitf.json file without validating them, so the
+   * same file can be previewed and then imported.
+   *
+   * @static
+   * @async
+   * @param {File} file - The .bitf.json file to read
+   * @returns {Promise<unknown>} Parsed file contents
+   * @throws {BackupValidationError} If the file is not valid JSON
+   */
+  static async readBackupFile(file: File): Promise<unknown> {
     const text = await file.text();
-    const parsed = JSON.parse(text) as unknown;
-
-    // Type assertion - assume correct format (could add validation here)
-    const data = parsed as ExportedData;
-
-    // Deserialize dates and reconstruct data objects
-    const configuration = data.indexedDB.configuration.map((c) => ({
-      ...c,
-      dob: new Date(c.dob),
-    }));
-
-    const focus = data.indexedDB.focus.map((f) => ({
-      ...f,
-      startTime: new Date(f.startTime),
-      endTime: new Date(f.endTime),
-    }));
-
-    const notes = data.indexedDB.notes.map((n) => ({
-      ...n,
-      createdAt: new Date(n.createdAt),
-      updatedAt: new Date(n.updatedAt),
-    }));
-
-    // Deserialize projects with date conversion
-    const projects = (data.indexedDB.projects || []).map((p) => ({
-      ...p,
-      createdAt: new Date(p.createdAt),
-      updatedAt: new Date(p.updatedAt),
-    }));
-
-    // Deserialize milestones with date conversion (including optional deadline)
-    const milestones = (data.indexedDB.milestones || []).map((m) => ({
-      ...m,
-      deadline: m.deadline ? new Date(m.deadline) : undefined,
-      createdAt: new Date(m.createdAt),
-      updatedAt: new Date(m.updatedAt),
-    }));
-
-    // Deserialize issues with date conversion (including optional dueDate)
-    const issues = (data.indexedDB.issues || []).map((i) => ({
-      ...i,
-      dueDate: i.dueDate ? new Date(i.dueDate) : undefined,
-      createdAt: new Date(i.createdAt),
-      updatedAt: new Date(i.updatedAt),
-    }));
-
-    // Deserialize rewards with date conversion
-    const rewards = (data.indexedDB.rewards || []).map((r) => ({
-      ...r,
-      createdAt: new Date(r.createdAt),
-      updatedAt: new Date(r.updatedAt),
-    }));
-
-    // Deserialize discounts with date conversion
-    const discounts = (data.indexedDB.discounts || []).map((d) => ({
-      ...d,
-      createdAt: new Date(d.createdAt),
-      updatedAt: new Date(d.updatedAt),
-    }));
-
-    // Deserialize excalidraw scenes with date conversion
-    const excalidraw = (data.indexedDB.excalidraw || []).map((e) => ({
-      ...e,
-      createdAt: new Date(e.createdAt),
-      updatedAt: new Date(e.updatedAt),
-    }));
-
-    const aiChats = (data.indexedDB.aiChats || []).map((c) => ({
-      ...c,
-      createdAt: new Date(c.createdAt),
-      updatedAt: new Date(c.updatedAt),
-    }));
-
-    const aiConfig = data.indexedDB.aiConfig || [];
-
-    // Atomic database import operation including all tables
-    await db.transaction(
-      "rw",
-      [
-        db.configuration,
-        db.focus,
-        db.notes,
-        db.projects,
-        db.milestones,
-        db.issues,
-        db.rewards,
-        db.discounts,
-        db.excalidraw,
-        db.aiChats,
-        db.aiConfig,
-      ],
-      async () => {
-        // Clear existing data from all tables
-        await db.configuration.clear();
-        await db.focus.clear();
-        await db.notes.clear();
-        await db.projects.clear();
-        await db.milestones.clear();
-        await db.issues.clear();
-        await db.rewards.clear();
-        await db.discounts.clear();
-        await db.excalidraw.clear();
-        await db.aiChats.clear();
-        await db.aiConfig.clear();
-
-        // Import new data with project management support
-        await db.configuration.bulkAdd(configuration);
-        await db.focus.bulkAdd(focus);
-        await db.notes.bulkAdd(notes);
-
-        // Import project management data (only if present for backward compatibility)
-        if (projects.length > 0) {
-          await db.projects.bulkAdd(projects);
-        }
-        if (milestones.length > 0) {
-          await db.milestones.bulkAdd(milestones);
-        }
-        if (issues.length > 0) {
-          await db.issues.bulkAdd(issues);
-        }
-        if (rewards.length > 0) {
-          await db.rewards.bulkAdd(rewards);
-        }
-        if (discounts.length > 0) {
-          await db.discounts.bulkAdd(discounts);
-        }
-        if (excalidraw.length > 0) {
-          await db.excalidraw.bulkAdd(excalidraw);
-        }
-        if (aiChats.length > 0) {
-          await db.aiChats.bulkAdd(aiChats);
-        }
-        if (aiConfig.length > 0) {
-          await db.aiConfig.bulkAdd(aiConfig);
-        }
-      },
-    );
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new BackupValidationError("This file is not valid JSON.");
+    }
+  }
 
-    // Restore localStorage contents
-    localStorage.clear();
-    for (const [key, value] of Object.entries(data.localStorage)) {
-      localStorage.setItem(key, value);
+  /**
+   * Check for an Encrypted Backup
+   *
+   * @static
+   * @param {unknown} raw - Parsed file contents from `readBackupFile`
+   * @returns {boolean} Whether the file is a .bitf.enc backup that needs a passphrase
+   */
+  static isEncrypted(raw: unknown): boolean {
+    return isEncryptedBackup(raw);
+  }
+
+  /**
+   * Decrypt an Encrypted Backup
+   *
+   * @static
+   * @async
+   * @param {unknown} raw - Parsed .bitf.enc file contents
+   * @param {string} passphrase - Passphrase the backup was encrypted with
+   * @returns {Promise<unknown>} Decrypted backup, ready to preview or import
+   * @throws {BackupValidationError} If the passphrase is wrong or the file is damaged
+   */
+  static async decrypt(raw: unknown, passphrase: string): Promise<unknown> {
+    if (!isEncryptedBackup(raw)) {
+      throw new BackupValidationError("This file is not an encrypted backup.");
     }
+    return decryptBackup(raw, passphrase);
   }
 
   /**
-   * Export All Application Data as JSON Object (No Download)
+   * Preview a Full Import
+   *
+   * Validates a backup and compares it with the current data: row counts
+   * per table, the span of focus sessions, projects that would be added or
+   * removed, and localStorage keys that would be overwritten.
+   *
+   * @static
+   * @async
+   * @param {unknown} raw - Parsed export JSON object
+   * @returns {Promise<ImportPreview>} Differences between the backup and current data
+   * @throws {BackupValidationError} If the backup is invalid
+   */
+  static async previewImport(raw: unknown): Promise<ImportPreview> {
+    const data = parseBackup(raw);
+    const incoming = reviveBackup(data);
+
+    const tables = {} as ImportPreview["tables"];
+    for (const table of BACKUP_TABLES) {
+      tables[table] = {
+        current: await backupTables[table].count(),
+        incoming: incoming[table].length,
+        included: !data.contents || data.contents.includes(table),
+      };
+    }
+
+    const currentTitles = new Set((await db.projects.toArray()).map((p) => p.title));
+    const incomingTitles = new Set(incoming.projects.map((p) => p.title));
+
+    const overwritten: string[] = [];
+    const removed: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key) continue;
+      if (!(key in data.localStorage)) {
+        removed.push(key);
+      } else if (data.localStorage[key] !== localStorage.getItem(key)) {
+        overwritten.push(key);
+      }
+    }
+
+    return {
+      tables,
+      focusRange: {
+        current: focusRangeOf(await db.focus.toArray()),
+        incoming: focusRangeOf(incoming.focus),
+      },
+      projects: {
+        added: [...incomingTitles].filter((t) => !currentTitles.has(t)),
+        removed: [...currentTitles].filter((t) => !incomingTitles.has(t)),
+      },
+      localStorage: {
+        overwritten: overwritten.sort(),
+        removed: removed.sort(),
+        included: !data.contents || data.contents.includes("localStorage"),
+      },
+    };
+  }
+
+  /**
+   * Preview a Merge Import
+   *
+   * Validates a backup and works out how many records a merge would add,
+   * update or skip in each table, without changing any data.
+   *
+   * @static
+   * @async
+   * @param {unknown} raw - Parsed export JSON object
+   * @returns {Promise<MergeSummary>} Counts per table
+   * @throws {BackupValidationError} If the backup is invalid
    *
-   * Returns the complete application data as an `ExportedData` object.
+   * @see {@link mergeBackup} for how records are matched
+   */
+  static async previewMerge(raw: unknown): Promise<MergeSummary> {
+    return mergeBackup(parseBackup(raw), true);
+  }
+
+  /**
+   * Merge Application Data from JSON Object
+   *
+   * Combines a backup with the existing data instead of replacing it.
+   * Records are matched by natural keys and IDs referenced between records
+   * are remapped to the local ones.
+   *
+   * @static
+   * @async
+   * @param {unknown} raw - Parsed export JSON object
+   * @returns {Promise<MergeSummary>} Counts of what was added, updated and skipped
+   * @throws {BackupValidationError} If the backup is invalid
+   *
+   * @see {@link mergeBackup} for how records are matched
+   */
+  static async mergeJSON(raw: unknown): Promise<MergeSummary> {
+    return mergeBackup(parseBackup(raw));
+  }
+
+  /**
+   * Export Application Data as JSON Object (No Download)
+   *
+   * Returns application data as an `ExportedData` object, by default all of
+   * it. Options narrow the export to some tables, a date range of focus
+   * sessions and timeblocks, or some projects, and can blank out secrets so
+   * the file is safe to share. Tables left out are written empty and listed
+   * in `contents`, so an import can tell them apart from empty tables.
    * Useful for programmatic exports (e.g. API sync or cloud backup).
    *
-   * @returns {Promise<ExportedData>} All application data
+   * @param {ExportOptions} [options] - Tables, date range, projects and secrets to export
+   * @returns {Promise<ExportedData>} Application data
    */
-  static async exportJSON(): Promise<ExportedData> {
+  static async exportJSON(options: ExportOptions = {}): Promise<ExportedData> {
+    const tables = options.tables ?? BACKUP_TABLES;
+    const includeLocalStorage = options.localStorage ?? true;
+    const projectIds = options.projectIds ? new Set(options.projectIds) : null;
+
+    /** Reads a table, or nothing when it is left out */
+    const read = async <T,>(table: BackupTable, rows: () => Promise<T[]>): Promise<T[]> =>
+      tables.includes(table) ? rows() : [];
+    /** Whether a session or timeblock starts inside the date range */
+    const inRange = (start: Date) =>
+      (!options.from || start >= options.from) && (!options.to || start <= options.to);
+
+    // Milestones of the chosen projects decide which issues go along
+    const milestoneIds = projectIds
+      ? new Set(await db.milestones.where("projectId").anyOf([...projectIds]).primaryKeys())
+      : null;
+
+    const configuration = await read("configuration", () => db.configuration.toArray());
+    const focus = (await read("focus", () => db.focus.toArray())).filter(
+      (f) =>
+        inRange(f.startTime) &&
+        (!projectIds || f.projectId === undefined || projectIds.has(f.projectId))
+    );
+    const projects = (await read("projects", () => db.projects.toArray())).filter(
+      (p) => !projectIds || projectIds.has(p.id!)
+    );
+    const milestones = (await read("milestones", () => db.milestones.toArray())).filter(
+      (m) => !projectIds || projectIds.has(m.projectId)
+    );
+    const issues = (await read("issues", () => db.issues.toArray())).filter(
+      (i) => !milestoneIds || milestoneIds.has(i.milestoneId)
+    );
+    const invoices = (await read("invoices", () => db.invoices.toArray())).filter(
+      (i) => !projectIds || projectIds.has(i.projectId)
+    );
+    // Repeating timeblocks go along whole when the series overlaps the range
+    const timeblocks = (await read("timeblocks", () => db.timeblocks.toArray())).filter((t) => {
+      if (!t.recurrence) return inRange(t.startTime);
+      const last = lastOccurrenceStart(t);
+      return (!options.to || t.startTime <= options.to) && (!options.from || !last || last >= options.from);
+    });
+
     const data: ExportedData = {
+      version: BACKUP_FORMAT_VERSION,
+      contents:
+        tables.length < BACKUP_TABLES.length || !includeLocalStorage
+          ? [...tables, ...(includeLocalStorage ? (["localStorage"] as const) : [])]
+          : undefined,
       localStorage: {},
       indexedDB: {
-        configuration: (await db.configuration.toArray()).map((c) => ({
+        configuration: configuration.map((c) => ({
           ...c,
           dob: c.dob.toISOString(),
+          webhook: options.omitSecrets ? "" : c.webhook,
         })),
-        focus: (await db.focus.toArray()).map((f) => ({
+        focus: focus.map((f) => ({
           ...f,
           startTime: f.startTime.toISOString(),
           endTime: f.endTime.toISOString(),
+          pauses: f.pauses?.map((p) => ({
+            ...p,
+            start: p.start.toISOString(),
+            end: p.end.toISOString(),
+          })),
         })),
-        notes: (await db.notes.toArray()).map((n) => ({
+        notes: (await read("notes", () => db.notes.toArray())).map((n) => ({
           ...n,
           createdAt: n.createdAt.toISOString(),
           updatedAt: n.updatedAt.toISOString(),
         })),
-        projects: (await db.projects.toArray()).map((p) => ({
+        projects: projects.map((p) => ({
           ...p,
           createdAt: p.createdAt.toISOString(),
           updatedAt: p.updatedAt.toISOString(),
         })),
-        milestones: (await db.milestones.toArray()).map((m) => ({
+        milestones: milestones.map((m) => ({
           ...m,
           deadline: m.deadline ? m.deadline.toISOString() : undefined,
           createdAt: m.createdAt.toISOString(),
           updatedAt: m.updatedAt.toISOString(),
         })),
-        issues: (await db.issues.toArray()).map((i) => ({
+        issues: issues.map((i) => ({
+          ...i,
+          dueDate: i.dueDate ? i.dueDate.toISOString() : undefined,
+          createdAt: i.createdAt.toISOString(),
+          updatedAt: i.updatedAt.toISOString(),
+        })),
+        invoices: invoices.map((i) => ({
           ...i,
+          issuedAt: i.issuedAt.toISOString(),
           dueDate: i.dueDate ? i.dueDate.toISOString() : undefined,
+          paidAt: i.paidAt ? i.paidAt.toISOString() : undefined,
+          periodStart: i.periodStart ? i.periodStart.toISOString() : undefined,
           createdAt: i.createdAt.toISOString(),
           updatedAt: i.updatedAt.toISOString(),
         })),
-        rewards: (await db.rewards.toArray()).map((r) => ({
+        timeblocks: timeblocks.map((t) => ({
+          ...t,
+          startTime: t.startTime.toISOString(),
+          endTime: t.endTime.toISOString(),
+          recurrence: t.recurrence && {
+            ...t.recurrence,
+            until: t.recurrence.until ? t.recurrence.until.toISOString() : undefined,
+          },
+          exceptions: t.exceptions?.map((e) => e.toISOString()),
+        })),
+        goals: (await read("goals", () => db.goals.toArray())).map((g) => ({
+          ...g,
+          createdAt: g.createdAt.toISOString(),
+          updatedAt: g.updatedAt.toISOString(),
+        })),
+        rewards: (await read("rewards", () => db.rewards.toArray())).map((r) => ({
           ...r,
           createdAt: r.createdAt.toISOString(),
           updatedAt: r.updatedAt.toISOString(),
         })),
-        discounts: (await db.discounts.toArray()).map((d) => ({
+        discounts: (await read("discounts", () => db.discounts.toArray())).map((d) => ({
           ...d,
           createdAt: d.createdAt.toISOString(),
           updatedAt: d.updatedAt.toISOString(),
         })),
-        excalidraw: (await db.excalidraw.toArray()).map((e) => ({
+        excalidraw: (await read("excalidraw", () => db.excalidraw.toArray())).map((e) => ({
           ...e,
           createdAt: e.createdAt.toISOString(),
           updatedAt: e.updatedAt.toISOString(),
         })),
-        aiChats: (await db.aiChats.toArray()).map((c) => ({
+        aiChats: (await read("aiChats", () => db.aiChats.toArray())).map((c) => ({
           ...c,
           createdAt: c.createdAt.toISOString(),
           updatedAt: c.updatedAt.toISOString(),
         })),
-        aiConfig: await db.aiConfig.toArray(),
+        aiConfig: (await read("aiConfig", () => db.aiConfig.toArray())).map((c) =>
+          options.omitSecrets ? { ...c, groqApiKey: "", googleApiKey: "" } : c
+        ),
       },
     };
 
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key) {
-        data.localStorage[key] = localStorage.getItem(key) || "";
+    if (includeLocalStorage) {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key) {
+          data.localStorage[key] = localStorage.getItem(key) || "";
+        }
       }
     }
 
@@ -543,138 +585,57 @@ class SaveManager {
   /**
    * Import Application Data from JSON Object (No File)
    *
-   * Restores application data from a parsed `ExportedData` object.
+   * Restores application data from a parsed backup object. The whole backup
+   * is upgraded to the current format and validated before any table is
+   * cleared, so an invalid backup leaves existing data untouched. Tables
+   * left out of `options.tables` keep their current data. By default every
+   * part the backup contains is restored; parts a selective export left out
+   * are never cleared.
    * Useful for programmatic imports (e.g. API sync or cloud restore).
    *
-   * @param {ExportedData} data - Parsed export JSON object
+   * @param {unknown} raw - Parsed export JSON object
+   * @param {ImportOptions} [options] - Tables and localStorage to restore
    * @returns {Promise<void>}
+   * @throws {BackupValidationError} If the backup is invalid or lacks a part named in the options
    */
-  static async importJSON(data: ExportedData): Promise<void> {
-    const configuration = data.indexedDB.configuration.map((c) => ({
-      ...c,
-      dob: new Date(c.dob),
-    }));
-
-    const focus = data.indexedDB.focus.map((f) => ({
-      ...f,
-      startTime: new Date(f.startTime),
-      endTime: new Date(f.endTime),
-    }));
-
-    const notes = data.indexedDB.notes.map((n) => ({
-      ...n,
-      createdAt: new Date(n.createdAt),
-      updatedAt: new Date(n.updatedAt),
-    }));
-
-    const projects = (data.indexedDB.projects || []).map((p) => ({
-      ...p,
-      createdAt: new Date(p.createdAt),
-      updatedAt: new Date(p.updatedAt),
-    }));
-
-    const milestones = (data.indexedDB.milestones || []).map((m) => ({
-      ...m,
-      deadline: m.deadline ? new Date(m.deadline) : undefined,
-      createdAt: new Date(m.createdAt),
-      updatedAt: new Date(m.updatedAt),
-    }));
-
-    const issues = (data.indexedDB.issues || []).map((i) => ({
-      ...i,
-      dueDate: i.dueDate ? new Date(i.dueDate) : undefined,
-      createdAt: new Date(i.createdAt),
-      updatedAt: new Date(i.updatedAt),
-    }));
-
-    const rewards = (data.indexedDB.rewards || []).map((r) => ({
-      ...r,
-      createdAt: new Date(r.createdAt),
-      updatedAt: new Date(r.updatedAt),
-    }));
-
-    const discounts = (data.indexedDB.discounts || []).map((d) => ({
-      ...d,
-      createdAt: new Date(d.createdAt),
-      updatedAt: new Date(d.updatedAt),
-    }));
-
-    const excalidraw = (data.indexedDB.excalidraw || []).map((e) => ({
-      ...e,
-      createdAt: new Date(e.createdAt),
-      updatedAt: new Date(e.updatedAt),
-    }));
-
-    const aiChats = (data.indexedDB.aiChats || []).map((c) => ({
-      ...c,
-      createdAt: new Date(c.createdAt),
-      updatedAt: new Date(c.updatedAt),
-    }));
-
-    const aiConfig = data.indexedDB.aiConfig || [];
-
-    await db.transaction(
-      "rw",
-      [
-        db.configuration,
-        db.focus,
-        db.notes,
-        db.projects,
-        db.milestones,
-        db.issues,
-        db.rewards,
-        db.discounts,
-        db.excalidraw,
-        db.aiChats,
-        db.aiConfig,
-      ],
-      async () => {
-        await db.configuration.clear();
-        await db.focus.clear();
-        await db.notes.clear();
-        await db.projects.clear();
-        await db.milestones.clear();
-        await db.issues.clear();
-        await db.rewards.clear();
-        await db.discounts.clear();
-        await db.excalidraw.clear();
-        await db.aiChats.clear();
-        await db.aiConfig.clear();
-
-        await db.configuration.bulkAdd(configuration);
-        await db.focus.bulkAdd(focus);
-        await db.notes.bulkAdd(notes);
-
-        if (projects.length > 0) {
-          await db.projects.bulkAdd(projects);
-        }
-        if (milestones.length > 0) {
-          await db.milestones.bulkAdd(milestones);
-        }
-        if (issues.length > 0) {
-          await db.issues.bulkAdd(issues);
-        }
-        if (rewards.length > 0) {
-          await db.rewards.bulkAdd(rewards);
-        }
-        if (discounts.length > 0) {
-          await db.discounts.bulkAdd(discounts);
-        }
-        if (excalidraw.length > 0) {
-          await db.excalidraw.bulkAdd(excalidraw);
-        }
-        if (aiChats.length > 0) {
-          await db.aiChats.bulkAdd(aiChats);
-        }
-        if (aiConfig.length > 0) {
-          await db.aiConfig.bulkAdd(aiConfig);
-        }
-      },
-    );
+  static async importJSON(raw: unknown, options: ImportOptions = {}): Promise<void> {
+    const data = parseBackup(raw);
+    const rows = reviveBackup(data);
+    const contains = (part: BackupPart) => !data.contents || data.contents.includes(part);
+    const tables = options.tables ?? BACKUP_TABLES.filter(contains);
+    const includeLocalStorage = options.localStorage ?? contains("localStorage");
+
+    // Restoring a part the backup left out would only wipe the current data
+    const missing: BackupPart[] = tables.filter((table) => !contains(table));
+    if (includeLocalStorage && !contains("localStorage")) missing.push("localStorage");
+    if (missing.length > 0) {
+      throw new BackupValidationError(
+        "This backup does not contain every part selected for import.",
+        missing.map((part) => `${part}: Not in this backup`)
+      );
+    }
+
+    // Atomic database import operation across the selected tables
+    if (tables.length > 0) {
+      await db.transaction(
+        "rw",
+        tables.map((table) => backupTables[table]),
+        async () => {
+          for (const table of tables) {
+            // Replace existing data with the backup rows
+            await backupTables[table].clear();
+            await backupTables[table].bulkAdd(rows[table]);
+          }
+        },
+      );
+    }
 
-    localStorage.clear();
-    for (const [key, value] of Object.entries(data.localStorage)) {
-      localStorage.setItem(key, value);
+    // Restore localStorage contents
+    if (includeLocalStorage) {
+      localStorage.clear();
+      for (const [key, value] of Object.entries(data.localStorage)) {
+        localStorage.setItem(key, value);
+      }
     }
   }
 }
@@ -0,0 +1,272 @@
+/**
+ * Automatic Backups - Scheduled Local Snapshots with Rotation
+ *
+ * Writes backup snapshots (from `SaveManager.exportJSON`) to local storage
+ * the browser manages: the Origin Private File System, or a folder the user
+ * linked through the File System Access API. Snapshots are rotated so the
+ * newest snapshot of each of the last 7 days and of each of the last 4 weeks
+ * are kept.
+ *
+ * Scheduling lives in the `useAutoBackup` store; this module only deals with
+ * files.
+ *
+ * @fileoverview Snapshot storage, listing and retention for automatic backups
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import db from "./db";
+import type { ExportedData } from "./backupFormat";
+
+/** How often automatic backups run */
+export const AUTO_BACKUP_SCHEDULES = ["daily", "sessions"] as const;
+export type AutoBackupSchedule = (typeof AUTO_BACKUP_SCHEDULES)[number];
+
+/** Where snapshots are stored */
+export const AUTO_BACKUP_LOCATIONS = ["opfs", "folder"] as const;
+export type AutoBackupLocation = (typeof AUTO_BACKUP_LOCATIONS)[number];
+
+/**
+ * Automatic Backup Settings (stored in localStorage)
+ */
+export interface AutoBackupSettings {
+  enabled: boolean;
+  /** Once a day, or after a number of focus sessions */
+  schedule: AutoBackupSchedule;
+  /** Focus sessions between backups for the "sessions" schedule */
+  sessionInterval: number;
+  location: AutoBackupLocation;
+}
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  schedule: "daily",
+  sessionInterval: 5,
+  location: "opfs",
+};
+
+/** Retention: newest snapshot per day for this many days… */
+export const KEEP_DAILY = 7;
+/** …and newest snapshot per week for this many weeks */
+export const KEEP_WEEKLY = 4;
+
+/**
+ * A stored snapshot
+ */
+export interface BackupSnapshot {
+  /** File name */
+  name: string;
+  createdAt: Date;
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Error raised when the snapshot location cannot be used
+ */
+export class AutoBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutoBackupError";
+  }
+}
+
+/** Key of the linked folder in `db.fileHandles` */
+const FOLDER_HANDLE_KEY = "autoBackupFolder";
+
+/** Snapshot subfolder inside the Origin Private File System */
+const OPFS_DIRECTORY = "backups";
+
+/** Snapshot file names: bitfocus-auto-2025-01-31T08-30-00-000Z.bitf.json */
+const SNAPSHOT_PATTERN = /^bitfocus-auto-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.bitf\.json$/;
+
+/** File System Access members missing from the TypeScript DOM typings */
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterable<FileSystemHandle>;
+  queryPermission(descriptor: { mode: "readwrite" }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: "readwrite" }): Promise<PermissionState>;
+};
+
+type DirectoryPicker = (options?: { id?: string; mode?: "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+
+/** Whether the Origin Private File System is available */
+export function isOPFSSupported(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function";
+}
+
+/** Whether the browser can link a folder on disk */
+export function isFolderSupported(): boolean {
+  return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
+
+function snapshotName(date: Date): string {
+  return `bitfocus-auto-${date.toISOString().replace(/[:.]/g, "-")}.bitf.json`;
+}
+
+function parseSnapshotDate(name: string): Date | null {
+  const match = SNAPSHOT_PATTERN.exec(name);
+  if (!match) return null;
+  const [, day, hours, minutes, seconds, millis] = match;
+  return new Date(`${day}T${hours}:${minutes}:${seconds}.${millis}Z`);
+}
+
+/**
+ * Lets the user pick a folder for snapshots and remembers it.
+ *
+ * @returns Name of the linked folder
+ */
+export async function linkBackupFolder(): Promise<string> {
+  const picker = (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  if (!picker) {
+    throw new AutoBackupError("This browser cannot link a folder.");
+  }
+  const handle = await picker({ id: "bitfocus-backups", mode: "readwrite" });
+  await db.fileHandles.put({ key: FOLDER_HANDLE_KEY, handle });
+  return handle.name;
+}
+
+/**
+ * Name of the linked folder, or null when none is linked.
+ */
+export async function getLinkedFolderName(): Promise<string | null> {
+  const stored = await db.fileHandles.get(FOLDER_HANDLE_KEY);
+  return stored?.handle.name ?? null;
+}
+
+/**
+ * Opens the directory snapshots are stored in.
+ *
+ * @param location - Snapshot location
+ * @param requestAccess - Ask again for access to a linked folder. Browsers
+ *   only allow this in response to a click.
+ * @throws {AutoBackupError} If the location is unavailable
+ */
+async function openDirectory(
+  location: AutoBackupLocation,
+  requestAccess = false
+): Promise<PermissionedDirectoryHandle> {
+  if (location === "opfs") {
+    if (!isOPFSSupported()) {
+      throw new AutoBackupError("This browser has no private file storage.");
+    }
+    const root = await navigator.storage.getDirectory();
+    return (await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true })) as PermissionedDirectoryHandle;
+  }
+
+  const stored = await db.fileHandles.get(FOLDER_HANDLE_KEY);
+  if (!stored) {
+    throw new AutoBackupError("No backup folder is linked.");
+  }
+  const handle = stored.handle as PermissionedDirectoryHandle;
+  let permission = await handle.queryPermission({ mode: "readwrite" });
+  if (permission !== "granted" && requestAccess) {
+    permission = await handle.requestPermission({ mode: "readwrite" });
+  }
+  if (permission !== "granted") {
+    throw new AutoBackupError(`Allow access to the "${handle.name}" folder to keep backing up.`);
+  }
+  return handle;
+}
+
+/**
+ * Asks the browser again for access to the linked folder. Call from a click.
+ */
+export async function requestFolderAccess(): Promise<void> {
+  await openDirectory("folder", true);
+}
+
+/**
+ * Lists stored snapshots, newest first.
+ *
+ * @param location - Snapshot location
+ */
+export async function listSnapshots(location: AutoBackupLocation): Promise<BackupSnapshot[]> {
+  const directory = await openDirectory(location);
+  const snapshots: BackupSnapshot[] = [];
+  for await (const entry of directory.values()) {
+    if (entry.kind !== "file") continue;
+    const createdAt = parseSnapshotDate(entry.name);
+    if (!createdAt) continue;
+    const file = await (entry as FileSystemFileHandle).getFile();
+    snapshots.push({ name: entry.name, createdAt, size: file.size });
+  }
+  return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Writes a snapshot.
+ *
+ * @param location - Snapshot location
+ * @param data - Backup from `SaveManager.exportJSON`
+ * @returns The stored snapshot
+ */
+export async function writeSnapshot(location: AutoBackupLocation, data: ExportedData): Promise<BackupSnapshot> {
+  const directory = await openDirectory(location);
+  const createdAt = new Date();
+  const name = snapshotName(createdAt);
+  const contents = JSON.stringify(data);
+
+  const file = await directory.getFileHandle(name, { create: true });
+  const writable = await file.createWritable();
+  await writable.write(contents);
+  await writable.close();
+
+  return { name, createdAt, size: new Blob([contents]).size };
+}
+
+/**
+ * Reads a snapshot's contents.
+ *
+ * @param location - Snapshot location
+ * @param name - Snapshot file name
+ * @returns Parsed backup, still to be validated on import
+ */
+export async function readSnapshot(location: AutoBackupLocation, name: string): Promise<unknown> {
+  const directory = await openDirectory(location);
+  const file = await (await directory.getFileHandle(name)).getFile();
+  return JSON.parse(await file.text());
+}
+
+/**
+ * Picks the snapshots that fall outside the retention policy: everything
+ * except the newest snapshot of each of the last `KEEP_DAILY` days and of
+ * each of the last `KEEP_WEEKLY` weeks that have snapshots.
+ *
+ * @param snapshots - Stored snapshots
+ * @returns Snapshots to delete
+ */
+export function selectExpiredSnapshots(snapshots: BackupSnapshot[]): BackupSnapshot[] {
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+  const expired: BackupSnapshot[] = [];
+
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const snapshot of newestFirst) {
+    const day = dayjs(snapshot.createdAt).format("YYYY-MM-DD");
+    const week = dayjs(snapshot.createdAt).startOf("week").format("YYYY-MM-DD");
+    const keepDaily = !days.has(day) && days.size < KEEP_DAILY;
+    const keepWeekly = !weeks.has(week) && weeks.size < KEEP_WEEKLY;
+
+    if (keepDaily) days.add(day);
+    if (keepWeekly) weeks.add(week);
+    if (!keepDaily && !keepWeekly) expired.push(snapshot);
+  }
+
+  return expired;
+}
+
+/**
+ * Deletes snapshots outside the retention policy.
+ *
+ * @param location - Snapshot location
+ * @returns Snapshots that are left, newest first
+ */
+export async function pruneSnapshots(location: AutoBackupLocation): Promise<BackupSnapshot[]> {
+  const directory = await openDirectory(location);
+  const snapshots = await listSnapshots(location);
+  const expired = selectExpiredSnapshots(snapshots);
+  for (const snapshot of expired) {
+    await directory.removeEntry(snapshot.name);
+  }
+  return snapshots.filter((s) => !expired.includes(s));
+}
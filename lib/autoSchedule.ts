@@ -0,0 +1,251 @@
+/**
+ * Auto Scheduler - Plans Open Issues Into Free Calendar Time
+ *
+ * Proposes timeblocks for open project issues within the working hours of a
+ * range of days. Issues are taken by due date, then by label priority. Each
+ * one needs its estimated effort, less the focus time already tracked on it
+ * and the time already planned for it. Blocks go into the earliest time that
+ * no existing timeblock or busy calendar event covers, split into blocks no
+ * longer than the set maximum with a break between them.
+ *
+ * @fileoverview Auto-scheduling of project issues into timeblocks
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { IssueLabel } from "@/hooks/useProjects";
+import type { PlannedBlock } from "./timeblockTemplates";
+
+/** Issue labels from most to least urgent; other labels come after them */
+export const LABEL_PRIORITY: readonly IssueLabel[] = [
+  "Bug",
+  "Deployment",
+  "Feature",
+  "Enhancement",
+  "Testing",
+  "Design",
+  "Research",
+  "Maintenance",
+  "Documentation",
+  "Question",
+];
+
+/** Shortest block proposed; estimates are rounded up to a multiple of it */
+export const MIN_SCHEDULED_BLOCK_MINUTES = 15;
+
+/** Blocks start on a multiple of this many minutes */
+const START_STEP_MINUTES = 5;
+
+/**
+ * Auto Schedule Settings Interface
+ */
+export interface AutoScheduleSettings {
+  /** Days of the week to plan on (0 = Sunday) */
+  workDays: number[];
+  /** Start of the working day, in minutes after midnight */
+  workStartMinute: number;
+  /** End of the working day, in minutes after midnight */
+  workEndMinute: number;
+  /** Effort assumed for issues without an estimate */
+  defaultEstimateMinutes: number;
+  /** Longest single block; longer efforts are split */
+  maxBlockMinutes: number;
+  /** Free time kept after each proposed block */
+  breakMinutes: number;
+  /** Also plan open issues that have no due date, after those that do */
+  includeUndated: boolean;
+  /** Tag of the proposed blocks; empty to use the issue's project title */
+  tag: string;
+}
+
+export const DEFAULT_AUTO_SCHEDULE_SETTINGS: AutoScheduleSettings = {
+  workDays: [1, 2, 3, 4, 5],
+  workStartMinute: 9 * 60,
+  workEndMinute: 17 * 60,
+  defaultEstimateMinutes: 60,
+  maxBlockMinutes: 90,
+  breakMinutes: 15,
+  includeUndated: false,
+  tag: "",
+};
+
+/**
+ * An open issue to plan, with what is already known about its effort
+ */
+export interface SchedulableIssue {
+  id: number;
+  projectId: number;
+  milestoneId: number;
+  title: string;
+  label: string;
+  dueDate?: Date;
+  estimateMinutes?: number;
+  /** Focus time already tracked on the issue */
+  trackedSeconds: number;
+  /** Time already planned for the issue in upcoming timeblocks */
+  plannedMinutes: number;
+  /** Tag the issue's blocks are planned under */
+  tag: string;
+}
+
+/** A proposed timeblock for an issue */
+export interface ProposedBlock extends PlannedBlock {
+  /** Identifies the block within a proposal */
+  key: string;
+  issueId: number;
+  /** End of the issue's due date, if it has one */
+  dueEnd?: Date;
+  /** Ends after the end of the issue's due date */
+  late: boolean;
+}
+
+/**
+ * Auto Schedule Result Interface
+ */
+export interface AutoSchedule {
+  blocks: ProposedBlock[];
+  /** Issues, in planning order, with the minutes that did not fit */
+  unscheduled: { issue: SchedulableIssue; minutes: number }[];
+}
+
+/** A time interval, in milliseconds */
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/** Rounds a time up to the next block start */
+function ceilToStep(time: number): number {
+  const step = START_STEP_MINUTES * 60 * 1000;
+  return Math.ceil(time / step) * step;
+}
+
+function labelRank(label: string): number {
+  const rank = LABEL_PRIORITY.indexOf(label as IssueLabel);
+  return rank === -1 ? LABEL_PRIORITY.length : rank;
+}
+
+/** Whether a block ending at a time runs past a due date's end */
+export function isLate(endTime: Date, dueEnd?: Date): boolean {
+  return !!dueEnd && endTime > dueEnd;
+}
+
+/**
+ * Orders issues for planning: earliest due date first, undated issues last,
+ * then by label priority.
+ */
+export function rankIssues<T extends Pick<SchedulableIssue, "id" | "label" | "dueDate">>(issues: T[]): T[] {
+  const due = (issue: T) => (issue.dueDate ? dayjs(issue.dueDate).startOf("day").valueOf() : Infinity);
+  return [...issues].sort(
+    (a, b) => due(a) - due(b) || labelRank(a.label) - labelRank(b.label) || a.id - b.id
+  );
+}
+
+/**
+ * Minutes of an issue still to plan: its estimate less the time tracked and
+ * already planned, rounded up to whole minimum blocks.
+ */
+export function remainingEffortMinutes(issue: SchedulableIssue, defaultEstimateMinutes: number): number {
+  const minutes =
+    (issue.estimateMinutes ?? defaultEstimateMinutes) - Math.floor(issue.trackedSeconds / 60) - issue.plannedMinutes;
+  if (minutes <= 0) return 0;
+  return Math.ceil(minutes / MIN_SCHEDULED_BLOCK_MINUTES) * MIN_SCHEDULED_BLOCK_MINUTES;
+}
+
+/**
+ * Working time in a range of days that is not busy and not in the past.
+ *
+ * @param from - First day
+ * @param to - Last day, inclusive
+ * @param busy - Busy intervals
+ * @param settings - Working days and hours
+ * @param now - Current time
+ */
+function freeIntervals(
+  from: Date,
+  to: Date,
+  busy: { start: Date; end: Date }[],
+  settings: AutoScheduleSettings,
+  now: Date
+): Interval[] {
+  const taken = busy
+    .map((b) => ({ start: b.start.getTime(), end: b.end.getTime() }))
+    .sort((a, b) => a.start - b.start);
+  const free: Interval[] = [];
+  const last = dayjs(to).startOf("day");
+
+  for (let day = dayjs(from).startOf("day"); !day.isAfter(last); day = day.add(1, "day")) {
+    if (!settings.workDays.includes(day.day())) continue;
+    let start = ceilToStep(Math.max(day.add(settings.workStartMinute, "minute").valueOf(), now.getTime()));
+    const end = day.add(settings.workEndMinute, "minute").valueOf();
+
+    for (const b of taken) {
+      if (b.end <= start || b.start >= end) continue;
+      if (b.start > start) free.push({ start, end: b.start });
+      start = Math.max(start, ceilToStep(b.end));
+    }
+    if (start < end) free.push({ start, end });
+  }
+
+  return free.filter((i) => i.end - i.start >= MIN_SCHEDULED_BLOCK_MINUTES * 60 * 1000);
+}
+
+/**
+ * Proposes timeblocks for open issues in the free working time of a range.
+ *
+ * @param issues - Open issues to plan
+ * @param busy - Existing timeblock occurrences and busy events
+ * @param from - First day to plan
+ * @param to - Last day to plan, inclusive
+ * @param settings - Working hours and block sizes
+ * @param now - Current time; nothing is planned before it
+ * @returns Proposed blocks in start order and the effort that did not fit
+ */
+export function scheduleIssues(
+  issues: SchedulableIssue[],
+  busy: { start: Date; end: Date }[],
+  from: Date,
+  to: Date,
+  settings: AutoScheduleSettings,
+  now: Date = new Date()
+): AutoSchedule {
+  const free = freeIntervals(from, to, busy, settings, now);
+  const minBlock = MIN_SCHEDULED_BLOCK_MINUTES * 60 * 1000;
+  const maxBlock = Math.max(MIN_SCHEDULED_BLOCK_MINUTES, settings.maxBlockMinutes) * 60 * 1000;
+  const gap = Math.max(0, settings.breakMinutes) * 60 * 1000;
+  const result: AutoSchedule = { blocks: [], unscheduled: [] };
+
+  for (const issue of rankIssues(issues)) {
+    let remaining = remainingEffortMinutes(issue, settings.defaultEstimateMinutes) * 60 * 1000;
+    const dueEnd = issue.dueDate ? dayjs(issue.dueDate).endOf("day").toDate() : undefined;
+
+    for (const interval of free) {
+      if (remaining <= 0) break;
+      while (remaining > 0 && interval.end - interval.start >= minBlock) {
+        // Fit whole minimum blocks into what is left of the interval
+        const room = Math.floor((interval.end - interval.start) / minBlock) * minBlock;
+        const length = Math.min(remaining, maxBlock, room);
+        const start = interval.start;
+        result.blocks.push({
+          key: `${issue.id}@${start}`,
+          tag: issue.tag,
+          title: issue.title,
+          startTime: new Date(start),
+          endTime: new Date(start + length),
+          projectId: issue.projectId,
+          milestoneId: issue.milestoneId,
+          issueId: issue.id,
+          ...(dueEnd && { dueEnd }),
+          late: isLate(new Date(start + length), dueEnd),
+        });
+        remaining -= length;
+        interval.start = ceilToStep(start + length + gap);
+      }
+    }
+
+    if (remaining > 0) result.unscheduled.push({ issue, minutes: Math.round(remaining / 60000) });
+  }
+
+  result.blocks.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  return result;
+}
@@ -0,0 +1,151 @@
+/**
+ * Backup Encryption - Passphrase-Protected .bitf.enc Files
+ *
+ * Backups hold API keys, the webhook URL, the date of birth and every note,
+ * so they can optionally be encrypted with a passphrase before they are
+ * downloaded or uploaded. Uses WebCrypto only: the key is derived with
+ * PBKDF2 (SHA-256) and the backup JSON is sealed with AES-GCM, which also
+ * detects a wrong passphrase or a damaged file.
+ *
+ * An encrypted backup is a small JSON wrapper carrying everything needed to
+ * decrypt it except the passphrase:
+ *
+ * ```json
+ * {
+ *   "format": "bitf.enc",
+ *   "version": 1,
+ *   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "…" },
+ *   "cipher": { "name": "AES-GCM", "iv": "…" },
+ *   "data": "…"
+ * }
+ * ```
+ *
+ * @fileoverview Passphrase encryption and decryption of backups
+ * @author BIT Focus Development Team
+ */
+
+import { BackupValidationError } from "./backupFormat";
+
+/** File extension of encrypted backups */
+export const ENCRYPTED_BACKUP_EXTENSION = ".bitf.enc";
+
+/** PBKDF2 rounds for new backups; stored in the file so it can change later */
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Encrypted Backup Wrapper
+ */
+export interface EncryptedBackup {
+  format: "bitf.enc";
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  /** Base64 AES-GCM ciphertext of the backup JSON */
+  data: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+/** Derives the AES key for a passphrase and salt */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Checks whether parsed file contents are an encrypted backup.
+ *
+ * @param raw - Parsed JSON contents of a file
+ */
+export function isEncryptedBackup(raw: unknown): raw is EncryptedBackup {
+  return (
+    typeof raw === "object" &&
+    raw !== null &&
+    (raw as { format?: unknown }).format === "bitf.enc"
+  );
+}
+
+/**
+ * Encrypts a backup with a passphrase.
+ *
+ * @param data - Backup to encrypt (usually from `SaveManager.exportJSON`)
+ * @param passphrase - Passphrase chosen by the user
+ * @returns Encrypted wrapper, ready to be serialized as JSON
+ */
+export async function encryptBackup(data: unknown, passphrase: string): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  return {
+    format: "bitf.enc",
+    version: 1,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts an encrypted backup.
+ *
+ * @param wrapped - Encrypted wrapper read from a .bitf.enc file
+ * @param passphrase - Passphrase the backup was encrypted with
+ * @returns Parsed backup contents, still to be validated with `parseBackup`
+ * @throws {BackupValidationError} If the wrapper is unsupported, the
+ *   passphrase is wrong or the file is damaged
+ */
+export async function decryptBackup(wrapped: EncryptedBackup, passphrase: string): Promise<unknown> {
+  if (
+    wrapped.version !== 1 ||
+    wrapped.kdf?.name !== "PBKDF2" ||
+    wrapped.cipher?.name !== "AES-GCM"
+  ) {
+    throw new BackupValidationError("This encrypted backup uses a format this version cannot read.");
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(wrapped.kdf.salt), wrapped.kdf.iterations);
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(wrapped.cipher.iv) },
+      key,
+      fromBase64(wrapped.data)
+    );
+  } catch {
+    throw new BackupValidationError("Wrong passphrase, or the file is damaged.");
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new BackupValidationError("The decrypted backup is not valid JSON.");
+  }
+}
@@ -0,0 +1,556 @@
+/**
+ * Backup Format - Versioned, Schema-Validated .bitf.json Files
+ *
+ * Defines the structure of BIT Focus backups as zod schemas, one per table,
+ * and the migrations that bring older backups up to the current format.
+ * Backups are validated in full before an import touches IndexedDB, so a
+ * malformed file is rejected with readable errors instead of wiping data.
+ *
+ * Format history:
+ * - Version 1: unversioned backups; tables added over time may be missing
+ *   and issues use the "Open" / "Close" statuses
+ * - Version 2: adds the `version` field, invoices and timeblocks, and the
+ *   issue board statuses. Selective exports list their parts in `contents`
+ * - Version 3: adds focus goals
+ *
+ * @fileoverview Backup schemas, version migrations and validation
+ * @author BIT Focus Development Team
+ */
+
+import { z } from "zod";
+import { upgradeIssueStatus, type ExcalidrawSceneData } from "./db";
+import { GOAL_PERIODS } from "./focusGoals";
+import { TIMEBLOCK_FREQUENCIES } from "./timeblockRecurrence";
+
+/** Version written into new backups */
+export const BACKUP_FORMAT_VERSION = 3;
+
+/**
+ * Error thrown when a backup file cannot be imported, carrying one
+ * readable message per problem found.
+ */
+export class BackupValidationError extends Error {
+  /** Individual problems, e.g. "focus[3].startTime: Expected an ISO date" */
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "BackupValidationError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Table schemas (dates are serialized as ISO strings)
+// ---------------------------------------------------------------------------
+
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Expected an ISO date" });
+
+const timestamps = {
+  createdAt: isoDate,
+  updatedAt: isoDate,
+};
+
+const configurationSchema = z.object({
+  name: z.string(),
+  dob: isoDate,
+  webhook: z.string(),
+  currency: z.string(),
+  sendWebhookUpdates: z.boolean().optional(),
+});
+
+const focusSchema = z.object({
+  id: z.number().optional(),
+  tag: z.string(),
+  startTime: isoDate,
+  endTime: isoDate,
+  pauses: z
+    .array(z.object({ start: isoDate, end: isoDate, reason: z.string().optional() }))
+    .optional(),
+  note: z.string().optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+  projectId: z.number().optional(),
+  milestoneId: z.number().optional(),
+  issueId: z.number().optional(),
+});
+
+const noteSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  type: z.enum(["document", "board"]),
+  parentId: z.number().nullable().optional(),
+  content: z.string().optional(),
+  boardData: z.array(z.object({ category: z.string(), children: z.array(z.number()) })).optional(),
+  ...timestamps,
+});
+
+const projectSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  status: z.enum(["Scheduled", "Active", "Closed"]),
+  notes: z.string(),
+  version: z.string(),
+  quickLinks: z.array(z.object({ id: z.string().optional(), title: z.string(), url: z.string() })),
+  hourlyRate: z.number().nonnegative().optional(),
+  ...timestamps,
+});
+
+const milestoneSchema = z.object({
+  id: z.number().optional(),
+  projectId: z.number(),
+  title: z.string(),
+  status: z.enum(["Scheduled", "Active", "Closed", "Paid"]),
+  deadline: isoDate.optional(),
+  budget: z.number(),
+  ...timestamps,
+});
+
+const issueSchema = z.object({
+  id: z.number().optional(),
+  milestoneId: z.number(),
+  title: z.string(),
+  label: z.string(),
+  dueDate: isoDate.optional(),
+  estimateMinutes: z.number().int().positive().optional(),
+  status: z.enum(["Backlog", "In Progress", "Review", "Done"]),
+  description: z.string(),
+  ...timestamps,
+});
+
+const invoiceSchema = z.object({
+  id: z.number().optional(),
+  number: z.number().int().positive(),
+  projectId: z.number(),
+  basis: z.enum(["milestones", "hours"]),
+  status: z.enum(["Unpaid", "Paid"]),
+  currency: z.string(),
+  billTo: z.string(),
+  lines: z.array(
+    z.object({
+      description: z.string(),
+      quantity: z.number(),
+      unitPrice: z.number(),
+      amount: z.number(),
+      milestoneId: z.number().optional(),
+    })
+  ),
+  total: z.number(),
+  notes: z.string().optional(),
+  issuedAt: isoDate,
+  dueDate: isoDate.optional(),
+  paidAt: isoDate.optional(),
+  periodStart: isoDate.optional(),
+  ...timestamps,
+});
+
+const timeblockSchema = z.object({
+  id: z.number().optional(),
+  tag: z.string(),
+  startTime: isoDate,
+  endTime: isoDate,
+  title: z.string().optional(),
+  recurrence: z
+    .object({
+      freq: z.enum(TIMEBLOCK_FREQUENCIES),
+      days: z.array(z.number().int().min(0).max(6)).optional(),
+      until: isoDate.optional(),
+      count: z.number().int().positive().optional(),
+    })
+    .optional(),
+  exceptions: z.array(isoDate).optional(),
+  mode: z.enum(["standard", "pomodoro", "flowtime"]).optional(),
+  projectId: z.number().optional(),
+  milestoneId: z.number().optional(),
+  issueId: z.number().optional(),
+});
+
+const goalSchema = z.object({
+  id: z.number().optional(),
+  tag: z.string().optional(),
+  period: z.enum(GOAL_PERIODS),
+  targetHours: z.number().positive(),
+  ...timestamps,
+});
+
+const rewardSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  description: z.string().optional(),
+  cost: z.number(),
+  category: z.string().optional(),
+  emoji: z.string().optional(),
+  ...timestamps,
+});
+
+const discountSchema = z.object({
+  id: z.number().optional(),
+  title: z.string(),
+  percentage: z.number().min(0).max(100),
+  active: z.boolean(),
+  ...timestamps,
+});
+
+const excalidrawSchema = z.object({
+  id: z.union([z.number(), z.string()]).optional(),
+  title: z.string(),
+  sceneData: z.custom<ExcalidrawSceneData | string>(
+    (value) => typeof value === "string" || (typeof value === "object" && value !== null),
+    { message: "Expected scene data" }
+  ),
+  thumbnail: z.string().optional(),
+  ...timestamps,
+});
+
+const aiChatSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  modelId: z.string(),
+  provider: z.string(),
+  messages: z.string(),
+  ...timestamps,
+});
+
+const aiConfigSchema = z.object({
+  key: z.string(),
+  groqApiKey: z.string(),
+  googleApiKey: z.string(),
+  customContextEnabled: z.boolean(),
+  customPrompt: z.string(),
+  defaultModelId: z.string(),
+});
+
+/** IndexedDB tables stored in a backup, in the order they are restored */
+export const BACKUP_TABLES = [
+  "configuration",
+  "focus",
+  "notes",
+  "projects",
+  "milestones",
+  "issues",
+  "invoices",
+  "timeblocks",
+  "goals",
+  "rewards",
+  "discounts",
+  "excalidraw",
+  "aiChats",
+  "aiConfig",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+/** A backup table or the localStorage snapshot */
+export type BackupPart = BackupTable | "localStorage";
+
+/** Display names for the parts of a backup */
+export const BACKUP_LABELS: Record<BackupPart, string> = {
+  configuration: "Profile",
+  focus: "Focus sessions",
+  notes: "Notes",
+  projects: "Projects",
+  milestones: "Milestones",
+  issues: "Issues",
+  invoices: "Invoices",
+  timeblocks: "Timeblocks",
+  goals: "Focus goals",
+  rewards: "Rewards",
+  discounts: "Discounts",
+  excalidraw: "Drawings",
+  aiChats: "AI chats",
+  aiConfig: "AI settings",
+  localStorage: "Preferences",
+};
+
+/**
+ * Schema of a current-version backup file
+ */
+const exportedDataSchema = z.object({
+  version: z.literal(BACKUP_FORMAT_VERSION),
+  /** Parts included in a selective export; absent when everything was exported */
+  contents: z.array(z.enum([...BACKUP_TABLES, "localStorage"])).optional(),
+  /** Complete localStorage contents as key-value pairs */
+  localStorage: z.record(z.string()),
+  /** All IndexedDB table data with serialized dates */
+  indexedDB: z.object({
+    configuration: z.array(configurationSchema),
+    focus: z.array(focusSchema),
+    notes: z.array(noteSchema),
+    projects: z.array(projectSchema),
+    milestones: z.array(milestoneSchema),
+    issues: z.array(issueSchema),
+    invoices: z.array(invoiceSchema),
+    timeblocks: z.array(timeblockSchema),
+    goals: z.array(goalSchema),
+    rewards: z.array(rewardSchema),
+    discounts: z.array(discountSchema),
+    excalidraw: z.array(excalidrawSchema),
+    aiChats: z.array(aiChatSchema),
+    aiConfig: z.array(aiConfigSchema),
+  }),
+});
+
+/**
+ * Exported Data Structure
+ *
+ * A complete backup: localStorage contents plus every IndexedDB table with
+ * dates serialized as ISO strings.
+ */
+export type ExportedData = z.infer<typeof exportedDataSchema>;
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/** Loosely typed backup contents while migrating between versions */
+type RawBackup = { [key: string]: unknown; indexedDB: { [table: string]: unknown } };
+
+/** Reads a table from a raw backup, treating a missing table as empty */
+function rawTable(data: RawBackup, table: string): Record<string, unknown>[] {
+  const rows = data.indexedDB[table];
+  return Array.isArray(rows) ? rows : [];
+}
+
+/**
+ * Parts a raw backup actually holds, so tables it predates are left alone on
+ * import instead of being replaced with nothing.
+ */
+function rawContents(data: RawBackup): BackupPart[] {
+  return [
+    ...BACKUP_TABLES.filter((table) => Array.isArray(data.indexedDB[table])),
+    ...(data.localStorage && typeof data.localStorage === "object" ? (["localStorage"] as const) : []),
+  ];
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Each returns the
+ * backup in the format of the next version.
+ */
+const BACKUP_MIGRATIONS: Record<number, (data: RawBackup) => RawBackup> = {
+  1: (data) => ({
+    ...data,
+    version: 2,
+    contents: data.contents ?? rawContents(data),
+    indexedDB: {
+      ...data.indexedDB,
+      // Tables added after the first backups may be missing
+      ...Object.fromEntries(
+        ["projects", "milestones", "issues", "invoices", "timeblocks", "rewards", "discounts", "excalidraw", "aiChats", "aiConfig"].map(
+          (table) => [table, rawTable(data, table)]
+        )
+      ),
+      // Configuration saved before currencies existed
+      configuration: rawTable(data, "configuration").map((c) => ({ currency: "USD", ...c })),
+      // Projects saved before quick links existed
+      projects: rawTable(data, "projects").map((p) => ({ quickLinks: [], ...p })),
+      // "Open" / "Close" became the board workflow
+      issues: rawTable(data, "issues").map((i) => ({
+        ...i,
+        status: upgradeIssueStatus(String(i.status)),
+      })),
+    },
+  }),
+  2: (data) => ({
+    ...data,
+    version: 3,
+    // Goals are absent, not empty: restoring must not clear them
+    contents: data.contents ?? rawContents(data),
+    indexedDB: { ...data.indexedDB, goals: rawTable(data, "goals") },
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Number of problems listed in the error message before summarizing */
+const MAX_LISTED_ISSUES = 5;
+
+/** Formats a zod issue path, e.g. ["indexedDB", "focus", 3, "startTime"] → "focus[3].startTime" */
+function formatIssuePath(path: (string | number)[]): string {
+  return path
+    .filter((part, i) => !(i === 0 && part === "indexedDB"))
+    .reduce<string>(
+      (acc, part) => (typeof part === "number" ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+      ""
+    );
+}
+
+/**
+ * Migrates a parsed backup file to the current version and validates it.
+ *
+ * @param raw - Parsed JSON contents of a backup file
+ * @returns The backup in the current format
+ * @throws {BackupValidationError} If the file is not a backup, comes from a
+ *   newer version, or any row fails validation
+ */
+export function parseBackup(raw: unknown): ExportedData {
+  if (
+    typeof raw !== "object" ||
+    raw === null ||
+    typeof (raw as RawBackup).indexedDB !== "object" ||
+    (raw as RawBackup).indexedDB === null
+  ) {
+    throw new BackupValidationError("This file is not a BIT Focus backup.");
+  }
+
+  let data = raw as RawBackup;
+  let version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new BackupValidationError(`Unknown backup version: ${String(version)}.`);
+  }
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError(
+      `This backup was made by a newer version of BIT Focus (format ${version}). Update the app to import it.`
+    );
+  }
+
+  while (version < BACKUP_FORMAT_VERSION) {
+    data = BACKUP_MIGRATIONS[version](data);
+    version += 1;
+  }
+
+  const result = exportedDataSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${formatIssuePath(issue.path) || "file"}: ${issue.message}`
+    );
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).join("\n");
+    const more = issues.length > MAX_LISTED_ISSUES ? `\n…and ${issues.length - MAX_LISTED_ISSUES} more` : "";
+    throw new BackupValidationError(
+      `The backup has ${issues.length} invalid ${issues.length === 1 ? "entry" : "entries"}:\n${listed}${more}`,
+      issues
+    );
+  }
+
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// Restoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts the ISO date strings of a validated backup back into `Date`
+ * objects, giving rows ready to write to IndexedDB.
+ *
+ * @param data - Validated backup
+ * @returns Table rows keyed like `ExportedData.indexedDB`
+ */
+export function reviveBackup(data: ExportedData) {
+  const configuration = data.indexedDB.configuration.map((c) => ({
+    ...c,
+    dob: new Date(c.dob),
+  }));
+
+  const focus = data.indexedDB.focus.map((f) => ({
+    ...f,
+    startTime: new Date(f.startTime),
+    endTime: new Date(f.endTime),
+    pauses: f.pauses?.map((p) => ({
+      ...p,
+      start: new Date(p.start),
+      end: new Date(p.end),
+    })),
+  }));
+
+  const notes = data.indexedDB.notes.map((n) => ({
+    ...n,
+    createdAt: new Date(n.createdAt),
+    updatedAt: new Date(n.updatedAt),
+  }));
+
+  const projects = data.indexedDB.projects.map((p) => ({
+    ...p,
+    createdAt: new Date(p.createdAt),
+    updatedAt: new Date(p.updatedAt),
+  }));
+
+  const milestones = data.indexedDB.milestones.map((m) => ({
+    ...m,
+    deadline: m.deadline ? new Date(m.deadline) : undefined,
+    createdAt: new Date(m.createdAt),
+    updatedAt: new Date(m.updatedAt),
+  }));
+
+  const issues = data.indexedDB.issues.map((i) => ({
+    ...i,
+    dueDate: i.dueDate ? new Date(i.dueDate) : undefined,
+    createdAt: new Date(i.createdAt),
+    updatedAt: new Date(i.updatedAt),
+  }));
+
+  const invoices = data.indexedDB.invoices.map((i) => ({
+    ...i,
+    issuedAt: new Date(i.issuedAt),
+    dueDate: i.dueDate ? new Date(i.dueDate) : undefined,
+    paidAt: i.paidAt ? new Date(i.paidAt) : undefined,
+    periodStart: i.periodStart ? new Date(i.periodStart) : undefined,
+    createdAt: new Date(i.createdAt),
+    updatedAt: new Date(i.updatedAt),
+  }));
+
+  const timeblocks = data.indexedDB.timeblocks.map((t) => ({
+    ...t,
+    startTime: new Date(t.startTime),
+    endTime: new Date(t.endTime),
+    recurrence: t.recurrence && {
+      ...t.recurrence,
+      until: t.recurrence.until ? new Date(t.recurrence.until) : undefined,
+    },
+    exceptions: t.exceptions?.map((e) => new Date(e)),
+  }));
+
+  const goals = data.indexedDB.goals.map((g) => ({
+    ...g,
+    createdAt: new Date(g.createdAt),
+    updatedAt: new Date(g.updatedAt),
+  }));
+
+  const rewards = data.indexedDB.rewards.map((r) => ({
+    ...r,
+    createdAt: new Date(r.createdAt),
+    updatedAt: new Date(r.updatedAt),
+  }));
+
+  const discounts = data.indexedDB.discounts.map((d) => ({
+    ...d,
+    createdAt: new Date(d.createdAt),
+    updatedAt: new Date(d.updatedAt),
+  }));
+
+  const excalidraw = data.indexedDB.excalidraw.map((e) => ({
+    ...e,
+    createdAt: new Date(e.createdAt),
+    updatedAt: new Date(e.updatedAt),
+  }));
+
+  const aiChats = data.indexedDB.aiChats.map((c) => ({
+    ...c,
+    createdAt: new Date(c.createdAt),
+    updatedAt: new Date(c.updatedAt),
+  }));
+
+  const aiConfig = data.indexedDB.aiConfig;
+
+  return {
+    configuration,
+    focus,
+    notes,
+    projects,
+    milestones,
+    issues,
+    invoices,
+    timeblocks,
+    goals,
+    rewards,
+    discounts,
+    excalidraw,
+    aiChats,
+    aiConfig,
+  };
+}
+
+/** Backup tables with dates restored */
+export type RevivedBackup = ReturnType<typeof reviveBackup>;
@@ -0,0 +1,502 @@
+/**
+ * Backup Merge - Combine a Backup with Existing Data
+ *
+ * Merges a validated backup into the local database instead of replacing it,
+ * so data from two devices can be combined. Records are matched by natural
+ * keys rather than their auto-increment IDs, which differ between devices:
+ *
+ * - Focus sessions and timeblocks: start, end and tag
+ * - Projects, rewards and discounts: title
+ * - Focus goals: tag and period
+ * - Milestones: project and title; issues: milestone and title
+ * - Invoices: number, project and issue date
+ * - Notes: title and creation time
+ * - Excalidraw scenes and AI chats: their IDs
+ *
+ * A matched record is updated when the backup copy was edited more recently.
+ * Sessions and timeblocks have no edit time, so they only gain fields that are
+ * missing locally (a note, a rating or a project link). References between
+ * records (`milestones.projectId`, `issues.milestoneId`, invoice lines, focus
+ * and timeblock links and note hierarchies) are remapped to the local IDs. Local settings
+ * (configuration, AI keys and existing localStorage keys) are never replaced.
+ * Invoice numbers are unique, so a backup invoice whose number is taken by a
+ * different local invoice is added with the next free number.
+ *
+ * @fileoverview Natural-key merge of backups into IndexedDB
+ * @author BIT Focus Development Team
+ */
+
+import db from "./db";
+import { reviveBackup, type ExportedData } from "./backupFormat";
+
+/** What happens to a record from the backup */
+export type MergeAction = "add" | "update" | "skip";
+
+/** Parts of a backup reported in a merge summary, in merge order */
+export const MERGE_TARGETS = [
+  "projects",
+  "milestones",
+  "issues",
+  "invoices",
+  "focus",
+  "timeblocks",
+  "notes",
+  "goals",
+  "rewards",
+  "discounts",
+  "excalidraw",
+  "aiChats",
+  "aiConfig",
+  "configuration",
+  "localStorage",
+] as const;
+
+export type MergeTarget = (typeof MERGE_TARGETS)[number];
+
+/** Record counts per action for one table */
+export type MergeCounts = Record<MergeAction, number> & {
+  /** Added records that were given a new number (invoices only) */
+  renumbered: number;
+};
+
+/** Record counts per action for every table */
+export type MergeSummary = Record<MergeTarget, MergeCounts>;
+
+/** Creates a summary with every count at zero */
+function emptySummary(): MergeSummary {
+  return Object.fromEntries(
+    MERGE_TARGETS.map((target) => [target, { add: 0, update: 0, skip: 0, renumbered: 0 }])
+  ) as MergeSummary;
+}
+
+/** Returns a copy of a row without its primary key, for auto-increment tables */
+function withoutId<T extends { id?: unknown }>(row: T): T {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+}
+
+/** Newer edits win; equal or older copies are skipped */
+function isNewer(incoming: { updatedAt: Date }, existing: { updatedAt: Date }): boolean {
+  return incoming.updatedAt.getTime() > existing.updatedAt.getTime();
+}
+
+/**
+ * Copies fields that are missing on the local record from the backup copy.
+ *
+ * @returns The completed record, or null when the backup adds nothing
+ */
+function fillMissing<T extends object>(existing: T, incoming: Partial<T>): T | null {
+  const merged = { ...existing } as Record<string, unknown>;
+  let changed = false;
+  for (const [key, value] of Object.entries(incoming)) {
+    if (value !== undefined && merged[key] === undefined) {
+      merged[key] = value;
+      changed = true;
+    }
+  }
+  return changed ? (merged as T) : null;
+}
+
+/** Natural key of a focus session or timeblock */
+function spanKey(row: { startTime: Date; endTime: Date; tag: string }): string {
+  return `${row.startTime.getTime()}|${row.endTime.getTime()}|${row.tag}`;
+}
+
+/**
+ * Merges a validated backup into the database, or works out what a merge
+ * would do without writing anything.
+ *
+ * All table writes happen in one transaction. In a dry run, records that
+ * would be added get temporary negative IDs so their children are still
+ * matched (and counted) correctly.
+ *
+ * @param data - Validated backup (see `parseBackup`)
+ * @param dryRun - Only count, do not write
+ * @returns Counts of added, updated and skipped records per table
+ */
+export async function mergeBackup(data: ExportedData, dryRun = false): Promise<MergeSummary> {
+  const incoming = reviveBackup(data);
+  const summary = emptySummary();
+  let placeholderId = 0;
+
+  /** Adds a row and returns its local ID */
+  const add = async (insert: () => Promise<number>): Promise<number> => {
+    return dryRun ? --placeholderId : insert();
+  };
+  /** Runs a write unless this is a dry run */
+  const write = async (run: () => Promise<unknown>): Promise<void> => {
+    if (!dryRun) await run();
+  };
+
+  await db.transaction(
+    dryRun ? "r" : "rw",
+    [
+      db.configuration,
+      db.focus,
+      db.notes,
+      db.projects,
+      db.milestones,
+      db.issues,
+      db.invoices,
+      db.timeblocks,
+      db.goals,
+      db.rewards,
+      db.discounts,
+      db.excalidraw,
+      db.aiChats,
+      db.aiConfig,
+    ],
+    async () => {
+      // Projects, by title
+      const projectIds = new Map<number, number>();
+      const projectsByTitle = new Map((await db.projects.toArray()).map((p) => [p.title, p]));
+      for (const project of incoming.projects) {
+        const existing = projectsByTitle.get(project.title);
+        let localId: number;
+        if (!existing) {
+          localId = await add(() => db.projects.add(withoutId(project)));
+          projectsByTitle.set(project.title, { ...project, id: localId });
+          summary.projects.add++;
+        } else {
+          localId = existing.id!;
+          if (isNewer(project, existing)) {
+            await write(() => db.projects.put({ ...project, id: localId }));
+            summary.projects.update++;
+          } else {
+            summary.projects.skip++;
+          }
+        }
+        if (project.id !== undefined) projectIds.set(project.id, localId);
+      }
+
+      // Milestones, by project and title
+      const milestoneIds = new Map<number, number>();
+      const milestoneKey = (projectId: number, title: string) => `${projectId}|${title}`;
+      const milestonesByKey = new Map(
+        (await db.milestones.toArray()).map((m) => [milestoneKey(m.projectId, m.title), m])
+      );
+      for (const milestone of incoming.milestones) {
+        const projectId = projectIds.get(milestone.projectId);
+        if (projectId === undefined) {
+          // Its project is not in the backup
+          summary.milestones.skip++;
+          continue;
+        }
+        const row = { ...milestone, projectId };
+        const key = milestoneKey(projectId, milestone.title);
+        const existing = milestonesByKey.get(key);
+        let localId: number;
+        if (!existing) {
+          localId = await add(() => db.milestones.add(withoutId(row)));
+          milestonesByKey.set(key, { ...row, id: localId });
+          summary.milestones.add++;
+        } else {
+          localId = existing.id!;
+          if (isNewer(row, existing)) {
+            await write(() => db.milestones.put({ ...row, id: localId }));
+            summary.milestones.update++;
+          } else {
+            summary.milestones.skip++;
+          }
+        }
+        if (milestone.id !== undefined) milestoneIds.set(milestone.id, localId);
+      }
+
+      // Issues, by milestone and title
+      const issueIds = new Map<number, number>();
+      const issueKey = (milestoneId: number, title: string) => `${milestoneId}|${title}`;
+      const issuesByKey = new Map(
+        (await db.issues.toArray()).map((i) => [issueKey(i.milestoneId, i.title), i])
+      );
+      for (const issue of incoming.issues) {
+        const milestoneId = milestoneIds.get(issue.milestoneId);
+        if (milestoneId === undefined) {
+          summary.issues.skip++;
+          continue;
+        }
+        const row = { ...issue, milestoneId };
+        const key = issueKey(milestoneId, issue.title);
+        const existing = issuesByKey.get(key);
+        let localId: number;
+        if (!existing) {
+          localId = await add(() => db.issues.add(withoutId(row)));
+          issuesByKey.set(key, { ...row, id: localId });
+          summary.issues.add++;
+        } else {
+          localId = existing.id!;
+          if (isNewer(row, existing)) {
+            await write(() => db.issues.put({ ...row, id: localId }));
+            summary.issues.update++;
+          } else {
+            summary.issues.skip++;
+          }
+        }
+        if (issue.id !== undefined) issueIds.set(issue.id, localId);
+      }
+
+      // Invoices, by number, project and issue date. Another invoice with the
+      // same number (issued on another device) is added after the highest
+      // number; a copy renumbered by an earlier merge is found by its project
+      // and creation time, so merging the same backup again adds nothing.
+      const localInvoices = await db.invoices.toArray();
+      const invoicesByNumber = new Map(localInvoices.map((i) => [i.number, i]));
+      let lastNumber = Math.max(
+        0,
+        ...localInvoices.map((i) => i.number),
+        ...incoming.invoices.map((i) => i.number)
+      );
+      for (const invoice of incoming.invoices) {
+        const projectId = projectIds.get(invoice.projectId);
+        if (projectId === undefined) {
+          summary.invoices.skip++;
+          continue;
+        }
+        const sameNumber = invoicesByNumber.get(invoice.number);
+        const existing =
+          sameNumber &&
+          sameNumber.projectId === projectId &&
+          sameNumber.issuedAt.getTime() === invoice.issuedAt.getTime()
+            ? sameNumber
+            : sameNumber &&
+              localInvoices.find(
+                (i) =>
+                  i.number !== invoice.number &&
+                  i.projectId === projectId &&
+                  i.createdAt.getTime() === invoice.createdAt.getTime()
+              );
+        const row = {
+          ...invoice,
+          projectId,
+          lines: invoice.lines.map((line) => ({
+            ...line,
+            milestoneId: line.milestoneId !== undefined ? milestoneIds.get(line.milestoneId) : undefined,
+          })),
+        };
+        if (!existing) {
+          if (sameNumber) {
+            row.number = ++lastNumber;
+            summary.invoices.renumbered++;
+          }
+          const localId = await add(() => db.invoices.add(withoutId(row)));
+          invoicesByNumber.set(row.number, { ...row, id: localId });
+          summary.invoices.add++;
+        } else if (isNewer(row, existing)) {
+          await write(() => db.invoices.put({ ...row, id: existing.id, number: existing.number }));
+          summary.invoices.update++;
+        } else {
+          summary.invoices.skip++;
+        }
+      }
+
+      // Focus sessions, by start, end and tag
+      const sessionsByKey = new Map((await db.focus.toArray()).map((f) => [spanKey(f), f]));
+      for (const session of incoming.focus) {
+        const row = {
+          ...session,
+          projectId: session.projectId !== undefined ? projectIds.get(session.projectId) : undefined,
+          milestoneId: session.milestoneId !== undefined ? milestoneIds.get(session.milestoneId) : undefined,
+          issueId: session.issueId !== undefined ? issueIds.get(session.issueId) : undefined,
+        };
+        const key = spanKey(row);
+        const existing = sessionsByKey.get(key);
+        if (!existing) {
+          const localId = await add(() => db.focus.add(withoutId(row)));
+          sessionsByKey.set(key, { ...row, id: localId });
+          summary.focus.add++;
+          continue;
+        }
+        const completed = fillMissing(existing, withoutId(row));
+        if (completed) {
+          await write(() => db.focus.put(completed));
+          sessionsByKey.set(key, completed);
+          summary.focus.update++;
+        } else {
+          summary.focus.skip++;
+        }
+      }
+
+      // Timeblocks, by start, end and tag
+      const blocksByKey = new Map((await db.timeblocks.toArray()).map((t) => [spanKey(t), t]));
+      for (const incomingBlock of incoming.timeblocks) {
+        const block = {
+          ...incomingBlock,
+          projectId: incomingBlock.projectId !== undefined ? projectIds.get(incomingBlock.projectId) : undefined,
+          milestoneId:
+            incomingBlock.milestoneId !== undefined ? milestoneIds.get(incomingBlock.milestoneId) : undefined,
+          issueId: incomingBlock.issueId !== undefined ? issueIds.get(incomingBlock.issueId) : undefined,
+        };
+        const key = spanKey(block);
+        const existing = blocksByKey.get(key);
+        if (!existing) {
+          const localId = await add(() => db.timeblocks.add(withoutId(block)));
+          blocksByKey.set(key, { ...block, id: localId });
+          summary.timeblocks.add++;
+          continue;
+        }
+        const completed = fillMissing(existing, withoutId(block));
+        if (completed) {
+          await write(() => db.timeblocks.put(completed));
+          blocksByKey.set(key, completed);
+          summary.timeblocks.update++;
+        } else {
+          summary.timeblocks.skip++;
+        }
+      }
+
+      // Notes, by title and creation time. Parents and board cards refer to
+      // other notes, so references are remapped once every note has an ID.
+      const noteIds = new Map<number, number>();
+      const noteKey = (n: { title: string; createdAt: Date }) => `${n.title}|${n.createdAt.getTime()}`;
+      const notesByKey = new Map((await db.notes.toArray()).map((n) => [noteKey(n), n]));
+      const writtenNotes: (typeof incoming.notes)[number][] = [];
+      for (const note of incoming.notes) {
+        const existing = notesByKey.get(noteKey(note));
+        let localId: number;
+        if (!existing) {
+          localId = await add(() => db.notes.add(withoutId(note)));
+          notesByKey.set(noteKey(note), { ...note, id: localId });
+          writtenNotes.push({ ...note, id: localId });
+          summary.notes.add++;
+        } else {
+          localId = existing.id!;
+          if (isNewer(note, existing)) {
+            writtenNotes.push({ ...note, id: localId });
+            summary.notes.update++;
+          } else {
+            summary.notes.skip++;
+          }
+        }
+        if (note.id !== undefined) noteIds.set(note.id, localId);
+      }
+      for (const note of writtenNotes) {
+        await write(() =>
+          db.notes.put({
+            ...note,
+            parentId: note.parentId != null ? (noteIds.get(note.parentId) ?? null) : note.parentId,
+            boardData: note.boardData?.map((column) => ({
+              ...column,
+              children: column.children
+                .map((child) => noteIds.get(child))
+                .filter((child): child is number => child !== undefined),
+            })),
+          })
+        );
+      }
+
+      // Focus goals, by tag and period
+      const goalKey = (g: { tag?: string; period: string }) => `${g.tag ?? ""}|${g.period}`;
+      const goalsByKey = new Map((await db.goals.toArray()).map((g) => [goalKey(g), g]));
+      for (const goal of incoming.goals) {
+        const existing = goalsByKey.get(goalKey(goal));
+        if (!existing) {
+          const localId = await add(() => db.goals.add(withoutId(goal)));
+          goalsByKey.set(goalKey(goal), { ...goal, id: localId });
+          summary.goals.add++;
+        } else if (isNewer(goal, existing)) {
+          await write(() => db.goals.put({ ...goal, id: existing.id }));
+          summary.goals.update++;
+        } else {
+          summary.goals.skip++;
+        }
+      }
+
+      // Rewards and discounts, by title
+      const rewardsByTitle = new Map((await db.rewards.toArray()).map((r) => [r.title, r]));
+      for (const reward of incoming.rewards) {
+        const existing = rewardsByTitle.get(reward.title);
+        if (!existing) {
+          const localId = await add(() => db.rewards.add(withoutId(reward)));
+          rewardsByTitle.set(reward.title, { ...reward, id: localId });
+          summary.rewards.add++;
+        } else if (isNewer(reward, existing)) {
+          await write(() => db.rewards.put({ ...reward, id: existing.id }));
+          summary.rewards.update++;
+        } else {
+          summary.rewards.skip++;
+        }
+      }
+
+      const discountsByTitle = new Map((await db.discounts.toArray()).map((d) => [d.title, d]));
+      for (const discount of incoming.discounts) {
+        const existing = discountsByTitle.get(discount.title);
+        if (!existing) {
+          const localId = await add(() => db.discounts.add(withoutId(discount)));
+          discountsByTitle.set(discount.title, { ...discount, id: localId });
+          summary.discounts.add++;
+        } else if (isNewer(discount, existing)) {
+          await write(() => db.discounts.put({ ...discount, id: existing.id }));
+          summary.discounts.update++;
+        } else {
+          summary.discounts.skip++;
+        }
+      }
+
+      // Excalidraw scenes and AI chats keep their own IDs
+      const scenesById = new Map((await db.excalidraw.toArray()).map((e) => [e.id, e]));
+      for (const scene of incoming.excalidraw) {
+        const existing = scenesById.get(scene.id);
+        if (!existing) {
+          await write(() => db.excalidraw.add(scene));
+          scenesById.set(scene.id, scene);
+          summary.excalidraw.add++;
+        } else if (isNewer(scene, existing)) {
+          await write(() => db.excalidraw.put(scene));
+          summary.excalidraw.update++;
+        } else {
+          summary.excalidraw.skip++;
+        }
+      }
+
+      const chatsById = new Map((await db.aiChats.toArray()).map((c) => [c.id, c]));
+      for (const chat of incoming.aiChats) {
+        const existing = chatsById.get(chat.id);
+        if (!existing) {
+          await write(() => db.aiChats.add(chat));
+          chatsById.set(chat.id, chat);
+          summary.aiChats.add++;
+        } else if (isNewer(chat, existing)) {
+          await write(() => db.aiChats.put(chat));
+          summary.aiChats.update++;
+        } else {
+          summary.aiChats.skip++;
+        }
+      }
+
+      // Settings are only filled in when missing locally
+      const configKeys = new Set((await db.aiConfig.toArray()).map((c) => c.key));
+      for (const config of incoming.aiConfig) {
+        if (configKeys.has(config.key)) {
+          summary.aiConfig.skip++;
+        } else {
+          await write(() => db.aiConfig.add(config));
+          configKeys.add(config.key);
+          summary.aiConfig.add++;
+        }
+      }
+
+      let hasConfiguration = (await db.configuration.count()) > 0;
+      for (const configuration of incoming.configuration) {
+        if (hasConfiguration) {
+          summary.configuration.skip++;
+        } else {
+          await write(() => db.configuration.add(configuration));
+          hasConfiguration = true;
+          summary.configuration.add++;
+        }
+      }
+    }
+  );
+
+  // localStorage: only keys that are not set locally
+  for (const [key, value] of Object.entries(data.localStorage)) {
+    if (localStorage.getItem(key) !== null) {
+      summary.localStorage.skip++;
+    } else {
+      if (!dryRun) localStorage.setItem(key, value);
+      summary.localStorage.add++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,68 @@
+/**
+ * Calendar Events - Focus Sessions as Calendar Blocks
+ *
+ * Back-to-back sessions of the same tag read as one block of work on a
+ * calendar, so sessions separated by short breaks are merged before they are
+ * shown on the Calendar page or exported to other calendar apps.
+ *
+ * @fileoverview Merging of focus sessions into calendar blocks
+ * @author BIT Focus Development Team
+ */
+
+import type { FocusSession } from "@/hooks/useFocus";
+
+/** Longest break between same-tag sessions that are still merged */
+export const FOCUS_MERGE_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * Consecutive sessions of one tag shown as a single block
+ */
+export interface MergedFocusBlock {
+  tag: string;
+  start: Date;
+  end: Date;
+  /** Merged sessions, oldest first */
+  sessions: FocusSession[];
+}
+
+/**
+ * Merges sessions of the same tag that follow each other with a break of
+ * at most `FOCUS_MERGE_GAP_MS`.
+ *
+ * @param focusSessions - Sessions in any order
+ * @returns Blocks in start order
+ */
+export function mergeFocusSessions(focusSessions: FocusSession[]): MergedFocusBlock[] {
+  if (!focusSessions.length) return [];
+
+  const sorted = [...focusSessions].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+
+  const merged: MergedFocusBlock[] = [];
+  let group = [sorted[0]];
+
+  const flush = (g: FocusSession[]) => {
+    merged.push({
+      tag: g[0].tag,
+      start: new Date(g[0].startTime),
+      end: new Date(g[g.length - 1].endTime),
+      sessions: g,
+    });
+  };
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = group[group.length - 1];
+    const curr = sorted[i];
+    const gap = new Date(curr.startTime).getTime() - new Date(prev.endTime).getTime();
+    if (curr.tag === prev.tag && gap >= 0 && gap <= FOCUS_MERGE_GAP_MS) {
+      group.push(curr);
+    } else {
+      flush(group);
+      group = [curr];
+    }
+  }
+  flush(group);
+
+  return merged;
+}
@@ -0,0 +1,216 @@
+/**
+ * CSV Exports - Focus, Timeblocks, Issues and Milestones as Spreadsheets
+ *
+ * Builds CSV files for accounting and analysis outside the app. Focus
+ * sessions and timeblocks are filtered by a date range and hidden tags, the
+ * same filters the Calendar page applies. Issues and milestones are exported
+ * with the titles of their milestone and project so each row stands alone.
+ *
+ * Two flavours are produced: plain RFC 4180 CSV, and an Excel-friendly
+ * variant with a UTF-8 byte order mark (so accents and symbols open
+ * correctly) and text that could be read as a formula neutralised.
+ *
+ * @fileoverview CSV builders and download helper
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { FocusSession } from "@/hooks/useFocus";
+import type { Issue, Milestone, MilestoneWithProgress, Project } from "@/hooks/useProjects";
+import type { TimeBlock } from "./db";
+import { expandTimeblocks } from "./timeblockRecurrence";
+import { downloadFile, getFocusedSeconds } from "./utils";
+
+/** CSV flavours */
+export const CSV_FORMATS = ["csv", "excel"] as const;
+export type CsvFormat = (typeof CSV_FORMATS)[number];
+
+/**
+ * Filters for focus sessions and timeblocks, matching the Calendar page
+ */
+export interface CsvFilter {
+  /** Earliest start time, inclusive */
+  start?: Date;
+  /** Latest start time, inclusive */
+  end?: Date;
+  /** Tags to leave out */
+  hiddenTags?: Set<string>;
+}
+
+type CsvValue = string | number | Date | undefined | null;
+
+const DATE_TIME_FORMAT = "YYYY-MM-DD HH:mm:ss";
+const DATE_FORMAT = "YYYY-MM-DD";
+
+function formatCell(value: CsvValue, format: CsvFormat): string {
+  if (value === undefined || value === null) return "";
+  let text = value instanceof Date ? dayjs(value).format(DATE_TIME_FORMAT) : String(value);
+
+  // Excel runs cells starting with these characters as formulas
+  if (format === "excel" && typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Joins a header and rows into CSV text.
+ *
+ * @param header - Column names
+ * @param rows - One array of values per row
+ * @param format - Plain CSV or the Excel-friendly variant
+ */
+export function toCSV(header: string[], rows: CsvValue[][], format: CsvFormat = "csv"): string {
+  const lines = [header, ...rows].map((row) => row.map((value) => formatCell(value, format)).join(","));
+  const text = lines.join("\r\n") + "\r\n";
+  return format === "excel" ? `\uFEFF${text}` : text;
+}
+
+function matchesFilter(item: { tag: string; startTime: Date }, filter: CsvFilter): boolean {
+  const t = new Date(item.startTime).getTime();
+  if (filter.start && t < filter.start.getTime()) return false;
+  if (filter.end && t > filter.end.getTime()) return false;
+  return !filter.hiddenTags?.has(item.tag);
+}
+
+function byStartTime<T extends { startTime: Date }>(a: T, b: T): number {
+  return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+}
+
+/** Seconds as H:MM:SS */
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(s % 60).padStart(2, "0")}`;
+}
+
+/** Seconds as decimal hours, for summing in a spreadsheet */
+function toHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+/**
+ * Focus sessions, oldest first. Duration is the focused time, without pauses.
+ */
+export function focusSessionsCSV(sessions: FocusSession[], filter: CsvFilter, format?: CsvFormat): string {
+  const rows = sessions
+    .filter((s) => matchesFilter(s, filter))
+    .sort(byStartTime)
+    .map((s) => {
+      const seconds = getFocusedSeconds(s);
+      return [s.tag, new Date(s.startTime), new Date(s.endTime), formatDuration(seconds), toHours(seconds), s.rating, s.note];
+    });
+  return toCSV(["Tag", "Start", "End", "Duration", "Hours", "Rating", "Note"], rows, format);
+}
+
+/**
+ * Timeblocks (planned time), oldest first. Repeating timeblocks give one row
+ * per occurrence; without an end date they are listed up to today or the
+ * last single timeblock, whichever is later.
+ */
+export function timeblocksCSV(timeblocks: TimeBlock[], filter: CsvFilter, format?: CsvFormat): string {
+  const from = filter.start ?? new Date(0);
+  const to =
+    filter.end ??
+    new Date(Math.max(Date.now(), ...timeblocks.map((tb) => new Date(tb.endTime).getTime())));
+  const rows = expandTimeblocks(timeblocks, from, to)
+    .map((o) => ({ ...o.timeblock, startTime: o.start, endTime: o.end }))
+    .filter((tb) => matchesFilter(tb, filter))
+    .sort(byStartTime)
+    .map((tb) => {
+      const seconds = (tb.endTime.getTime() - tb.startTime.getTime()) / 1000;
+      return [tb.tag, tb.title, tb.startTime, tb.endTime, formatDuration(seconds), toHours(seconds)];
+    });
+  return toCSV(["Tag", "Title", "Start", "End", "Duration", "Hours"], rows, format);
+}
+
+/**
+ * Issues with their milestone and project, grouped by project and milestone.
+ */
+export function issuesCSV(
+  projects: Project[],
+  milestones: Milestone[],
+  issues: Issue[],
+  format: CsvFormat = "csv"
+): string {
+  const milestoneById = new Map(milestones.map((m) => [m.id, m]));
+  const projectById = new Map(projects.map((p) => [p.id, p]));
+
+  const rows = issues
+    .map((issue) => {
+      const milestone = milestoneById.get(issue.milestoneId);
+      const project = milestone ? projectById.get(milestone.projectId) : undefined;
+      return { issue, milestone, project };
+    })
+    .sort(
+      (a, b) =>
+        (a.project?.title ?? "").localeCompare(b.project?.title ?? "") ||
+        (a.milestone?.title ?? "").localeCompare(b.milestone?.title ?? "")
+    )
+    .map(({ issue, milestone, project }) => [
+      project?.title,
+      milestone?.title,
+      issue.title,
+      issue.label,
+      issue.status,
+      issue.dueDate && dayjs(issue.dueDate).format(DATE_FORMAT),
+      dayjs(issue.createdAt).format(DATE_FORMAT),
+    ]);
+
+  return toCSV(["Project", "Milestone", "Issue", "Label", "Status", "Due", "Created"], rows, format);
+}
+
+/**
+ * Milestones with budgets and tracked focus time, grouped by project.
+ *
+ * @param projects - Projects with stats from `useProjects.getAllProjectsWithStats`
+ * @param currency - Currency the budgets are in
+ */
+export function milestonesCSV(
+  projects: (Project & { milestones: MilestoneWithProgress[] })[],
+  currency: string,
+  format: CsvFormat = "csv"
+): string {
+  const rows = [...projects]
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .flatMap((project) =>
+      project.milestones.map((m) => [
+        project.title,
+        m.title,
+        m.status,
+        m.deadline && dayjs(m.deadline).format(DATE_FORMAT),
+        m.budget,
+        currency,
+        `${m.completedIssues}/${m.totalIssues}`,
+        m.progress,
+        toHours(m.trackedSeconds),
+      ])
+    );
+
+  return toCSV(
+    ["Project", "Milestone", "Status", "Deadline", "Budget", "Currency", "Issues done", "Progress %", "Tracked hours"],
+    rows,
+    format
+  );
+}
+
+/**
+ * File name for an export: `<name>_<from>_<to>.csv`, or `<name>_<today>.csv`
+ * without a range.
+ */
+export function csvFilename(name: string, filter: CsvFilter = {}): string {
+  const dates =
+    filter.start && filter.end
+      ? [filter.start, filter.end].map((d) => dayjs(d).format(DATE_FORMAT)).join("_")
+      : dayjs().format(DATE_FORMAT);
+  return `${name}_${dates}.csv`;
+}
+
+/**
+ * Downloads CSV text.
+ */
+export function downloadCSV(content: string, filename: string): void {
+  downloadFile(content, filename, "text/csv;charset=utf-8");
+}
@@ -12,6 +12,8 @@
  * - Projects: Project management with markdown notes and quick links
  * - Milestones: Project milestones with budgets and deadlines
  * - Issues: Issue tracking within milestones
+ * - Invoices: Numbered invoices billed from milestones or tracked time
+ * - Goals: Focus time targets per day, week or month
  *
  * Features:
  * - Type-safe database operations with TypeScript
@@ -36,12 +38,50 @@ import Dexie from "dexie";
 import type { ComponentProps } from "react";
 import type { Excalidraw as ExcalidrawComponent } from "@excalidraw/excalidraw";
 
+/**
+ * Focus Pause Interface
+ *
+ * A pause taken in the middle of a focus session, with an optional
+ * interruption reason.
+ */
+export interface FocusPause {
+  /** When the timer was paused */
+  start: Date;
+  /** When the timer was resumed */
+  end: Date;
+  /** Why the session was interrupted (e.g. "call", "distraction") */
+  reason?: string;
+}
+
+/**
+ * How a timeblock repeats. Occurrences keep the wall-clock time of the first
+ * one; a series ends on `until` (last day an occurrence may start on) or
+ * after `count` occurrences, or runs on indefinitely.
+ */
+export interface TimeblockRecurrence {
+  freq: "daily" | "weekdays" | "weekly";
+  /** Days of the week for weekly series (0 = Sunday) */
+  days?: number[];
+  until?: Date;
+  count?: number;
+}
+
 export interface TimeBlock {
   id?: number;
   tag: string;
   startTime: Date;
   endTime: Date;
   title?: string;
+  /** Repeat rule; the start and end times are those of the first occurrence */
+  recurrence?: TimeblockRecurrence;
+  /** Start times of occurrences removed from the series */
+  exceptions?: Date[];
+  /** Timer mode the block starts in; the current mode when unset */
+  mode?: "standard" | "pomodoro" | "flowtime";
+  /** Project, milestone and issue the block is planned for; sessions started from it are linked to them */
+  projectId?: number;
+  milestoneId?: number;
+  issueId?: number;
 }
 
 export interface AIChat {
@@ -86,6 +126,75 @@ export interface QuickLink {
   url: string;
 }
 
+/**
+ * Maps an issue status to the board workflow. Issues saved before the
+ * workflow existed were either "Open" (now "Backlog") or "Close" (now "Done").
+ *
+ * @param status - Stored issue status
+ * @returns Workflow status
+ */
+export function upgradeIssueStatus(
+  status: string
+): "Backlog" | "In Progress" | "Review" | "Done" {
+  switch (status) {
+    case "In Progress":
+    case "Review":
+    case "Done":
+      return status;
+    case "Close":
+      return "Done";
+    default:
+      return "Backlog";
+  }
+}
+
+/**
+ * Invoice Line Interface
+ *
+ * A single billed item: a milestone budget or hours of tracked focus time.
+ */
+export interface InvoiceLine {
+  /** Line description shown on the invoice */
+  description: string;
+  /** Quantity billed (1 for a milestone, hours for tracked time) */
+  quantity: number;
+  /** Price per unit in the invoice currency */
+  unitPrice: number;
+  /** Line total (quantity × unit price) */
+  amount: number;
+  /** Milestone billed in full by this line, moved to "Paid" with the invoice */
+  milestoneId?: number;
+}
+
+/**
+ * Invoice Interface
+ *
+ * Defines the structure of an invoice generated for a project
+ */
+export interface Invoice {
+  id?: number;
+  /** Sequential invoice number, unique across projects */
+  number: number;
+  projectId: number;
+  /** Whether lines bill milestone budgets or tracked hours */
+  basis: "milestones" | "hours";
+  status: "Unpaid" | "Paid";
+  /** Currency code at the time of issue */
+  currency: string;
+  /** Who the invoice is addressed to */
+  billTo: string;
+  lines: InvoiceLine[];
+  total: number;
+  notes?: string;
+  issuedAt: Date;
+  dueDate?: Date;
+  paidAt?: Date;
+  /** Start of the tracked time billed by an hours invoice */
+  periodStart?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Reward Item Interface
  *
@@ -116,6 +225,74 @@ export interface SpecialDiscount {
   updatedAt: Date;
 }
 
+/**
+ * Focus Goal Interface
+ *
+ * A target amount of focus time per day, week or month, for one tag or for
+ * all focus time.
+ */
+export interface FocusGoal {
+  id?: number;
+  /** Tag the goal counts; undefined for all focus time */
+  tag?: string;
+  period: "daily" | "weekly" | "monthly";
+  /** Target focus time per period, in hours */
+  targetHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Stored File Handle Interface
+ *
+ * A File System Access handle kept between visits, such as the folder
+ * automatic backups are written to. Handles belong to this browser, so they
+ * are never included in backups.
+ */
+export interface StoredFileHandle {
+  key: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+/**
+ * External Event Interface
+ *
+ * An event read from an imported .ics calendar. Recurring events keep their
+ * RRULE and are expanded when shown; an edited occurrence of a recurring
+ * event is stored separately with the start it replaces.
+ */
+export interface ExternalEvent {
+  uid: string;
+  title: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** IANA zone or "UTC" recurrences are expanded in; undefined for floating local time */
+  timeZone?: string;
+  rrule?: string;
+  /** Starts of occurrences left out of the recurrence */
+  exdates?: Date[];
+  /** Start of the occurrence this event replaces */
+  recurrenceId?: Date;
+  /** False for events marked free (TRANSP:TRANSPARENT) */
+  busy: boolean;
+}
+
+/**
+ * External Calendar Interface
+ *
+ * A read-only calendar imported from an .ics file and shown on the
+ * Calendar page. It can be imported again from its source, so it is not
+ * included in backups.
+ */
+export interface ExternalCalendar {
+  id?: number;
+  name: string;
+  importedAt: Date;
+  events: ExternalEvent[];
+}
+
 /**
  * Excalidraw Scene Data Interface
  *
@@ -152,7 +329,18 @@ class BitFocusDB extends Dexie {
    * Focus Sessions Table
    */
   focus: Dexie.Table<
-    { id?: number; tag: string; startTime: Date; endTime: Date },
+    {
+      id?: number;
+      tag: string;
+      startTime: Date;
+      endTime: Date;
+      pauses?: FocusPause[];
+      note?: string;
+      rating?: number;
+      projectId?: number;
+      milestoneId?: number;
+      issueId?: number;
+    },
     number
   >;
 
@@ -184,6 +372,7 @@ class BitFocusDB extends Dexie {
       notes: string;
       version: string;
       quickLinks: QuickLink[];
+      hourlyRate?: number;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -217,7 +406,8 @@ class BitFocusDB extends Dexie {
       title: string;
       label: string;
       dueDate?: Date;
-      status: "Open" | "Close";
+      estimateMinutes?: number;
+      status: "Backlog" | "In Progress" | "Review" | "Done";
       description: string;
       createdAt: Date;
       updatedAt: Date;
@@ -225,6 +415,11 @@ class BitFocusDB extends Dexie {
     number
   >;
 
+  /**
+   * Invoices Table
+   */
+  invoices: Dexie.Table<Invoice, number>;
+
   /**
    * Reward Items Table
    */
@@ -244,6 +439,21 @@ class BitFocusDB extends Dexie {
   aiChats: Dexie.Table<AIChat, string>;
   aiConfig: Dexie.Table<AIConfig, string>;
 
+  /**
+   * Focus Goals Table
+   */
+  goals: Dexie.Table<FocusGoal, number>;
+
+  /**
+   * File Handles Table (device-specific, not backed up)
+   */
+  fileHandles: Dexie.Table<StoredFileHandle, string>;
+
+  /**
+   * Imported Calendars Table (read-only overlay, not backed up)
+   */
+  externalCalendars: Dexie.Table<ExternalCalendar, number>;
+
   constructor() {
     super("BitFocusDB");
 
@@ -411,6 +621,38 @@ class BitFocusDB extends Dexie {
       timeblocks: "++id, tag, startTime, endTime",
     });
 
+    // Database version 12 schema definition (add project invoices)
+    this.version(12).stores({
+      invoices: "++id, &number, projectId, status, issuedAt",
+    });
+
+    // Database version 13 schema definition (issue board workflow statuses)
+    this.version(13)
+      .stores({})
+      .upgrade((tx) => {
+        return tx
+          .table("issues")
+          .toCollection()
+          .modify((issue) => {
+            issue.status = upgradeIssueStatus(issue.status);
+          });
+      });
+
+    // Database version 14 schema definition (linked backup folder)
+    this.version(14).stores({
+      fileHandles: "key",
+    });
+
+    // Database version 15 schema definition (imported .ics calendars)
+    this.version(15).stores({
+      externalCalendars: "++id, &name",
+    });
+
+    // Database version 16 schema definition (focus goals)
+    this.version(16).stores({
+      goals: "++id, tag, period",
+    });
+
     // Table reference assignment
     this.timeblocks = this.table("timeblocks");
     this.configuration = this.table("configuration");
@@ -419,11 +661,15 @@ class BitFocusDB extends Dexie {
     this.projects = this.table("projects");
     this.milestones = this.table("milestones");
     this.issues = this.table("issues");
+    this.invoices = this.table("invoices");
     this.rewards = this.table("rewards");
     this.discounts = this.table("discounts");
     this.excalidraw = this.table("excalidraw_v2");
     this.aiChats = this.table("ai_chats");
     this.aiConfig = this.table("ai_config");
+    this.fileHandles = this.table("fileHandles");
+    this.externalCalendars = this.table("externalCalendars");
+    this.goals = this.table("goals");
   }
 }
 
@@ -0,0 +1,126 @@
+/**
+ * Focus Goals - Progress Towards Focus Time Targets
+ *
+ * Works out how far a goal such as "10 hours of #thesis per week" has come
+ * from the recorded focus sessions. A goal counts the focused time (pauses
+ * excluded) of sessions that start in its current day, Monday-to-Sunday week
+ * or calendar month, and only those with its tag when it has one.
+ *
+ * @fileoverview Focus goal periods and progress calculations
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { FocusSession } from "@/hooks/useFocus";
+import type { FocusGoal } from "./db";
+import { getFocusedSeconds } from "./utils";
+import { startOfPlanWeek } from "./timeblockTemplates";
+
+export const GOAL_PERIODS = ["daily", "weekly", "monthly"] as const;
+
+export type GoalPeriod = (typeof GOAL_PERIODS)[number];
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  daily: "per day",
+  weekly: "per week",
+  monthly: "per month",
+};
+
+/**
+ * Goal Progress Interface
+ */
+export interface GoalProgress {
+  goal: FocusGoal;
+  focusedSeconds: number;
+  targetSeconds: number;
+  /** Share of the target reached, from 0; above 1 when exceeded */
+  ratio: number;
+  /** Start of the period containing the date asked about */
+  start: Date;
+  /** Start of the next period */
+  end: Date;
+}
+
+/**
+ * The day, Monday-to-Sunday week or month of a goal period containing a date.
+ */
+export function goalPeriodRange(period: GoalPeriod, date: Date): { start: Date; end: Date } {
+  if (period === "weekly") {
+    const start = dayjs(startOfPlanWeek(date));
+    return { start: start.toDate(), end: start.add(1, "week").toDate() };
+  }
+  const unit = period === "daily" ? "day" : "month";
+  const start = dayjs(date).startOf(unit);
+  return { start: start.toDate(), end: start.add(1, unit).toDate() };
+}
+
+/** Whether a session counts towards a goal with the given tag */
+function countsTowards(session: FocusSession, tag?: string): boolean {
+  return tag === undefined || session.tag === tag;
+}
+
+/**
+ * Progress of a goal in its period containing a date.
+ *
+ * @param goal - Goal to measure
+ * @param sessions - All focus sessions
+ * @param date - Date within the period to measure; defaults to now
+ */
+export function goalProgress(goal: FocusGoal, sessions: FocusSession[], date: Date = new Date()): GoalProgress {
+  const { start, end } = goalPeriodRange(goal.period, date);
+  const focusedSeconds = sessions
+    .filter((s) => s.startTime >= start && s.startTime < end && countsTowards(s, goal.tag))
+    .reduce((total, s) => total + getFocusedSeconds(s), 0);
+  const targetSeconds = goal.targetHours * 3600;
+
+  return {
+    goal,
+    focusedSeconds,
+    targetSeconds,
+    ratio: targetSeconds > 0 ? focusedSeconds / targetSeconds : 0,
+    start,
+    end,
+  };
+}
+
+/**
+ * Days, as `YYYY-MM-DD`, on which every daily goal that existed then was
+ * met. A goal counts from the day it was created, and days before any daily
+ * goal existed are never included.
+ *
+ * @param goals - All goals
+ * @param sessions - All focus sessions
+ */
+export function goalDays(goals: FocusGoal[], sessions: FocusSession[]): Set<string> {
+  const daily = goals
+    .filter((g) => g.period === "daily")
+    .map((g) => ({ ...g, since: dayjs(g.createdAt).format("YYYY-MM-DD") }));
+  const days = new Set<string>();
+  if (!daily.length) return days;
+
+  // Focused seconds per day, overall and per tag
+  const totals = new Map<string, Map<string | undefined, number>>();
+  for (const session of sessions) {
+    const key = dayjs(session.startTime).format("YYYY-MM-DD");
+    const day = totals.get(key) ?? new Map<string | undefined, number>();
+    const seconds = getFocusedSeconds(session);
+    day.set(undefined, (day.get(undefined) ?? 0) + seconds);
+    day.set(session.tag, (day.get(session.tag) ?? 0) + seconds);
+    totals.set(key, day);
+  }
+
+  totals.forEach((day, key) => {
+    // Keys sort as dates, so goals created on or before this day apply
+    const applied = daily.filter((g) => g.since <= key);
+    if (applied.length && applied.every((g) => (day.get(g.tag) ?? 0) >= g.targetHours * 3600)) {
+      days.add(key);
+    }
+  });
+  return days;
+}
+
+/** Short description of a goal, e.g. "10h of #thesis per week" */
+export function describeGoal(goal: Pick<FocusGoal, "tag" | "period" | "targetHours">): string {
+  const subject = goal.tag ? `#${goal.tag}` : "focus";
+  return `${goal.targetHours}h of ${subject} ${GOAL_PERIOD_LABELS[goal.period]}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * ICS Export - Focus Sessions and Timeblocks for Other Calendar Apps
+ *
+ * Writes an iCalendar (RFC 5545) file with one VEVENT per merged focus block
+ * and per timeblock occurrence in a date range. Focus blocks and timeblocks
+ * carry different CATEGORIES ("Focus" or "Planned", plus the tag) so
+ * calendar apps can tell done from planned time.
+ *
+ * Tag colours are written twice: as the RFC 7986 COLOR property, which only
+ * allows CSS colour names and therefore gets the nearest one, and as the
+ * exact hex value in X-BITFOCUS-COLOR.
+ *
+ * @fileoverview iCalendar export of focus blocks and timeblocks
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { FocusSession } from "@/hooks/useFocus";
+import type { SavedTag } from "@/hooks/useTag";
+import { mergeFocusSessions } from "./calendarEvents";
+import type { TimeBlock } from "./db";
+import { expandTimeblocks } from "./timeblockRecurrence";
+import { downloadFile, durationFromSeconds, formatTimeNew, getFocusedSeconds, getTagColor } from "./utils";
+
+/** CATEGORIES value of each kind of event */
+export const ICS_CATEGORIES = {
+  focus: "Focus",
+  timeblock: "Planned",
+} as const;
+
+/** Domain part of event UIDs */
+const UID_DOMAIN = "bitfocus.app";
+
+/**
+ * What to export
+ */
+export interface IcsExportOptions {
+  /** Events ending after this are included */
+  from: Date;
+  /** Events starting before this are included */
+  to: Date;
+  focus: boolean;
+  timeblocks: boolean;
+  /** Tags to leave out */
+  hiddenTags?: Set<string>;
+}
+
+/** CSS colour names allowed by the COLOR property, with their RGB values */
+const CSS_COLORS: [string, number, number, number][] = [
+  ["black", 0, 0, 0],
+  ["gray", 128, 128, 128],
+  ["silver", 192, 192, 192],
+  ["white", 255, 255, 255],
+  ["maroon", 128, 0, 0],
+  ["red", 255, 0, 0],
+  ["crimson", 220, 20, 60],
+  ["orange", 255, 165, 0],
+  ["gold", 255, 215, 0],
+  ["yellow", 255, 255, 0],
+  ["olive", 128, 128, 0],
+  ["lime", 0, 255, 0],
+  ["green", 0, 128, 0],
+  ["seagreen", 46, 139, 87],
+  ["teal", 0, 128, 128],
+  ["turquoise", 64, 224, 208],
+  ["aqua", 0, 255, 255],
+  ["steelblue", 70, 130, 180],
+  ["dodgerblue", 30, 144, 255],
+  ["blue", 0, 0, 255],
+  ["navy", 0, 0, 128],
+  ["slateblue", 106, 90, 205],
+  ["purple", 128, 0, 128],
+  ["orchid", 218, 112, 214],
+  ["fuchsia", 255, 0, 255],
+  ["hotpink", 255, 105, 180],
+  ["pink", 255, 192, 203],
+  ["brown", 165, 42, 42],
+  ["chocolate", 210, 105, 30],
+  ["tan", 210, 180, 140],
+];
+
+/** Nearest CSS colour name to a #rrggbb colour */
+function nearestColorName(hex: string): string | null {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return null;
+  const [r, g, b] = match.slice(1).map((h) => parseInt(h, 16));
+  let best = CSS_COLORS[0];
+  let bestDistance = Infinity;
+  for (const color of CSS_COLORS) {
+    const distance = (color[1] - r) ** 2 + (color[2] - g) ** 2 + (color[3] - b) ** 2;
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best[0];
+}
+
+/** Escapes TEXT values (RFC 5545 §3.3.11) */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** UTC date-time, e.g. 20250115T083000Z */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Folds a content line to at most 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let limit = 75;
+  for (const char of line) {
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+      // Continuation lines start with a space, which counts towards the limit
+      limit = 74;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function buildEvent(props: [string, string | undefined][]): string[] {
+  return [
+    "BEGIN:VEVENT",
+    ...props.filter(([, value]) => value !== undefined).map(([name, value]) => `${name}:${value}`),
+    "END:VEVENT",
+  ];
+}
+
+function colorProps(savedTags: SavedTag[], tag: string): [string, string | undefined][] {
+  const [hex] = getTagColor(savedTags, tag);
+  return [
+    ["COLOR", nearestColorName(hex) ?? undefined],
+    ["X-BITFOCUS-COLOR", hex],
+  ];
+}
+
+/**
+ * Builds an .ics calendar.
+ *
+ * @param focusSessions - All focus sessions; they are merged like on the Calendar page
+ * @param timeblocks - All timeblocks; repeating ones give one event per occurrence
+ * @param savedTags - For tag colours
+ * @param options - Range and kinds of events
+ * @returns iCalendar text
+ */
+export function buildCalendarICS(
+  focusSessions: FocusSession[],
+  timeblocks: TimeBlock[],
+  savedTags: SavedTag[],
+  options: IcsExportOptions
+): string {
+  const { from, to, hiddenTags } = options;
+  const inRange = (start: Date, end: Date, tag: string) =>
+    start < to && end > from && !hiddenTags?.has(tag);
+  const stamp = formatDateTime(new Date());
+  const events: string[] = [];
+
+  if (options.focus) {
+    for (const block of mergeFocusSessions(focusSessions)) {
+      if (!inRange(block.start, block.end, block.tag)) continue;
+      const focused = block.sessions.reduce((sum, s) => sum + getFocusedSeconds(s), 0);
+      const notes = block.sessions.map((s) => s.note?.trim()).filter(Boolean);
+      const description = [
+        `${block.sessions.length} session${block.sessions.length !== 1 ? "s" : ""}, ${formatTimeNew(durationFromSeconds(focused), "H:M:S", "text")} focused`,
+        ...notes,
+      ].join("\n");
+
+      events.push(
+        ...buildEvent([
+          ["UID", `focus-${block.sessions[0].id}@${UID_DOMAIN}`],
+          ["DTSTAMP", stamp],
+          ["DTSTART", formatDateTime(block.start)],
+          ["DTEND", formatDateTime(block.end)],
+          ["SUMMARY", escapeText(block.tag)],
+          ["DESCRIPTION", escapeText(description)],
+          ["CATEGORIES", `${ICS_CATEGORIES.focus},${escapeText(block.tag)}`],
+          ...colorProps(savedTags, block.tag),
+          ["TRANSP", "OPAQUE"],
+        ])
+      );
+    }
+  }
+
+  if (options.timeblocks) {
+    for (const { timeblock: tb, start, end, recurring } of expandTimeblocks(timeblocks, from, to)) {
+      if (hiddenTags?.has(tb.tag)) continue;
+
+      events.push(
+        ...buildEvent([
+          ["UID", `timeblock-${tb.id}${recurring ? `-${formatDateTime(start)}` : ""}@${UID_DOMAIN}`],
+          ["DTSTAMP", stamp],
+          ["DTSTART", formatDateTime(start)],
+          ["DTEND", formatDateTime(end)],
+          ["SUMMARY", escapeText(tb.title || tb.tag || "Time Block")],
+          ["DESCRIPTION", tb.title && tb.tag ? escapeText(`Planned: ${tb.tag}`) : undefined],
+          ["CATEGORIES", [ICS_CATEGORIES.timeblock, tb.tag].filter(Boolean).map((c) => escapeText(c)).join(",")],
+          ...colorProps(savedTags, tb.tag),
+          ["TRANSP", "OPAQUE"],
+        ])
+      );
+    }
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//BIT Focus//Calendar Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:BIT Focus",
+    ...events,
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Downloads a calendar as `bitfocus_<from>_<to>.ics`.
+ */
+export function downloadICS(content: string, from: Date, to: Date): void {
+  const range = [from, to].map((d) => dayjs(d).format("YYYY-MM-DD")).join("_");
+  downloadFile(content, `bitfocus_${range}.ics`, "text/calendar;charset=utf-8");
+}
@@ -0,0 +1,493 @@
+/**
+ * ICS Import - Read-Only Calendars from Other Apps
+ *
+ * Parses iCalendar (RFC 5545) files into events that are shown on the
+ * Calendar page next to focus sessions and timeblocks, so time can be
+ * planned around meetings. Events are never edited here.
+ *
+ * Recurring events are stored with their RRULE and expanded for the range
+ * being shown. Expansion happens in the event's own time zone, so a weekly
+ * 9:00 meeting stays at 9:00 across daylight saving changes. Supported rule
+ * parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS and WKST; EXDATE and edited
+ * occurrences (RECURRENCE-ID) are applied. Time zones are resolved by their
+ * IANA name; others (such as Windows zone names) fall back to local time.
+ *
+ * @fileoverview iCalendar parsing and recurrence expansion
+ * @author BIT Focus Development Team
+ */
+
+import type { ExternalEvent } from "./db";
+
+/**
+ * Error raised when a file cannot be read as a calendar
+ */
+export class IcsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsImportError";
+  }
+}
+
+/**
+ * A parsed calendar file
+ */
+export interface ParsedCalendar {
+  /** X-WR-CALNAME, if the file has one */
+  name?: string;
+  events: ExternalEvent[];
+}
+
+/**
+ * One occurrence of an external event in a range
+ */
+export interface ExternalOccurrence {
+  /** Unique per occurrence */
+  key: string;
+  title: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  busy: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on recurrence periods looked at for one event */
+const MAX_PERIODS = 10000;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+// ── Parsing ─────────────────────────────────────────────────────────────────
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(
+        timeZone,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "numeric",
+          day: "numeric",
+          hour: "numeric",
+          minute: "numeric",
+          second: "numeric",
+        })
+      );
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (e) {
+      return null;
+    }
+  }
+  return formatters.get(timeZone)!;
+}
+
+/**
+ * Wall-clock time of an instant in a zone, as a Date whose UTC fields hold
+ * the wall time. Recurrences are calculated on these.
+ */
+function toWall(instant: Date, timeZone?: string): Date {
+  if (timeZone === "UTC") return new Date(instant);
+  const formatter = timeZone ? getFormatter(timeZone) : null;
+  if (!formatter) {
+    return new Date(
+      Date.UTC(
+        instant.getFullYear(),
+        instant.getMonth(),
+        instant.getDate(),
+        instant.getHours(),
+        instant.getMinutes(),
+        instant.getSeconds()
+      )
+    );
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map((p) => [p.type, Number(p.value)])
+  ) as Record<string, number>;
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/** Instant of a wall-clock time in a zone; the inverse of `toWall` */
+function fromWall(wall: Date, timeZone?: string): Date {
+  if (timeZone === "UTC") return new Date(wall);
+  if (!timeZone || !getFormatter(timeZone)) {
+    return new Date(
+      wall.getUTCFullYear(),
+      wall.getUTCMonth(),
+      wall.getUTCDate(),
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds()
+    );
+  }
+  // The zone offset can differ on either side of a DST change, so settle it twice
+  let guess = wall.getTime();
+  for (let i = 0; i < 2; i++) {
+    const offset = toWall(new Date(guess), timeZone).getTime() - guess;
+    guess = wall.getTime() - offset;
+  }
+  return new Date(guess);
+}
+
+interface IcsDate {
+  date: Date;
+  allDay: boolean;
+  timeZone?: string;
+}
+
+/**
+ * Parses DATE and DATE-TIME values: 20250115, 20250115T090000Z, or
+ * 20250115T090000 with a TZID parameter or in floating local time.
+ */
+function parseIcsDate(value: string, tzid?: string): IcsDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map(Number);
+
+  if (match[4] === undefined) {
+    return { date: new Date(y, mo - 1, d), allDay: true };
+  }
+  const wall = new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+  if (match[7]) return { date: wall, allDay: false, timeZone: "UTC" };
+
+  const timeZone = tzid?.replace(/^\//, "");
+  if (timeZone && getFormatter(timeZone)) {
+    return { date: fromWall(wall, timeZone), allDay: false, timeZone };
+  }
+  return { date: fromWall(wall), allDay: false };
+}
+
+/** Parses a DURATION such as PT1H30M or P1D into milliseconds */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map((n) => Number(n ?? 0));
+  const ms = (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 * 1000 + seconds * 1000;
+  return match[1] === "-" ? -ms : ms;
+}
+
+/**
+ * Reads the events of an .ics file. Cancelled events are left out;
+ * cancelled occurrences of a recurring event become exceptions.
+ *
+ * @throws {IcsImportError} If the file is not a calendar or has no events
+ */
+export function parseICS(text: string): ParsedCalendar {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some((l) => l.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new IcsImportError("This is not an iCalendar (.ics) file.");
+  }
+
+  let name: string | undefined;
+  const events: ExternalEvent[] = [];
+  const cancelled: { uid: string; recurrenceId: Date }[] = [];
+  const stack: string[] = [];
+  let props: IcsProperty[] = [];
+
+  for (const line of lines) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      stack.push(prop.value.toUpperCase());
+      if (prop.value.toUpperCase() === "VEVENT") props = [];
+      continue;
+    }
+    if (prop.name === "END") {
+      const component = stack.pop();
+      if (component !== "VEVENT") continue;
+
+      const get = (n: string) => props.find((p) => p.name === n);
+      const start = get("DTSTART") && parseIcsDate(get("DTSTART")!.value, get("DTSTART")!.params.TZID);
+      if (!start) continue;
+
+      const uid = get("UID")?.value ?? `event-${events.length}`;
+      const recurrence = get("RECURRENCE-ID");
+      const recurrenceId = recurrence ? parseIcsDate(recurrence.value, recurrence.params.TZID)?.date : undefined;
+
+      if (get("STATUS")?.value.toUpperCase() === "CANCELLED") {
+        if (recurrenceId) cancelled.push({ uid, recurrenceId });
+        continue;
+      }
+
+      let end = get("DTEND") && parseIcsDate(get("DTEND")!.value, get("DTEND")!.params.TZID)?.date;
+      const duration = get("DURATION") && parseDuration(get("DURATION")!.value);
+      if (!end && duration) end = new Date(start.date.getTime() + duration);
+      if (!end || end <= start.date) {
+        end = start.allDay
+          ? new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1)
+          : start.date;
+      }
+
+      const exdates = props
+        .filter((p) => p.name === "EXDATE")
+        .flatMap((p) => p.value.split(",").map((v) => parseIcsDate(v, p.params.TZID)?.date))
+        .filter((d): d is Date => !!d);
+
+      events.push({
+        uid,
+        title: unescapeText(get("SUMMARY")?.value ?? "Busy"),
+        ...(get("LOCATION")?.value && { location: unescapeText(get("LOCATION")!.value) }),
+        start: start.date,
+        end,
+        allDay: start.allDay,
+        ...(start.timeZone && { timeZone: start.timeZone }),
+        ...(get("RRULE") && !recurrenceId && { rrule: get("RRULE")!.value }),
+        ...(exdates.length > 0 && { exdates }),
+        ...(recurrenceId && { recurrenceId }),
+        busy: get("TRANSP")?.value.toUpperCase() !== "TRANSPARENT",
+      });
+      continue;
+    }
+
+    if (stack[stack.length - 1] === "VEVENT") {
+      props.push(prop);
+    } else if (stack.length === 1 && prop.name === "X-WR-CALNAME") {
+      name = unescapeText(prop.value);
+    }
+  }
+
+  for (const { uid, recurrenceId } of cancelled) {
+    const master = events.find((e) => e.uid === uid && e.rrule);
+    if (master) master.exdates = [...(master.exdates ?? []), recurrenceId];
+  }
+
+  if (events.length === 0) {
+    throw new IcsImportError("The calendar has no events.");
+  }
+  return { name, events };
+}
+
+// ── Recurrence expansion ────────────────────────────────────────────────────
+
+interface RecurrenceRule {
+  freq: string;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: { n: number; day: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+function parseRRule(rrule: string, event: ExternalEvent): RecurrenceRule {
+  const parts = Object.fromEntries(
+    rrule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+  const numbers = (value?: string) => (value ? value.split(",").map(Number).filter((n) => !isNaN(n)) : []);
+
+  let until: Date | undefined;
+  if (parts.UNTIL) {
+    const parsed = parseIcsDate(parts.UNTIL, event.timeZone === "UTC" ? undefined : event.timeZone);
+    // A date-only UNTIL includes that whole day
+    until = parsed?.allDay ? new Date(parsed.date.getTime() + DAY_MS - 1) : parsed?.date;
+  }
+
+  // Weeks start on Monday unless WKST says otherwise
+  const weekStart = WEEKDAYS.indexOf(parts.WKST as (typeof WEEKDAYS)[number]);
+
+  return {
+    freq: parts.FREQ ?? "",
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(",") : [])
+      .map((value: string) => {
+        const match = /^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+        return match ? { n: Number(match[1] ?? 0), day: WEEKDAYS.indexOf(match[2] as (typeof WEEKDAYS)[number]) } : null;
+      })
+      .filter((d: { n: number; day: number } | null): d is { n: number; day: number } => d !== null),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+    weekStart: weekStart === -1 ? 1 : weekStart,
+  };
+}
+
+/** Midnight (wall time, in UTC fields) of a year, month and day; days may overflow */
+function wallDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Days of one month selected by BYMONTHDAY or BYDAY, or the start's day of month */
+function daysOfMonth(year: number, month: number, rule: RecurrenceRule, startDay: number): Date[] {
+  const length = daysInMonth(year, month);
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map((d) => (d < 0 ? length + d + 1 : d))
+      .filter((d) => d >= 1 && d <= length)
+      .map((d) => wallDay(year, month, d));
+  }
+  if (rule.byDay.length > 0) {
+    return rule.byDay.flatMap(({ n, day }) => {
+      const matching: Date[] = [];
+      for (let d = 1; d <= length; d++) {
+        if (wallDay(year, month, d).getUTCDay() === day) matching.push(wallDay(year, month, d));
+      }
+      if (n === 0) return matching;
+      const picked = n > 0 ? matching[n - 1] : matching[matching.length + n];
+      return picked ? [picked] : [];
+    });
+  }
+  return startDay <= length ? [wallDay(year, month, startDay)] : [];
+}
+
+/** Candidate days (wall midnights) of one recurrence period */
+function periodDays(rule: RecurrenceRule, startWall: Date, period: number): Date[] {
+  const y = startWall.getUTCFullYear();
+  const m = startWall.getUTCMonth();
+  const d = startWall.getUTCDate();
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [wallDay(y, m, d + step)];
+    case "WEEKLY": {
+      const offset = (startWall.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekStart = wallDay(y, m, d - offset + step * 7);
+      const days = rule.byDay.length > 0 ? rule.byDay.map((b) => b.day) : [startWall.getUTCDay()];
+      return days.map((day) => new Date(weekStart.getTime() + ((day - rule.weekStart + 7) % 7) * DAY_MS));
+    }
+    case "MONTHLY": {
+      const month = wallDay(y, m + step, 1);
+      return daysOfMonth(month.getUTCFullYear(), month.getUTCMonth(), rule, d);
+    }
+    case "YEARLY": {
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map((n) => n - 1) : [m];
+      return months.flatMap((month) => daysOfMonth(y + step, month, rule, d));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Starts of a recurring event's occurrences up to a limit.
+ */
+function recurrenceStarts(event: ExternalEvent, limit: Date): Date[] {
+  const rule = parseRRule(event.rrule!, event);
+  const zone = event.allDay ? undefined : event.timeZone;
+  const startWall = toWall(event.start, zone);
+  const timeOfDay = startWall.getTime() - wallDay(startWall.getUTCFullYear(), startWall.getUTCMonth(), startWall.getUTCDate()).getTime();
+
+  // Rules this module cannot expand still show their first occurrence
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(rule.freq)) return [event.start];
+
+  const starts: Date[] = [];
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let days = periodDays(rule, startWall, period)
+      .filter((day) => rule.byMonth.length === 0 || rule.byMonth.includes(day.getUTCMonth() + 1))
+      .filter((day) => rule.freq !== "DAILY" || rule.byDay.length === 0 || rule.byDay.some((b) => b.day === day.getUTCDay()))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    if (rule.bySetPos.length > 0) {
+      days = rule.bySetPos
+        .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+        .filter((day): day is Date => !!day);
+    }
+
+    for (const day of days) {
+      const wall = new Date(day.getTime() + timeOfDay);
+      if (wall < startWall) continue;
+      const start = fromWall(wall, zone);
+      if ((rule.until && start > rule.until) || start > limit) return starts;
+      starts.push(start);
+      if (rule.count !== undefined && starts.length >= rule.count) return starts;
+    }
+  }
+  return starts;
+}
+
+/**
+ * Occurrences of external events that overlap a range, with recurring
+ * events expanded, exceptions removed and edited occurrences applied.
+ *
+ * @param events - Events of one or more calendars
+ * @param from - Range start
+ * @param to - Range end
+ */
+export function expandExternalEvents(events: ExternalEvent[], from: Date, to: Date): ExternalOccurrence[] {
+  const overrides = new Set(
+    events.filter((e) => e.recurrenceId).map((e) => `${e.uid}|${e.recurrenceId!.getTime()}`)
+  );
+  const occurrences: ExternalOccurrence[] = [];
+
+  const add = (event: ExternalEvent, start: Date, end: Date) => {
+    if (start < to && end > from) {
+      occurrences.push({
+        key: `${event.uid}|${start.getTime()}`,
+        title: event.title,
+        location: event.location,
+        start,
+        end,
+        allDay: event.allDay,
+        busy: event.busy,
+      });
+    }
+  };
+
+  for (const event of events) {
+    if (!event.rrule) {
+      add(event, event.start, event.end);
+      continue;
+    }
+
+    // Keep the length in wall time, so all-day and DST-crossing events stay whole
+    const zone = event.allDay ? undefined : event.timeZone;
+    const length = toWall(event.end, zone).getTime() - toWall(event.start, zone).getTime();
+    const excluded = new Set((event.exdates ?? []).map((d) => d.getTime()));
+
+    for (const start of recurrenceStarts(event, to)) {
+      if (excluded.has(start.getTime()) || overrides.has(`${event.uid}|${start.getTime()}`)) continue;
+      add(event, start, fromWall(new Date(toWall(start, zone).getTime() + length), zone));
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,203 @@
+/**
+ * Invoice Documents - Printable HTML and JSON Records
+ *
+ * Turns stored invoices into documents: a self-contained HTML page styled
+ * for printing (and "Save as PDF" from the browser print dialog) and a JSON
+ * record for bookkeeping tools.
+ *
+ * @fileoverview Invoice formatting, HTML rendering and JSON export
+ * @author BIT Focus Development Team
+ */
+
+import type { Invoice } from "./db";
+import { downloadFile, formatDate, getCurrencySymbol } from "./utils";
+
+/**
+ * Context printed alongside the invoice
+ */
+export interface InvoiceContext {
+  /** Title of the invoiced project */
+  projectTitle: string;
+  /** Name of the person issuing the invoice */
+  issuer: string;
+}
+
+/**
+ * Formats an invoice number for display (e.g. "INV-0007").
+ *
+ * @param number - Sequential invoice number
+ * @returns Display number
+ */
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(4, "0")}`;
+}
+
+/**
+ * Formats an amount with the currency symbol and two decimals.
+ *
+ * @param amount - Amount to format
+ * @param currency - Currency code
+ * @returns Formatted amount (e.g. "$1,250.00")
+ */
+export function formatMoney(amount: number, currency: string): string {
+  return `${getCurrencySymbol(currency)}${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+/** Escapes text for safe use inside HTML */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders an invoice as a standalone, print-ready HTML document.
+ *
+ * @param invoice - Invoice to render
+ * @param context - Project and issuer details
+ * @returns Complete HTML document
+ */
+export function renderInvoiceHTML(invoice: Invoice, context: InvoiceContext): string {
+  const number = formatInvoiceNumber(invoice.number);
+  const money = (amount: number) => escapeHTML(formatMoney(amount, invoice.currency));
+  const quantityLabel = invoice.basis === "hours" ? "Hours" : "Qty";
+
+  const rows = invoice.lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHTML(line.description)}</td>
+          <td class="num">${line.quantity.toLocaleString()}</td>
+          <td class="num">${money(line.unitPrice)}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${number} — ${escapeHTML(context.projectTitle)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 0; padding: 48px; }
+  .sheet { max-width: 760px; margin: 0 auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 40px; }
+  h1 { font-size: 28px; margin: 0 0 4px; letter-spacing: -0.02em; }
+  .muted { color: #666; font-size: 13px; }
+  .status { display: inline-block; font-size: 12px; font-weight: 600; padding: 2px 10px; border-radius: 999px; border: 1px solid currentColor; }
+  .status.paid { color: #2563eb; }
+  .status.unpaid { color: #b45309; }
+  .parties { display: flex; gap: 48px; margin-bottom: 32px; }
+  .label { font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #666; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #666; border-bottom: 2px solid #111; padding: 8px 0; }
+  td { padding: 10px 0; border-bottom: 1px solid #e5e5e5; }
+  .num { text-align: right; white-space: nowrap; padding-left: 16px; }
+  tfoot td { border-bottom: none; font-weight: 700; font-size: 16px; padding-top: 16px; }
+  .notes { margin-top: 32px; font-size: 13px; white-space: pre-wrap; }
+  .actions { text-align: right; margin-bottom: 24px; }
+  .actions button { font: inherit; padding: 6px 14px; border-radius: 6px; border: 1px solid #ccc; background: #fff; cursor: pointer; }
+  @media print { body { padding: 0; } .actions { display: none; } }
+</style>
+</head>
+<body>
+<div class="sheet">
+  <div class="actions"><button onclick="window.print()">Print / Save as PDF</button></div>
+  <header>
+    <div>
+      <h1>Invoice</h1>
+      <div class="muted">${number}</div>
+    </div>
+    <span class="status ${invoice.status === "Paid" ? "paid" : "unpaid"}">${invoice.status}</span>
+  </header>
+  <div class="parties">
+    <div>
+      <div class="label">From</div>
+      <div>${escapeHTML(context.issuer)}</div>
+    </div>
+    <div>
+      <div class="label">Bill to</div>
+      <div>${escapeHTML(invoice.billTo || "—")}</div>
+    </div>
+    <div>
+      <div class="label">Project</div>
+      <div>${escapeHTML(context.projectTitle)}</div>
+      ${invoice.periodStart ? `<div class="muted">Time tracked ${formatDate(invoice.periodStart)} – ${formatDate(invoice.issuedAt)}</div>` : ""}
+    </div>
+    <div>
+      <div class="label">Issued</div>
+      <div>${formatDate(invoice.issuedAt)}</div>
+      ${invoice.dueDate ? `<div class="muted">Due ${formatDate(invoice.dueDate)}</div>` : ""}
+      ${invoice.paidAt ? `<div class="muted">Paid ${formatDate(invoice.paidAt)}</div>` : ""}
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">${quantityLabel}</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colspan="3">Total</td>
+        <td class="num">${money(invoice.total)}</td>
+      </tr>
+    </tfoot>
+  </table>
+  ${invoice.notes ? `<div class="notes">${escapeHTML(invoice.notes)}</div>` : ""}
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Opens the printable invoice in a new tab.
+ *
+ * @param invoice - Invoice to show
+ * @param context - Project and issuer details
+ */
+export function openInvoicePrintView(invoice: Invoice, context: InvoiceContext): void {
+  const blob = new Blob([renderInvoiceHTML(invoice, context)], { type: "text/html" });
+  const url = URL.createObjectURL(blob);
+  window.open(url, "_blank");
+  // Give the new tab time to load before releasing the document
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/**
+ * Downloads the invoice as a JSON record with ISO dates.
+ *
+ * @param invoice - Invoice to export
+ * @param context - Project and issuer details
+ */
+export function downloadInvoiceJSON(invoice: Invoice, context: InvoiceContext): void {
+  const record = {
+    invoiceNumber: formatInvoiceNumber(invoice.number),
+    ...invoice,
+    project: context.projectTitle,
+    issuer: context.issuer,
+    issuedAt: invoice.issuedAt.toISOString(),
+    dueDate: invoice.dueDate?.toISOString(),
+    paidAt: invoice.paidAt?.toISOString(),
+    periodStart: invoice.periodStart?.toISOString(),
+    createdAt: invoice.createdAt.toISOString(),
+    updatedAt: invoice.updatedAt.toISOString(),
+  };
+  downloadFile(
+    JSON.stringify(record, null, 2),
+    `${formatInvoiceNumber(invoice.number)}.json`,
+    "application/json"
+  );
+}
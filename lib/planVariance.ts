@@ -0,0 +1,219 @@
+/**
+ * Plan Variance - Planned Timeblocks Against Focused Time
+ *
+ * Measures how a period went against its plan: planned and focused time per
+ * tag, how much focus happened inside a planned block of the same tag, and
+ * which blocks passed without any focus on their tag. Pauses don't count as
+ * focused time, and repeating timeblocks count once per occurrence.
+ *
+ * @fileoverview Planned-vs-actual report for timeblocks and focus sessions
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { FocusSession } from "@/hooks/useFocus";
+import type { TimeBlock } from "./db";
+import { expandTimeblocks } from "./timeblockRecurrence";
+
+/** Planned and focused time of one tag */
+export interface TagVariance {
+  tag: string;
+  plannedSeconds: number;
+  actualSeconds: number;
+  /** Focused time inside planned blocks of the tag */
+  insideSeconds: number;
+}
+
+/** A planned block that ended without focus on its tag */
+export interface SkippedBlock {
+  tag: string;
+  title?: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Planned-vs-actual report of a period
+ */
+export interface PlanVariance {
+  plannedSeconds: number;
+  actualSeconds: number;
+  /** Focused time inside planned blocks of the same tag */
+  insideSeconds: number;
+  /** Focused time outside them */
+  outsideSeconds: number;
+  /** Tags with planned or focused time, most planned first */
+  tags: TagVariance[];
+  /** Oldest first */
+  skipped: SkippedBlock[];
+}
+
+/** Totals of one week, for trends */
+export interface WeekVariance {
+  weekStart: Date;
+  plannedSeconds: number;
+  actualSeconds: number;
+  insideSeconds: number;
+}
+
+/** Start and end in milliseconds */
+type Interval = [number, number];
+
+/** Sorts and joins overlapping intervals */
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+function totalSeconds(intervals: Interval[]): number {
+  return intervals.reduce((sum, [start, end]) => sum + (end - start), 0) / 1000;
+}
+
+/** Overlap in seconds of two merged interval lists */
+function overlapSeconds(a: Interval[], b: Interval[]): number {
+  let total = 0;
+  let j = 0;
+  for (const [start, end] of a) {
+    while (j < b.length && b[j][1] <= start) j++;
+    for (let k = j; k < b.length && b[k][0] < end; k++) {
+      total += Math.min(end, b[k][1]) - Math.max(start, b[k][0]);
+    }
+  }
+  return total / 1000;
+}
+
+/** Focused stretches of a session: its span minus pauses */
+function focusIntervals(session: FocusSession): Interval[] {
+  const intervals: Interval[] = [];
+  let cursor = new Date(session.startTime).getTime();
+  const end = new Date(session.endTime).getTime();
+  const pauses = (session.pauses ?? [])
+    .map((p): Interval => [new Date(p.start).getTime(), new Date(p.end).getTime()])
+    .sort((a, b) => a[0] - b[0]);
+  for (const [pauseStart, pauseEnd] of pauses) {
+    if (pauseStart > cursor) intervals.push([cursor, Math.min(pauseStart, end)]);
+    cursor = Math.max(cursor, pauseEnd);
+  }
+  if (end > cursor) intervals.push([cursor, end]);
+  return intervals;
+}
+
+function clip(intervals: Interval[], from: number, to: number): Interval[] {
+  return intervals
+    .map(([start, end]): Interval => [Math.max(start, from), Math.min(end, to)])
+    .filter(([start, end]) => end > start);
+}
+
+function groupByTag(items: { tag: string; interval: Interval }[]): Map<string, Interval[]> {
+  const groups = new Map<string, Interval[]>();
+  for (const { tag, interval } of items) {
+    groups.set(tag, [...(groups.get(tag) ?? []), interval]);
+  }
+  for (const [tag, intervals] of groups) groups.set(tag, mergeIntervals(intervals));
+  return groups;
+}
+
+/**
+ * Compares the timeblocks of a period with the focus done in it.
+ *
+ * @param focusSessions - All focus sessions
+ * @param timeblocks - All timeblocks, single and repeating
+ * @param from - Period start
+ * @param to - Period end
+ * @param options.hiddenTags - Tags to leave out
+ * @param options.now - Blocks ending after this are not yet skipped (default: now)
+ */
+export function computePlanVariance(
+  focusSessions: FocusSession[],
+  timeblocks: TimeBlock[],
+  from: Date,
+  to: Date,
+  options: { hiddenTags?: Set<string>; now?: Date } = {}
+): PlanVariance {
+  const { hiddenTags, now = new Date() } = options;
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+
+  const occurrences = expandTimeblocks(timeblocks, from, to).filter((o) => !hiddenTags?.has(o.timeblock.tag));
+  const planned = groupByTag(
+    occurrences.flatMap((o) =>
+      clip([[o.start.getTime(), o.end.getTime()]], fromMs, toMs).map((interval) => ({
+        tag: o.timeblock.tag,
+        interval,
+      }))
+    )
+  );
+  const focused = groupByTag(
+    focusSessions
+      .filter((s) => !hiddenTags?.has(s.tag))
+      .filter((s) => new Date(s.startTime).getTime() < toMs && new Date(s.endTime).getTime() > fromMs)
+      .flatMap((s) => clip(focusIntervals(s), fromMs, toMs).map((interval) => ({ tag: s.tag, interval })))
+  );
+
+  const tags: TagVariance[] = [...new Set([...planned.keys(), ...focused.keys()])].map((tag) => ({
+    tag,
+    plannedSeconds: totalSeconds(planned.get(tag) ?? []),
+    actualSeconds: totalSeconds(focused.get(tag) ?? []),
+    insideSeconds: overlapSeconds(focused.get(tag) ?? [], planned.get(tag) ?? []),
+  }));
+  tags.sort((a, b) => b.plannedSeconds - a.plannedSeconds || b.actualSeconds - a.actualSeconds);
+
+  const skipped = occurrences
+    .filter((o) => o.end <= now)
+    .filter((o) => overlapSeconds(focused.get(o.timeblock.tag) ?? [], [[o.start.getTime(), o.end.getTime()]]) === 0)
+    .map((o) => ({ tag: o.timeblock.tag, title: o.timeblock.title, start: o.start, end: o.end }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const sum = (key: keyof Omit<TagVariance, "tag">) => tags.reduce((total, t) => total + t[key], 0);
+  const actualSeconds = sum("actualSeconds");
+  const insideSeconds = sum("insideSeconds");
+
+  return {
+    plannedSeconds: sum("plannedSeconds"),
+    actualSeconds,
+    insideSeconds,
+    outsideSeconds: actualSeconds - insideSeconds,
+    tags,
+    skipped,
+  };
+}
+
+/**
+ * Weekly totals for the weeks up to and including the one containing a date.
+ *
+ * @param focusSessions - All focus sessions
+ * @param timeblocks - All timeblocks
+ * @param date - A day in the last week
+ * @param weeks - Number of weeks
+ * @param hiddenTags - Tags to leave out
+ * @returns Oldest week first; weeks start on Monday like the Calendar
+ */
+export function weeklyPlanVariance(
+  focusSessions: FocusSession[],
+  timeblocks: TimeBlock[],
+  date: Date,
+  weeks: number,
+  hiddenTags?: Set<string>
+): WeekVariance[] {
+  // dayjs weeks start on Sunday, so go back to Monday by hand
+  const day = dayjs(date).startOf("day");
+  const lastMonday = day.subtract((day.day() + 6) % 7, "day");
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = lastMonday.subtract(weeks - 1 - i, "week");
+    const { plannedSeconds, actualSeconds, insideSeconds } = computePlanVariance(
+      focusSessions,
+      timeblocks,
+      weekStart.toDate(),
+      weekStart.add(1, "week").toDate(),
+      { hiddenTags }
+    );
+    return { weekStart: weekStart.toDate(), plannedSeconds, actualSeconds, insideSeconds };
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Timeblock Recurrence - Expanding Repeating Timeblocks
+ *
+ * A repeating timeblock is stored once, as its first occurrence plus a
+ * `TimeblockRecurrence` rule and a list of removed occurrences. This module
+ * turns series into the occurrences inside a date range and holds the date
+ * arithmetic used when one occurrence or the rest of a series is changed.
+ *
+ * Occurrences keep the wall-clock time of the first one across daylight
+ * saving changes, so "Deep work 9–11" stays at 9 all year.
+ *
+ * @fileoverview Recurrence expansion and series splitting for timeblocks
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { TimeBlock, TimeblockRecurrence } from "./db";
+
+/** Ways a timeblock can repeat */
+export const TIMEBLOCK_FREQUENCIES = ["daily", "weekdays", "weekly"] as const;
+
+/** Which occurrences a change to a repeating timeblock applies to */
+export const RECURRENCE_SCOPES = ["this", "future"] as const;
+export type RecurrenceScope = (typeof RECURRENCE_SCOPES)[number];
+
+/** Short day names, Sunday first like `Date.getDay()` */
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+/**
+ * One occurrence of a timeblock in a date range
+ */
+export interface TimeblockOccurrence {
+  timeblock: TimeBlock;
+  start: Date;
+  end: Date;
+  /** Whether the occurrence belongs to a repeating series */
+  recurring: boolean;
+}
+
+function repeatsOn(recurrence: TimeblockRecurrence, day: dayjs.Dayjs, first: dayjs.Dayjs): boolean {
+  const weekday = day.day();
+  switch (recurrence.freq) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return weekday >= 1 && weekday <= 5;
+    case "weekly":
+      return (recurrence.days?.length ? recurrence.days : [first.day()]).includes(weekday);
+  }
+}
+
+/**
+ * Start times of a series' occurrences up to a limit, removed ones included
+ * (they still count towards `count`).
+ */
+function occurrenceStarts(timeblock: TimeBlock, limit: Date): Date[] {
+  const first = dayjs(timeblock.startTime);
+  const recurrence = timeblock.recurrence;
+  if (!recurrence) return first.toDate() <= limit ? [first.toDate()] : [];
+
+  const until = recurrence.until ? dayjs(recurrence.until).endOf("day") : null;
+  const starts: Date[] = [];
+  for (let day = first; !day.isAfter(limit); day = day.add(1, "day")) {
+    if (until && day.isAfter(until)) break;
+    if (recurrence.count !== undefined && starts.length >= recurrence.count) break;
+    if (repeatsOn(recurrence, day, first)) starts.push(day.toDate());
+  }
+  return starts;
+}
+
+function isException(timeblock: TimeBlock, start: Date): boolean {
+  return !!timeblock.exceptions?.some((e) => new Date(e).getTime() === start.getTime());
+}
+
+/**
+ * Lists the occurrences of timeblocks that overlap a date range.
+ *
+ * @param timeblocks - Single and repeating timeblocks
+ * @param from - Range start
+ * @param to - Range end
+ * @returns Occurrences in no particular order
+ */
+export function expandTimeblocks(timeblocks: TimeBlock[], from: Date, to: Date): TimeblockOccurrence[] {
+  const occurrences: TimeblockOccurrence[] = [];
+
+  for (const timeblock of timeblocks) {
+    const duration = new Date(timeblock.endTime).getTime() - new Date(timeblock.startTime).getTime();
+    for (const start of occurrenceStarts(timeblock, to)) {
+      const end = new Date(start.getTime() + duration);
+      if (start >= to || end <= from || isException(timeblock, start)) continue;
+      occurrences.push({ timeblock, start, end, recurring: !!timeblock.recurrence });
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether a timeblock has an occurrence overlapping a date range
+ */
+export function timeblockOccursIn(timeblock: TimeBlock, from: Date, to: Date): boolean {
+  return expandTimeblocks([timeblock], from, to).length > 0;
+}
+
+/**
+ * Start of the last occurrence of a timeblock, or null for series that
+ * repeat indefinitely. Removed occurrences are not taken into account.
+ */
+export function lastOccurrenceStart(timeblock: TimeBlock): Date | null {
+  const recurrence = timeblock.recurrence;
+  if (!recurrence) return new Date(timeblock.startTime);
+  // Every rule repeats at least once a week, so `count` weeks is always enough
+  const limit = recurrence.until
+    ? dayjs(recurrence.until).endOf("day")
+    : recurrence.count !== undefined
+      ? dayjs(timeblock.startTime).add(recurrence.count + 1, "week")
+      : null;
+  if (!limit) return null;
+  const starts = occurrenceStarts(timeblock, limit.toDate());
+  return starts.length ? starts[starts.length - 1] : new Date(timeblock.startTime);
+}
+
+/**
+ * Number of occurrences of a series before a given one, removed ones included
+ */
+export function countOccurrencesBefore(timeblock: TimeBlock, occurrenceStart: Date): number {
+  return occurrenceStarts(timeblock, new Date(occurrenceStart.getTime() - 1)).length;
+}
+
+/**
+ * Moves the days of a weekly series by a number of days, for when the
+ * occurrences of a series are dragged to another day.
+ */
+export function shiftRecurrenceDays(recurrence: TimeblockRecurrence, days: number): TimeblockRecurrence {
+  if (recurrence.freq !== "weekly" || !recurrence.days?.length || days % 7 === 0) return recurrence;
+  return {
+    ...recurrence,
+    days: recurrence.days.map((d) => (((d + days) % 7) + 7) % 7).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * The recurrence of a series cut short so that it ends before one of its
+ * occurrences. Series limited by a count keep a count.
+ *
+ * @param timeblock - A repeating timeblock
+ * @param occurrenceStart - First occurrence to leave out
+ */
+export function endRecurrenceBefore(timeblock: TimeBlock, occurrenceStart: Date): TimeblockRecurrence {
+  const recurrence = timeblock.recurrence!;
+  if (recurrence.count !== undefined) {
+    return { ...recurrence, count: countOccurrencesBefore(timeblock, occurrenceStart) };
+  }
+  return { ...recurrence, until: dayjs(occurrenceStart).subtract(1, "day").startOf("day").toDate() };
+}
+
+/**
+ * Describes a recurrence, e.g. "Weekly on Mon, Wed until 31 Mar 2025".
+ */
+export function describeRecurrence(recurrence: TimeblockRecurrence, first: Date): string {
+  let text: string;
+  switch (recurrence.freq) {
+    case "daily":
+      text = "Every day";
+      break;
+    case "weekdays":
+      text = "Every weekday";
+      break;
+    case "weekly": {
+      const days = recurrence.days?.length ? recurrence.days : [new Date(first).getDay()];
+      text = `Weekly on ${[...days].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(", ")}`;
+      break;
+    }
+  }
+  if (recurrence.count !== undefined) {
+    return `${text}, ${recurrence.count} time${recurrence.count !== 1 ? "s" : ""}`;
+  }
+  if (recurrence.until) return `${text} until ${dayjs(recurrence.until).format("D MMM YYYY")}`;
+  return text;
+}
@@ -0,0 +1,205 @@
+/**
+ * Timeblock Templates - Reusable Day and Week Plans
+ *
+ * A template is a named layout of blocks by time of day: one day ("Maker
+ * day") or a Monday-to-Sunday week. Templates are built from the timeblocks
+ * of a day or week already planned, and turned back into timeblocks for a
+ * range of dates. The same planning is used to copy one week's plan to
+ * another.
+ *
+ * Planned blocks may overlap timeblocks that already exist; how that is
+ * resolved is one of `CONFLICT_STRATEGIES`.
+ *
+ * @fileoverview Template building, planning and conflict detection for timeblocks
+ * @author BIT Focus Development Team
+ */
+
+import dayjs from "dayjs";
+import type { TimeBlock } from "./db";
+import { expandTimeblocks, type TimeblockOccurrence } from "./timeblockRecurrence";
+
+/** Kinds of templates */
+export const TEMPLATE_KINDS = ["day", "week"] as const;
+export type TemplateKind = (typeof TEMPLATE_KINDS)[number];
+
+/**
+ * What happens to a planned block that overlaps an existing one:
+ * - skip: the planned block is left out
+ * - replace: the existing block (or occurrence) is removed
+ * - keep: both are kept
+ */
+export const CONFLICT_STRATEGIES = ["skip", "replace", "keep"] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+/**
+ * A block in a template, by time of day
+ */
+export interface TemplateBlock {
+  tag: string;
+  title?: string;
+  mode?: TimeBlock["mode"];
+  /** Days after Monday for week templates; 0 in day templates */
+  day: number;
+  /** Minutes after midnight */
+  startMinute: number;
+  durationMinutes: number;
+}
+
+/**
+ * Timeblock Template Interface
+ */
+export interface TimeblockTemplate {
+  id: string;
+  name: string;
+  kind: TemplateKind;
+  blocks: TemplateBlock[];
+}
+
+/** A timeblock to be added */
+export type PlannedBlock = Omit<TimeBlock, "id" | "recurrence" | "exceptions">;
+
+/** A planned block with the existing occurrences it overlaps */
+export interface PlannedBlockConflict {
+  block: PlannedBlock;
+  conflicts: TimeblockOccurrence[];
+}
+
+/** Monday of the week containing a date, at midnight */
+export function startOfPlanWeek(date: Date): Date {
+  const day = dayjs(date).startOf("day");
+  return day.subtract((day.day() + 6) % 7, "day").toDate();
+}
+
+/**
+ * Range a template is taken from: the day, or the Monday-to-Sunday week,
+ * containing a date.
+ */
+export function templateSourceRange(kind: TemplateKind, date: Date): { start: Date; end: Date } {
+  const start = kind === "day" ? dayjs(date).startOf("day") : dayjs(startOfPlanWeek(date));
+  return { start: start.toDate(), end: start.add(1, kind === "day" ? "day" : "week").toDate() };
+}
+
+/**
+ * Builds template blocks from the timeblocks planned on a day or in a week.
+ *
+ * @param kind - Day or week template
+ * @param timeblocks - All timeblocks
+ * @param date - A day in the day or week to copy
+ * @returns Blocks in start order
+ */
+export function templateBlocksFrom(kind: TemplateKind, timeblocks: TimeBlock[], date: Date): TemplateBlock[] {
+  const { start, end } = templateSourceRange(kind, date);
+  return expandTimeblocks(timeblocks, start, end)
+    .filter((o) => o.start >= start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ timeblock, start: blockStart, end: blockEnd }) => {
+      const at = dayjs(blockStart);
+      return {
+        tag: timeblock.tag,
+        ...(timeblock.title && { title: timeblock.title }),
+        ...(timeblock.mode && { mode: timeblock.mode }),
+        day: kind === "day" ? 0 : at.startOf("day").diff(dayjs(start), "day"),
+        startMinute: at.hour() * 60 + at.minute(),
+        durationMinutes: Math.round((blockEnd.getTime() - blockStart.getTime()) / 60000),
+      };
+    });
+}
+
+/**
+ * Lays a template out over a range of days.
+ *
+ * @param template - Template to apply
+ * @param from - First day
+ * @param to - Last day, inclusive
+ * @param weekdays - For day templates, the days of the week it goes on (0 = Sunday)
+ * @returns Timeblocks to add, in start order
+ */
+export function planTemplate(
+  template: TimeblockTemplate,
+  from: Date,
+  to: Date,
+  weekdays: number[] = [0, 1, 2, 3, 4, 5, 6]
+): PlannedBlock[] {
+  const planned: PlannedBlock[] = [];
+  const last = dayjs(to).startOf("day");
+
+  for (let day = dayjs(from).startOf("day"); !day.isAfter(last); day = day.add(1, "day")) {
+    const blocks =
+      template.kind === "day"
+        ? weekdays.includes(day.day()) ? template.blocks : []
+        : template.blocks.filter((b) => b.day === (day.day() + 6) % 7);
+
+    for (const block of blocks) {
+      // Wall-clock time, so blocks keep their hour across daylight saving changes
+      const start = day.hour(Math.floor(block.startMinute / 60)).minute(block.startMinute % 60);
+      planned.push({
+        tag: block.tag,
+        ...(block.title && { title: block.title }),
+        ...(block.mode && { mode: block.mode }),
+        startTime: start.toDate(),
+        endTime: start.add(block.durationMinutes, "minute").toDate(),
+      });
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Plans a copy of one week's timeblocks into another week at the same
+ * times of day, keeping their project, milestone and issue links. Occurrences of repeating blocks that already continue into
+ * the target week are not copied.
+ *
+ * @param timeblocks - All timeblocks
+ * @param sourceWeek - A day in the week to copy
+ * @param targetWeek - A day in the week to copy to
+ */
+export function planWeekCopy(timeblocks: TimeBlock[], sourceWeek: Date, targetWeek: Date): PlannedBlock[] {
+  const source = templateSourceRange("week", sourceWeek);
+  const target = templateSourceRange("week", targetWeek);
+  const weeks = dayjs(target.start).diff(dayjs(source.start), "week");
+  if (weeks === 0) return [];
+
+  const existing = new Set(
+    expandTimeblocks(timeblocks, target.start, target.end).map(
+      (o) => `${o.timeblock.id}@${o.start.getTime()}`
+    )
+  );
+
+  return expandTimeblocks(timeblocks, source.start, source.end)
+    .filter((o) => o.start >= source.start)
+    .map((o) => ({ occurrence: o, start: dayjs(o.start).add(weeks, "week").toDate() }))
+    .filter(({ occurrence, start }) => !existing.has(`${occurrence.timeblock.id}@${start.getTime()}`))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ occurrence: { timeblock, start, end } }) => {
+      const startTime = dayjs(start).add(weeks, "week").toDate();
+      return {
+        tag: timeblock.tag,
+        ...(timeblock.title && { title: timeblock.title }),
+        ...(timeblock.mode && { mode: timeblock.mode }),
+        ...(timeblock.projectId !== undefined && { projectId: timeblock.projectId }),
+        ...(timeblock.milestoneId !== undefined && { milestoneId: timeblock.milestoneId }),
+        ...(timeblock.issueId !== undefined && { issueId: timeblock.issueId }),
+        startTime,
+        endTime: new Date(startTime.getTime() + (end.getTime() - start.getTime())),
+      };
+    });
+}
+
+/**
+ * Finds the existing timeblock occurrences each planned block overlaps.
+ *
+ * @param planned - Blocks to add
+ * @param timeblocks - Existing timeblocks
+ */
+export function findPlanConflicts(planned: PlannedBlock[], timeblocks: TimeBlock[]): PlannedBlockConflict[] {
+  if (!planned.length) return [];
+  const from = new Date(Math.min(...planned.map((b) => b.startTime.getTime())));
+  const to = new Date(Math.max(...planned.map((b) => b.endTime.getTime())));
+  const occurrences = expandTimeblocks(timeblocks, from, to);
+
+  return planned.map((block) => ({
+    block,
+    conflicts: occurrences.filter((o) => o.start < block.endTime && o.end > block.startTime),
+  }));
+}
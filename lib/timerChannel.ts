@@ -0,0 +1,109 @@
+/**
+ * timerChannel.ts - Cross-Tab Timer Coordination
+ *
+ * Lets several open BIT Focus tabs share a single focus timer. Exactly one
+ * tab holds the timer ownership Web Lock and runs the timer; every other tab
+ * mirrors the owner's state and forwards its controls over a BroadcastChannel.
+ * When the owning tab closes, the browser hands the lock to a waiting tab,
+ * which takes over from the mirrored state.
+ *
+ * Browsers without BroadcastChannel or Web Locks fall back to the previous
+ * behaviour: every tab owns its own timer.
+ *
+ * @fileoverview BroadcastChannel + Web Locks helpers for timer synchronization
+ * @author BIT Focus Development Team
+ */
+
+/** BroadcastChannel name shared by all tabs */
+const TIMER_CHANNEL_NAME = "bitfocus-timer";
+
+/** Web Lock held by the tab that owns the timer */
+const TIMER_LOCK_NAME = "bitfocus-timer-owner";
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Checks whether the browser can coordinate the timer across tabs.
+ *
+ * @returns True when both BroadcastChannel and Web Locks are available
+ */
+export function isTimerSyncSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof BroadcastChannel !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    "locks" in navigator
+  );
+}
+
+/**
+ * Gets or creates the shared BroadcastChannel for this tab.
+ */
+function getChannel(): BroadcastChannel | null {
+  if (!isTimerSyncSupported()) return null;
+  if (!channel) {
+    channel = new BroadcastChannel(TIMER_CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Sends a message to every other open tab.
+ *
+ * @param message - Structured-cloneable message
+ */
+export function postTimerMessage<T>(message: T): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Subscribes to messages sent by other tabs.
+ *
+ * @param handler - Called with each received message
+ * @returns Unsubscribe function
+ */
+export function onTimerMessage<T>(handler: (message: T) => void): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+
+  const listener = (event: MessageEvent<T>) => handler(event.data);
+  target.addEventListener("message", listener);
+  return () => target.removeEventListener("message", listener);
+}
+
+/**
+ * Queues this tab for timer ownership.
+ *
+ * The callback fires once the tab holds the ownership lock, immediately if
+ * no other tab owns the timer, or later when the current owner closes. Without
+ * Web Locks support the callback fires synchronously.
+ *
+ * @param onAcquired - Called when this tab becomes the owner
+ * @returns Function that gives up ownership (or leaves the queue)
+ */
+export function requestTimerOwnership(onAcquired: () => void): () => void {
+  if (!isTimerSyncSupported()) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  navigator.locks
+    .request(TIMER_LOCK_NAME, { signal: controller.signal }, () => {
+      onAcquired();
+      // Hold the lock until released or the tab closes
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => {
+      // Aborted while waiting in the queue
+    });
+
+  return () => {
+    controller.abort();
+    release?.();
+  };
+}
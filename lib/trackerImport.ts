@@ -0,0 +1,398 @@
+/**
+ * Tracker Import - Focus History from Toggl, Clockify and Generic CSV
+ *
+ * Reads time entries exported by other time trackers and turns them into
+ * focus sessions. Toggl and Clockify exports are recognised by their
+ * columns; any other CSV can be imported by mapping its columns by hand.
+ *
+ * Nothing is written until the user has seen a preview: every row is
+ * checked against existing sessions (and earlier rows of the same file) and
+ * marked as new, a duplicate, overlapping, or unreadable. Tags are matched to
+ * saved tags ignoring case, so "work" in the file lands on an existing "Work".
+ *
+ * @fileoverview CSV parsing, column mapping and duplicate detection for focus imports
+ * @author BIT Focus Development Team
+ */
+
+import db from "./db";
+import type { FocusSession } from "@/hooks/useFocus";
+import type { SavedTag } from "@/hooks/useTag";
+
+/** Supported export formats */
+export const TRACKER_SOURCES = ["toggl", "clockify", "generic"] as const;
+export type TrackerSource = (typeof TRACKER_SOURCES)[number];
+
+export const TRACKER_LABELS: Record<TrackerSource, string> = {
+  toggl: "Toggl Track",
+  clockify: "Clockify",
+  generic: "Other CSV",
+};
+
+/** Order of day, month and year in dates such as 03/04/2025 */
+export const DATE_ORDERS = ["ymd", "mdy", "dmy"] as const;
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  ymd: "Year-Month-Day",
+  mdy: "Month/Day/Year",
+  dmy: "Day/Month/Year",
+};
+
+/** Session fields a column can be mapped to */
+export const MAPPING_FIELDS = ["tag", "note", "start", "startTime", "end", "endTime", "duration"] as const;
+export type MappingField = (typeof MAPPING_FIELDS)[number];
+
+export const MAPPING_LABELS: Record<MappingField, string> = {
+  tag: "Tag",
+  note: "Note",
+  start: "Start (date or date and time)",
+  startTime: "Start time",
+  end: "End (date or date and time)",
+  endTime: "End time",
+  duration: "Duration",
+};
+
+/**
+ * Which CSV column holds each session field; an empty string leaves a field
+ * unmapped. A start is required, plus an end or a duration.
+ */
+export type ColumnMapping = Record<MappingField, string>;
+
+/** Column names in Toggl Track and Clockify detailed exports */
+export const PRESET_MAPPINGS: Record<Exclude<TrackerSource, "generic">, ColumnMapping> = {
+  toggl: {
+    tag: "Project",
+    note: "Description",
+    start: "Start date",
+    startTime: "Start time",
+    end: "End date",
+    endTime: "End time",
+    duration: "Duration",
+  },
+  clockify: {
+    tag: "Project",
+    note: "Description",
+    start: "Start Date",
+    startTime: "Start Time",
+    end: "End Date",
+    endTime: "End Time",
+    duration: "Duration (h)",
+  },
+};
+
+/** Tag for entries without a project */
+export const FALLBACK_TAG = "Imported";
+
+/** Sessions starting and ending within this many ms of each other are duplicates */
+const DUPLICATE_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Error raised when a file cannot be read as a CSV export
+ */
+export class TrackerImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackerImportError";
+  }
+}
+
+/**
+ * A CSV file split into its header and data rows
+ */
+export interface CsvTable {
+  header: string[];
+  rows: string[][];
+}
+
+export type ImportRowStatus = "new" | "duplicate" | "overlap" | "invalid";
+
+/**
+ * One row of the file as it would be imported
+ */
+export interface ImportRow {
+  /** Line number in the file, for pointing the user at problems */
+  line: number;
+  tag: string;
+  startTime?: Date;
+  endTime?: Date;
+  note?: string;
+  status: ImportRowStatus;
+  /** Why the row is invalid */
+  reason?: string;
+}
+
+/**
+ * What an import would do
+ */
+export interface TrackerImportPreview {
+  /** Rows in start order; invalid rows last */
+  rows: ImportRow[];
+  /** Tags that are not saved yet and will be created */
+  newTags: string[];
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180). Commas, semicolons and
+ * tabs are accepted as separators, whichever the first line uses most.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Reads a CSV file into a header and rows.
+ *
+ * @throws {TrackerImportError} If the file has no data rows
+ */
+export function readCsvTable(text: string): CsvTable {
+  const [header, ...rows] = parseCSV(text);
+  if (!header || rows.length === 0) {
+    throw new TrackerImportError("The file has no time entries.");
+  }
+  return { header: header.map((h) => h.trim()), rows };
+}
+
+/**
+ * Recognises Toggl and Clockify exports by their columns.
+ */
+export function detectSource(header: string[]): TrackerSource {
+  const has = (columns: ColumnMapping) =>
+    [columns.start, columns.startTime, columns.duration].every((c) => header.includes(c));
+  if (has(PRESET_MAPPINGS.toggl)) return "toggl";
+  if (has(PRESET_MAPPINGS.clockify)) return "clockify";
+  return "generic";
+}
+
+/**
+ * Column mapping for a source; for other CSV files, a guess from column names.
+ */
+export function getMapping(source: TrackerSource, header: string[]): ColumnMapping {
+  if (source !== "generic") return PRESET_MAPPINGS[source];
+
+  const find = (pattern: RegExp, exclude?: RegExp) =>
+    header.find((h) => pattern.test(h) && !exclude?.test(h)) ?? "";
+  const startPattern = /\b(start|begin)|^from$/i;
+  const endPattern = /\b(end|stop|finish)|^to$/i;
+  const shared = {
+    tag: find(/^(tag|tags|project|category|activity)$/i),
+    note: find(/description|note|comment|task/i),
+    duration: find(/duration|hours|length/i),
+  };
+
+  // One date column with start and end times of day
+  const date = find(/^(date|day)$/i);
+  if (date) {
+    return { ...shared, start: date, startTime: find(startPattern), end: "", endTime: find(endPattern) };
+  }
+  return {
+    ...shared,
+    start: find(startPattern, /time$/i),
+    startTime: find(/\bstart.*time$/i),
+    end: find(endPattern, /time$/i),
+    endTime: find(/\b(end|stop).*time$/i),
+  };
+}
+
+function splitDate(value: string): [string, string, string] | null {
+  const match = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/.exec(value.trim());
+  return match ? [match[1], match[2], match[3]] : null;
+}
+
+/**
+ * Guesses the date order from sample dates: four-digit first parts are
+ * years, and a first part above 12 can only be a day. Otherwise month first,
+ * as Clockify and US locales use.
+ */
+export function detectDateOrder(samples: string[]): DateOrder {
+  const parts = samples.map(splitDate).filter((p) => p !== null);
+  if (parts.length > 0 && parts.every(([first]) => first.length === 4)) return "ymd";
+  if (parts.some(([first]) => Number(first) > 12)) return "dmy";
+  return "mdy";
+}
+
+function parseTime(value: string): [number, number, number] | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/.exec(value.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return [hours, Number(match[2]), Number(match[3] ?? 0)];
+}
+
+/**
+ * Parses a date and optional time, either from two columns or from one
+ * column holding both. ISO timestamps with a time zone are read as such.
+ */
+function parseDateTime(date: string, time: string, order: DateOrder): Date | null {
+  let datePart = date.trim();
+  let timePart = time.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(datePart)) {
+    const iso = new Date(datePart);
+    return isNaN(iso.getTime()) ? null : iso;
+  }
+  if (!timePart) {
+    [datePart, timePart = ""] = datePart.split(/[ T](.*)/);
+  }
+
+  const parts = splitDate(datePart);
+  if (!parts) return null;
+  const [a, b, c] = parts.map(Number);
+  const [year, month, day] =
+    parts[0].length === 4 || order === "ymd" ? [a, b, c] : order === "mdy" ? [c, a, b] : [c, b, a];
+
+  const clock: [number, number, number] | null = timePart ? parseTime(timePart) : [0, 0, 0];
+  if (!clock) return null;
+
+  const result = new Date(year < 100 ? 2000 + year : year, month - 1, day, ...clock);
+  return result.getMonth() === month - 1 && result.getDate() === day ? result : null;
+}
+
+/** Parses "1:30:00", "1:30" or decimal hours such as "1.5" into seconds */
+function parseDuration(value: string): number | null {
+  const text = value.trim();
+  const clock = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(text);
+  if (clock) return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] ?? 0);
+  const hours = Number(text.replace(",", "."));
+  return text && !isNaN(hours) ? hours * 3600 : null;
+}
+
+/**
+ * Builds the preview for a file: parses every row with the mapping and
+ * compares it with existing sessions and the rows before it.
+ *
+ * @param table - The file's header and rows
+ * @param mapping - Columns to read
+ * @param dateOrder - How to read ambiguous dates
+ * @param existing - Focus sessions already stored
+ * @param savedTags - Saved tags to match tag names against
+ */
+export function previewTrackerImport(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  dateOrder: DateOrder,
+  existing: FocusSession[],
+  savedTags: SavedTag[]
+): TrackerImportPreview {
+  const column = (field: MappingField) => table.header.indexOf(mapping[field]);
+  const indexes = Object.fromEntries(MAPPING_FIELDS.map((f) => [f, column(f)])) as Record<MappingField, number>;
+  const read = (row: string[], field: MappingField) => (indexes[field] >= 0 ? row[indexes[field]]?.trim() ?? "" : "");
+
+  const tagsByName = new Map(savedTags.map((t) => [t.t.toLowerCase(), t.t]));
+  const newTags = new Map<string, string>();
+  const matchTag = (name: string) => {
+    const key = name.toLowerCase();
+    const saved = tagsByName.get(key) ?? newTags.get(key);
+    if (saved) return saved;
+    newTags.set(key, name);
+    return name;
+  };
+
+  const parsed: ImportRow[] = table.rows.map((row, i) => {
+    const line = i + 2;
+    const tag = read(row, "tag") || FALLBACK_TAG;
+    const note = read(row, "note") || undefined;
+    const startTime = parseDateTime(read(row, "start"), read(row, "startTime"), dateOrder);
+
+    let endTime: Date | null = null;
+    if (read(row, "end")) {
+      endTime = parseDateTime(read(row, "end"), read(row, "endTime"), dateOrder);
+    } else if (read(row, "endTime") && startTime) {
+      // Only an end time: same day as the start, or the next if it is earlier
+      endTime = parseDateTime(read(row, "start").split(/[ T]/)[0], read(row, "endTime"), dateOrder);
+      if (endTime && endTime <= startTime) endTime.setDate(endTime.getDate() + 1);
+    } else if (startTime) {
+      const seconds = parseDuration(read(row, "duration"));
+      if (seconds !== null) endTime = new Date(startTime.getTime() + seconds * 1000);
+    }
+
+    if (!startTime) return { line, tag, note, status: "invalid", reason: "Start could not be read" };
+    if (!endTime) return { line, tag, note, startTime, status: "invalid", reason: "End could not be read" };
+    if (endTime <= startTime) {
+      return { line, tag, note, startTime, endTime, status: "invalid", reason: "Ends before it starts" };
+    }
+    return { line, tag, note, startTime, endTime, status: "new" };
+  });
+
+  const valid = parsed
+    .filter((r) => r.status !== "invalid")
+    .sort((a, b) => a.startTime!.getTime() - b.startTime!.getTime());
+  const invalid = parsed.filter((r) => r.status === "invalid");
+
+  const taken = existing.map((s) => ({ start: new Date(s.startTime).getTime(), end: new Date(s.endTime).getTime() }));
+  for (const row of valid) {
+    row.tag = matchTag(row.tag);
+    const start = row.startTime!.getTime();
+    const end = row.endTime!.getTime();
+
+    if (taken.some((s) => Math.abs(s.start - start) < DUPLICATE_TOLERANCE_MS && Math.abs(s.end - end) < DUPLICATE_TOLERANCE_MS)) {
+      row.status = "duplicate";
+    } else if (taken.some((s) => s.start < end && s.end > start)) {
+      row.status = "overlap";
+    }
+    taken.push({ start, end });
+  }
+
+  return { rows: [...valid, ...invalid], newTags: [...newTags.values()] };
+}
+
+/**
+ * Adds the chosen rows to the focus table in one transaction.
+ *
+ * @returns Number of sessions added
+ */
+export async function importTrackerRows(rows: ImportRow[]): Promise<number> {
+  const sessions: FocusSession[] = rows
+    .filter((r) => r.status !== "invalid")
+    .map((r) => ({
+      tag: r.tag,
+      startTime: r.startTime!,
+      endTime: r.endTime!,
+      ...(r.note && { note: r.note }),
+    }));
+  await db.transaction("rw", db.focus, () => db.focus.bulkAdd(sessions));
+  return sessions.length;
+}
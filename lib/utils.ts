@@ -309,8 +309,8 @@ export const durationFromSeconds = (seconds: number): TimeObject =>
  * Aggregate Focus Session Durations
  *
  * Calculates the total duration of multiple focus sessions by summing
- * their individual durations. Returns the result in seconds for further
- * processing or formatting.
+ * their individual focused durations (pauses excluded). Returns the result
+ * in seconds for further processing or formatting.
  *
  * This function is essential for analytics and reporting features where
  * total focus time across multiple sessions needs to be computed.
@@ -340,17 +340,50 @@ export const durationFromSeconds = (seconds: number): TimeObject =>
  */
 export const reduceSessions = (sessions: FocusSession[]): number => {
   let totalSeconds = 0;
-  sessions.map(
-    (session) =>
-      (totalSeconds += calculateTime(
-        session.startTime,
-        session.endTime,
-        "S"
-      ).seconds)
-  );
+  sessions.map((session) => (totalSeconds += getFocusedSeconds(session)));
   return totalSeconds;
 };
 
+/**
+ * Total Paused Time of a Focus Session
+ *
+ * Sums the pauses recorded on a session. Sessions saved before pause
+ * tracking existed have no pauses and report zero.
+ *
+ * @param {FocusSession} session - Session to inspect
+ * @returns {number} Paused time in seconds
+ */
+export const getPausedSeconds = (session: FocusSession): number =>
+  (session.pauses ?? []).reduce(
+    (total, pause) =>
+      total +
+      calculateTime(new Date(pause.start), new Date(pause.end), "S").seconds,
+    0
+  );
+
+/**
+ * Wall-Clock Duration of a Focus Session
+ *
+ * Time between the session's start and end, including any pauses.
+ *
+ * @param {FocusSession} session - Session to measure
+ * @returns {number} Wall-clock duration in seconds
+ */
+export const getWallClockSeconds = (session: FocusSession): number =>
+  calculateTime(new Date(session.startTime), new Date(session.endTime), "S")
+    .seconds;
+
+/**
+ * Focused Duration of a Focus Session
+ *
+ * Wall-clock duration minus pauses, i.e. the time actually spent focusing.
+ *
+ * @param {FocusSession} session - Session to measure
+ * @returns {number} Focused duration in seconds
+ */
+export const getFocusedSeconds = (session: FocusSession): number =>
+  Math.max(0, getWallClockSeconds(session) - getPausedSeconds(session));
+
 /**
  * Generate Deterministic Color from String
  *
@@ -679,4 +712,20 @@ export async function setClipboard(text: string): Promise<boolean> {
     console.error("Failed to copy text: ", err);
     return false;
   }
-}
\ No newline at end of file
+}
+/**
+ * Downloads text content as a file.
+ *
+ * @param content - File contents
+ * @param filename - Name of the downloaded file
+ * @param type - MIME type of the file
+ */
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}